@@ -1,7 +1,45 @@
 import express from 'express'
 import cors from 'cors'
 import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { Readable } from 'stream'
 import si from 'systeminformation'
+import { createMetricsHistory } from './server/metricsHistory.js'
+import { createEventHub, getLastEventId, openEventStream } from './server/sse.js'
+import { createLogTail } from './server/logTail.js'
+import { createLogFilter, readLogPage } from './server/logReader.js'
+import { getLogParser } from './server/logParsers.js'
+import { aggregateNginxAccessLog } from './server/nginxAnalytics.js'
+import { createLogSourceRegistry, validateLogSources } from './server/logSources.js'
+import { createRedactor, redactRanking, redactionRules } from './server/logRedaction.js'
+import { DEFAULT_EXCLUDED_FS_TYPES, collectDiskUsage } from './server/diskUsage.js'
+import { createCpuTimesSampler } from './server/cpuTimes.js'
+import { DEFAULT_EXCLUDED_INTERFACES, createNetworkSampler } from './server/networkStats.js'
+import { createDiskIOSampler } from './server/diskIO.js'
+import { PROCESS_SORT_FIELDS, listTopProcesses } from './server/processes.js'
+import { DEFAULT_DOCKER_SOCKET, createDockerCollector } from './server/dockerStats.js'
+import { createProbeMonitor } from './server/probes.js'
+import { createAlertEngine } from './server/alerts.js'
+import { createNotifier, createSmtpNotifier, createWebhookNotifier } from './server/notifiers.js'
+import { PROMETHEUS_CONTENT_TYPE, formatPrometheusMetrics } from './server/prometheus.js'
+import { EXPORT_CONTENT_TYPES, EXPORT_FORMATS, writeHistoryExport } from './server/historyExport.js'
+import {
+  ACCESS_SECTIONS,
+  FULL_ACCESS,
+  canAccessSection,
+  canReadLog,
+  createAccessControl,
+  createProxyTrust,
+  logScope,
+  sectionScope
+} from './server/access.js'
+import { createTokenStore } from './server/apiTokens.js'
+import { createAuditLog, isAuditCursor } from './server/auditLog.js'
+import { createRateLimiter } from './server/rateLimit.js'
+import { tokensMatch } from './server/timingSafe.js'
+import { LOCAL_HOST_ID, createAgentPusher, createAgentRegistry, summarizeSample } from './server/agents.js'
+import { parseDuration, parseTimestamp } from './server/timeUtils.js'
 
 const app = express()
 app.set('trust proxy', 1) // Trust first proxy for real client IPs
@@ -16,102 +54,307 @@ app.use((req, res, next) => {
 })
 
 const PORT = 3001
-const LOG_SOURCES = Object.freeze({
-  nginx: {
-    label: 'Nginx',
-    path: '/logs/nginx/access.log'
-  },
-  'nginx-error': {
-    label: 'Nginx (error)',
-    path: '/logs/nginx/error.log'
-  },
-  reportespiolis: {
-    label: 'Reportespiolis',
-    path: '/logs/reportespiolis/app.log'
-  }
-})
+// Fuentes por defecto si no existe LOG_SOURCES_FILE (ver log-sources.example.json)
+const DEFAULT_LOG_SOURCES = validateLogSources([
+  { id: 'nginx', label: 'Nginx', path: '/logs/nginx/access.log', format: 'nginx-access', group: 'Nginx' },
+  { id: 'nginx-error', label: 'Nginx (error)', path: '/logs/nginx/error.log', format: 'nginx-error', group: 'Nginx' },
+  { id: 'reportespiolis', label: 'Reportespiolis', path: '/logs/reportespiolis/app.log', format: 'text', group: 'Aplicaciones' }
+])
+const LOG_SOURCES_FILE = path.resolve(process.env.LOG_SOURCES_FILE || 'log-sources.json')
+// Chequeos HTTP/TCP de servicios (ver probes.example.json); sin archivo no hay probes
+const PROBES_FILE = path.resolve(process.env.PROBES_FILE || 'probes.json')
+// Reglas de alerta (ver alert-rules.example.json); sin archivo no hay reglas
+const ALERT_RULES_FILE = path.resolve(process.env.ALERT_RULES_FILE || 'alert-rules.json')
+// ACLs por grupo para usuarios identificados por el proxy (ver access-control.example.json)
+const ACCESS_CONTROL_FILE = path.resolve(process.env.ACCESS_CONTROL_FILE || 'access-control.json')
+// Límites de pedidos por grupo de rutas (ver rate-limits.example.json)
+const RATE_LIMITS_FILE = path.resolve(process.env.RATE_LIMITS_FILE || 'rate-limits.json')
 const DEFAULT_LOG_LIMIT = 300
 const MAX_LOG_LIMIT = 2000
+const MAX_SEARCH_QUERY_LENGTH = 200
+const MAX_FIELD_FILTERS = 10
+// Bytes máximos a recorrer por búsqueda antes de cortar (se informa truncated)
+const MAX_SEARCH_SCAN_BYTES = parsePositiveNumber(process.env.LOG_SEARCH_MAX_SCAN_MB, 512) * 1024 * 1024
+// Tiempo máximo por búsqueda (cada lote de regex además tiene su propio corte)
+const MAX_SEARCH_SCAN_MS = parsePositiveNumber(process.env.LOG_SEARCH_MAX_SECONDS, 10) * 1000
+
+function parsePositiveNumber(value, fallback) {
+  const parsed = Number.parseFloat(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
 
-async function readLogPage(filePath, limit, offset, order) {
-  const fileHandle = await fs.open(filePath, 'r')
-  try {
-    const stats = await fileHandle.stat()
-    if (!stats.size) {
-      return { lines: [], hasMore: false }
-    }
+function parseFlag(value) {
+  return value === '1' || value === 'true'
+}
 
-    const targetCount = limit + offset
-    const chunkSize = 64 * 1024
-    let position = stats.size
-    let buffer = ''
-    let lines = []
+// field=status:404 (se puede repetir) -> [{ name: 'status', value: '404' }]
+function parseFieldFilters(value) {
+  const values = Array.isArray(value) ? value : [value]
+  return values
+    .filter(item => typeof item === 'string')
+    .map(item => {
+      const separator = item.indexOf(':')
+      return separator > 0
+        ? { name: item.slice(0, separator), value: item.slice(separator + 1) }
+        : null
+    })
+    .filter(Boolean)
+}
 
-    while (position > 0 && lines.length < targetCount) {
-      const readSize = Math.min(chunkSize, position)
-      position -= readSize
+// Analítica del access log de nginx: ventana por defecto/máxima y cache
+// corto para que varios dashboards abiertos no relean el log en cada pedido
+const DEFAULT_ANALYTICS_WINDOW_MS = 60 * 60 * 1000
+const MAX_ANALYTICS_WINDOW_MS = 24 * 60 * 60 * 1000
+const DEFAULT_ANALYTICS_TOP = 10
+const MAX_ANALYTICS_TOP = 50
+const ANALYTICS_CACHE_TTL = 30 * 1000
+const analyticsCache = new Map()
+
+// Procesos: cantidad por defecto/máxima en /api/processes
+const DEFAULT_PROCESS_LIMIT = 20
+const MAX_PROCESS_LIMIT = 200
+const MAX_PROCESS_QUERY_LENGTH = 100
+
+// Docker: socket de la Engine API (vacío = deshabilitado). Cada consulta pide
+// stats a todos los contenedores, así que el resultado se cachea unos segundos
+const DOCKER_SOCKET = process.env.DOCKER_SOCKET ?? DEFAULT_DOCKER_SOCKET
+const CONTAINERS_CACHE_TTL = 10 * 1000
+let containersCache = { data: null, timestamp: 0, pending: null }
+
+// Etiqueta host de /metrics (por defecto el hostname del sistema)
+const METRICS_HOST_LABEL = (process.env.METRICS_HOST_LABEL || '').trim() || os.hostname()
+
+// Multi-host: "standalone" (por defecto), "agent" (solo expone /api/metrics*
+// y /metrics, opcionalmente empuja cada muestra a un agregador) o
+// "aggregator" (además consulta a los agentes de AGENTS_FILE)
+const MONITOR_MODES = ['standalone', 'agent', 'aggregator']
+const MONITOR_MODE = (process.env.MONITOR_MODE || 'standalone').trim()
+if (!MONITOR_MODES.includes(MONITOR_MODE)) {
+  console.error(`MONITOR_MODE invalido "${MONITOR_MODE}" (${MONITOR_MODES.join(', ')})`)
+  process.exit(1)
+}
+const AGENTS_FILE = path.resolve(process.env.AGENTS_FILE || 'agents.json')
+const AGGREGATOR_URL = (process.env.AGGREGATOR_URL || '').trim()
+const AGENT_ID = (process.env.AGENT_ID || '').trim() || os.hostname()
+const AGENT_TOKEN = (process.env.AGENT_TOKEN || '').trim()
+const MAX_AGENT_SAMPLE_BYTES = '1mb'
+
+// Alertas: notificaciones por webhook y/o SMTP (cada canal se activa si está configurado)
+const DEFAULT_ALERT_HISTORY_LIMIT = 50
+const MAX_ALERT_HISTORY_LIMIT = 500
+const ALERT_WEBHOOK_URL = (process.env.ALERT_WEBHOOK_URL || '').trim()
+const SMTP_HOST = (process.env.SMTP_HOST || '').trim()
+const ALERT_EMAIL_TO = parseList(process.env.ALERT_EMAIL_TO, [])
+
+// Discos: tipos de sistema de archivos y montajes (prefijos) a ignorar
+function parseList(value, fallback) {
+  const items = String(value || '').split(',').map(item => item.trim()).filter(Boolean)
+  return items.length > 0 ? items : fallback
+}
 
-      const chunk = Buffer.alloc(readSize)
-      const { bytesRead } = await fileHandle.read(chunk, 0, readSize, position)
+const DISK_EXCLUDE_TYPES = parseList(process.env.DISK_EXCLUDE_TYPES, DEFAULT_EXCLUDED_FS_TYPES)
+const DISK_EXCLUDE_MOUNTS = parseList(process.env.DISK_EXCLUDE_MOUNTS, [])
+
+// Red: interfaces a incluir (vacío = todas) y a excluir, con comodín final ("eth*")
+const NETWORK_INTERFACES = parseList(process.env.NETWORK_INTERFACES, [])
+const NETWORK_EXCLUDE_INTERFACES = parseList(process.env.NETWORK_EXCLUDE_INTERFACES, DEFAULT_EXCLUDED_INTERFACES)
+
+// Historial persistido en disco (ver server/metricsHistory.js)
+const DATA_DIR = path.resolve(process.env.MONITOR_DATA_DIR || 'data')
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+const DEFAULT_HISTORY_RANGE_MS = HOUR_MS
+const DEFAULT_HISTORY_POINTS = 300
+const MAX_HISTORY_POINTS = 2000
+const MIN_HISTORY_STEP_MS = 1000
+const MAX_EXPORT_FIELDS = 200
+
+const metricsHistory = createMetricsHistory({
+  dataDir: DATA_DIR,
+  rawRetentionMs: parsePositiveNumber(process.env.HISTORY_RAW_RETENTION_HOURS, 6) * HOUR_MS,
+  minuteRetentionMs: parsePositiveNumber(process.env.HISTORY_1M_RETENTION_DAYS, 14) * DAY_MS,
+  hourRetentionMs: parsePositiveNumber(process.env.HISTORY_1H_RETENTION_DAYS, 90) * DAY_MS
+})
+await metricsHistory.load()
 
-      buffer = chunk.toString('utf8', 0, bytesRead) + buffer
+// Fuentes de log: una configuración inválida al arrancar corta el inicio
+const logSources = createLogSourceRegistry({
+  configPath: LOG_SOURCES_FILE,
+  defaults: DEFAULT_LOG_SOURCES
+})
+try {
+  const fromFile = await logSources.load()
+  console.log(`Fuentes de log: ${fromFile ? LOG_SOURCES_FILE : 'valores por defecto'}`)
+} catch (error) {
+  const message = error instanceof Error ? error.message : 'Error desconocido'
+  console.error(`Configuración de logs invalida (${LOG_SOURCES_FILE}):`, message)
+  process.exit(1)
+}
+logSources.watch()
+
+// Probes de servicios: misma política que las fuentes de log
+const probeMonitor = createProbeMonitor({ configPath: PROBES_FILE, dataDir: DATA_DIR })
+try {
+  const probeCount = await probeMonitor.load()
+  console.log(`Probes: ${probeCount} (${PROBES_FILE})`)
+} catch (error) {
+  const message = error instanceof Error ? error.message : 'Error desconocido'
+  console.error(`Configuración de probes invalida (${PROBES_FILE}):`, message)
+  process.exit(1)
+}
+probeMonitor.watch()
 
-      const parts = buffer.split(/\r?\n/)
-      buffer = parts.shift() || ''
+// Alertas: reglas sobre cada muestra del sampler
+const alertNotifiers = []
+if (ALERT_WEBHOOK_URL) {
+  alertNotifiers.push(createWebhookNotifier({ url: ALERT_WEBHOOK_URL }))
+}
+if (SMTP_HOST && ALERT_EMAIL_TO.length > 0) {
+  alertNotifiers.push(createSmtpNotifier({
+    host: SMTP_HOST,
+    port: parsePositiveNumber(process.env.SMTP_PORT, 587),
+    secure: parseFlag(process.env.SMTP_SECURE),
+    user: process.env.SMTP_USER || '',
+    pass: process.env.SMTP_PASS || '',
+    from: process.env.ALERT_EMAIL_FROM || `monitor@${os.hostname()}`,
+    to: ALERT_EMAIL_TO
+  }))
+}
+const alertEngine = createAlertEngine({
+  configPath: ALERT_RULES_FILE,
+  dataDir: DATA_DIR,
+  retentionMs: parsePositiveNumber(process.env.ALERT_RETENTION_DAYS, 30) * DAY_MS,
+  notify: createNotifier(alertNotifiers)
+})
+try {
+  const ruleCount = await alertEngine.load()
+  console.log(`Reglas de alerta: ${ruleCount} (${ALERT_RULES_FILE}), notificaciones: ${alertNotifiers.map(notifier => notifier.name).join(', ') || 'ninguna'}`)
+} catch (error) {
+  const message = error instanceof Error ? error.message : 'Error desconocido'
+  console.error(`Reglas de alerta invalidas (${ALERT_RULES_FILE}):`, message)
+  process.exit(1)
+}
+alertEngine.watch()
+
+// Agentes remotos (solo en modo agregador)
+const SAMPLE_INTERVAL_MS = parsePositiveNumber(process.env.SAMPLE_INTERVAL_SECONDS, 5) * 1000
+const agentRegistry = MONITOR_MODE === 'aggregator'
+  ? createAgentRegistry({ configPath: AGENTS_FILE, intervalMs: SAMPLE_INTERVAL_MS })
+  : null
+if (agentRegistry) {
+  try {
+    const agentCount = await agentRegistry.load()
+    console.log(`Agentes: ${agentCount} (${AGENTS_FILE})`)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Error desconocido'
+    console.error(`Configuración de agentes invalida (${AGENTS_FILE}):`, message)
+    process.exit(1)
+  }
+  agentRegistry.watch()
+}
 
-      if (parts.length > 0) {
-        const combined = parts.concat(lines)
-        lines = combined.length > targetCount
-          ? combined.slice(combined.length - targetCount)
-          : combined
-      }
-    }
+// Modo agente con push: cada muestra se envía al agregador
+if (MONITOR_MODE === 'agent' && AGGREGATOR_URL && !AGENT_TOKEN) {
+  console.error('AGGREGATOR_URL requiere AGENT_TOKEN (el token del agente en el agregador)')
+  process.exit(1)
+}
+const agentPusher = MONITOR_MODE === 'agent' && AGGREGATOR_URL
+  ? createAgentPusher({ aggregatorUrl: AGGREGATOR_URL, agentId: AGENT_ID, token: AGENT_TOKEN })
+  : null
 
-    if (position === 0 && buffer) {
-      const combined = [buffer, ...lines]
-      lines = combined.length > targetCount
-        ? combined.slice(combined.length - targetCount)
-        : combined
-    }
+// MONITOR_API_TOKEN sigue valiendo como token sin restricciones; los tokens
+// con scopes y vencimiento se administran con `npm run tokens`
+const rawToken = process.env.MONITOR_API_TOKEN || ''
+const API_TOKEN = rawToken.trim()
+const HAS_API_TOKEN = Boolean(API_TOKEN)
+const API_TOKENS_FILE = path.resolve(process.env.API_TOKENS_FILE || path.join(DATA_DIR, 'api-tokens.json'))
+
+const tokenStore = createTokenStore({ filePath: API_TOKENS_FILE })
+try {
+  const count = await tokenStore.load()
+  console.log(`Tokens de la API: ${count} en ${API_TOKENS_FILE}`)
+} catch (error) {
+  const message = error instanceof Error ? error.message : 'Error desconocido'
+  console.error(`Tokens de la API invalidos (${API_TOKENS_FILE}):`, message)
+  process.exit(1)
+}
+tokenStore.watch()
 
-    if (lines.length > 0 && lines[lines.length - 1] === '') {
-      lines.pop()
-    }
+if (!HAS_API_TOKEN && !tokenStore.hasTokens() && process.env.NODE_ENV !== 'development') {
+  console.warn('[WARN] Sin MONITOR_API_TOKEN ni tokens creados. La API queda sin token.')
+}
+
+// Auditoría: cada pedido autenticado a la API (ver server/auditLog.js)
+const AUDIT_RETENTION_MS = parsePositiveNumber(process.env.AUDIT_RETENTION_DAYS, 90) * DAY_MS
+const DEFAULT_AUDIT_LIMIT = 100
+const MAX_AUDIT_LIMIT = 500
+const auditLog = createAuditLog({ dataDir: DATA_DIR, retentionMs: AUDIT_RETENTION_MS })
+await auditLog.applyRetention().catch(error => {
+  console.error('Error aplicando la retencion de auditoria:', error.message)
+})
 
-    const end = Math.max(0, lines.length - offset)
-    const start = Math.max(0, end - limit)
-    const pageLines = start < end ? lines.slice(start, end) : []
-    const orderedLines = order === 'asc' ? pageLines : pageLines.reverse()
-    const hasMore = position > 0 || lines.length > offset + limit
+const TOKEN_ERRORS = {
+  invalid: 'Token invalido',
+  expired: 'Token vencido',
+  revoked: 'Token revocado'
+}
 
-    return { lines: orderedLines, hasMore }
-  } finally {
-    await fileHandle.close()
-  }
+// Identidad del proxy (X-Auth-User/X-Auth-Groups): solo desde TRUSTED_PROXIES
+// (IPs o CIDR, comparadas con la dirección del socket, no con X-Forwarded-For)
+// o con el secreto compartido AUTH_PROXY_SECRET en X-Auth-Proxy-Secret
+let proxyTrust
+try {
+  proxyTrust = createProxyTrust({
+    trustedProxies: parseList(process.env.TRUSTED_PROXIES, []),
+    secret: (process.env.AUTH_PROXY_SECRET || '').trim()
+  })
+} catch (error) {
+  const message = error instanceof Error ? error.message : 'Error desconocido'
+  console.error('TRUSTED_PROXIES invalido:', message)
+  process.exit(1)
+}
+if (!proxyTrust.enabled) {
+  console.warn('[WARN] Sin TRUSTED_PROXIES ni AUTH_PROXY_SECRET: se ignora X-Auth-User y la API exige token.')
 }
 
-const rawToken = process.env.MONITOR_API_TOKEN || ''
-const API_TOKEN = rawToken.trim()
-const HAS_API_TOKEN = Boolean(API_TOKEN)
+const accessControl = createAccessControl({ configPath: ACCESS_CONTROL_FILE })
+try {
+  const restricted = await accessControl.load()
+  console.log(`ACLs: ${restricted ? ACCESS_CONTROL_FILE : 'sin restricciones'}`)
+} catch (error) {
+  const message = error instanceof Error ? error.message : 'Error desconocido'
+  console.error(`ACLs invalidas (${ACCESS_CONTROL_FILE}):`, message)
+  process.exit(1)
+}
+accessControl.watch()
 
-if (!HAS_API_TOKEN && process.env.NODE_ENV !== 'development') {
-  console.warn('[WARN] MONITOR_API_TOKEN no configurado. La API queda sin token.')
+// Pedido autenticado: queda en la auditoría con quién lo hizo y cómo
+// (proxy, token, api-token = MONITOR_API_TOKEN, local)
+function allowRequest(req, res, next, user, via) {
+  req.auth.identity = { user, via }
+  auditLog.track(req, res, req.auth.identity)
+  next()
 }
 
+// Deja en req.auth quién hace el pedido ({ user, groups, token, access }). Los
+// usuarios del proxy reciben los permisos de sus grupos y los tokens los de
+// sus scopes; MONITOR_API_TOKEN y el acceso local en desarrollo ven todo.
 function requireApiToken(req, res, next) {
+  const identity = proxyTrust.identify(req)
+  if (identity) {
+    req.auth = { ...identity, token: null, access: accessControl.resolve(identity.groups) }
+    return allowRequest(req, res, next, identity.user, 'proxy')
+  }
+  req.auth = { user: null, groups: [], token: null, access: FULL_ACCESS }
+
   const remoteAddress = req.socket?.remoteAddress || req.connection?.remoteAddress || ''
   const isLocal = remoteAddress === '127.0.0.1' || remoteAddress === '::1'
 
   if (isLocal && process.env.NODE_ENV === 'development') {
-    return next()
+    return allowRequest(req, res, next, 'local', 'local')
   }
 
-  const authUser = req.header('X-Auth-User') || ''
-  if (authUser) {
-    return next()
-  }
-
-  if (!HAS_API_TOKEN) {
+  if (!HAS_API_TOKEN && !tokenStore.hasTokens()) {
     return res.status(503).json({
       error: 'Unauthorized',
       message: 'MONITOR_API_TOKEN no configurado'
@@ -122,81 +365,140 @@ function requireApiToken(req, res, next) {
   const authHeader = req.header('Authorization') || ''
   const bearer = authHeader.startsWith('Bearer ') ? authHeader.slice(7).trim() : ''
 
-  if (tokenHeader !== API_TOKEN && bearer !== API_TOKEN) {
+  // Los tokens rechazados se cobran a la IP en el grupo `auth`, antes del
+  // límite por identidad, para que probar tokens no salga gratis
+  const attemptKey = `ip:${proxyTrust.clientAddress(req)}`
+  if (bearer || tokenHeader) {
+    const attempts = rateLimiter.peek('auth', attemptKey)
+    if (!attempts.allowed) {
+      return sendRateLimited(res, attempts)
+    }
+  }
+
+  if (HAS_API_TOKEN && (tokensMatch(API_TOKEN, tokenHeader) || tokensMatch(API_TOKEN, bearer))) {
+    return allowRequest(req, res, next, 'MONITOR_API_TOKEN', 'api-token')
+  }
+
+  const result = tokenStore.verify(bearer || tokenHeader)
+  if (result.error) {
+    if (bearer || tokenHeader) {
+      rateLimiter.consume('auth', attemptKey)
+    }
+    res.set('WWW-Authenticate', 'Bearer error="invalid_token"')
     return res.status(401).json({
       error: 'Unauthorized',
-      message: 'Token invalido'
+      message: TOKEN_ERRORS[result.error]
     })
   }
 
-  return next()
+  req.auth.token = { id: result.token.id, name: result.token.name }
+  req.auth.access = result.access
+  return allowRequest(req, res, next, result.token.name, 'token')
 }
 
-// Rate limiting simple en memoria para prevenir abusos
-const rateLimitMap = new Map()
-const RATE_LIMIT_WINDOW = 60000 // 1 minuto
-const RATE_LIMIT_MAX_REQUESTS = 100 // 100 peticiones por minuto
-const RATE_LIMIT_CLEANUP_INTERVAL = 60000
-const RATE_LIMIT_MAX_ENTRIES = 10000
+// 403 por falta de permiso. Con token se indica el scope que falta, para
+// distinguirlo de un token inválido (401)
+function sendForbidden(req, res, scope, message) {
+  if (!req.auth.token) {
+    return res.status(403).json({ error: 'Forbidden', message })
+  }
+  res.set('WWW-Authenticate', `Bearer error="insufficient_scope", scope="${scope}"`)
+  return res.status(403).json({
+    error: 'Forbidden',
+    message: `El token no tiene el scope ${scope}`,
+    scope
+  })
+}
 
-setInterval(() => {
-  const now = Date.now()
-  for (const [key, value] of rateLimitMap.entries()) {
-    if (now >= value.resetAt) {
-      rateLimitMap.delete(key)
+// Después de requireApiToken: 403 si el usuario no tiene la sección
+function requireSection(section) {
+  return (req, res, next) => {
+    if (canAccessSection(req.auth.access, section)) {
+      return next()
     }
+    sendForbidden(req, res, sectionScope(section), 'Sin permiso para esta seccion')
   }
-}, RATE_LIMIT_CLEANUP_INTERVAL).unref()
+}
 
-function pruneRateLimitMap() {
-  while (rateLimitMap.size > RATE_LIMIT_MAX_ENTRIES) {
-    const oldestKey = rateLimitMap.keys().next().value
-    if (oldestKey === undefined) {
-      break
-    }
-    rateLimitMap.delete(oldestKey)
+// Fuente de log legible por el usuario; si no, responde 404 o 403 y devuelve null
+function findReadableLogSource(req, res) {
+  const source = logSources.get(req.params.source)
+  if (!source) {
+    res.status(404).json({
+      error: 'Not found',
+      message: 'Log desconocido'
+    })
+    return null
+  }
+  if (!canReadLog(req.auth.access, req.params.source)) {
+    sendForbidden(req, res, logScope(req.params.source), 'Sin permiso para este log')
+    return null
   }
+  return source
 }
 
-function checkRateLimit(req) {
-  const ip = req.ip || req.connection.remoteAddress || 'unknown'
-  const now = Date.now()
+// Quién consulta, para elegir las reglas de enmascarado de la fuente
+const redactionIdentity = req => ({ user: req.auth.user, token: req.auth.token?.name ?? null, groups: req.auth.groups })
 
-  const record = rateLimitMap.get(ip) || {
-    count: 0,
-    resetAt: now + RATE_LIMIT_WINDOW
-  }
-  const isNewIp = !rateLimitMap.has(ip)
+// Enmascarado de la fuente para quien consulta (null si ve las líneas tal cual)
+function getLogRedactor(req, source) {
+  return createRedactor(source.redact, redactionIdentity(req))
+}
 
-  if (now >= record.resetAt) {
-    record.count = 0
-    record.resetAt = now + RATE_LIMIT_WINDOW
-  }
+// Rate limiting: token bucket por grupo de rutas e identidad (token, usuario
+// del proxy o IP), configurable en RATE_LIMITS_FILE (ver server/rateLimit.js)
+const rateLimiter = createRateLimiter({ configPath: RATE_LIMITS_FILE })
+try {
+  const customized = await rateLimiter.load()
+  console.log(`Limites de pedidos: ${customized ? RATE_LIMITS_FILE : 'por defecto'}`)
+} catch (error) {
+  const message = error instanceof Error ? error.message : 'Error desconocido'
+  console.error(`Limites de pedidos invalidos (${RATE_LIMITS_FILE}):`, message)
+  process.exit(1)
+}
+rateLimiter.watch()
 
-  record.count++
-  rateLimitMap.set(ip, record)
-  if (isNewIp && rateLimitMap.size > RATE_LIMIT_MAX_ENTRIES) {
-    pruneRateLimitMap()
+// Identidad para el límite: MONITOR_API_TOKEN lo comparten todos sus
+// clientes, así que sin token propio ni usuario del proxy se usa la IP
+function rateLimitKey(req) {
+  if (req.auth?.token) {
+    return `token:${req.auth.token.id}`
   }
-
-  return {
-    allowed: record.count <= RATE_LIMIT_MAX_REQUESTS,
-    retryAfter: Math.max(0, Math.ceil((record.resetAt - now) / 1000))
+  if (req.auth?.user) {
+    return `user:${req.auth.user}`
   }
+  return `ip:${proxyTrust.clientAddress(req)}`
 }
 
-// Middleware de rate limiting
-function rateLimitMiddleware(req, res, next) {
-  const result = checkRateLimit(req)
-  if (!result.allowed) {
-    res.set('Retry-After', String(result.retryAfter))
-    return res.status(429).json({
-      error: 'Too many requests',
-      message: 'Has excedido el límite de peticiones. Por favor espera un momento.',
-      retryAfter: result.retryAfter
-    })
+function setRateLimitHeaders(res, result) {
+  res.set({
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.reset)
+  })
+}
+
+// 429 con el resultado de rateLimiter.consume/peek
+function sendRateLimited(res, result) {
+  setRateLimitHeaders(res, result)
+  res.set('Retry-After', String(result.retryAfter))
+  return res.status(429).json({
+    error: 'Too many requests',
+    message: 'Has excedido el límite de peticiones. Por favor espera un momento.',
+    retryAfter: result.retryAfter
+  })
+}
+
+// Middleware de rate limiting (después de requireApiToken para conocer la identidad)
+function rateLimit(group) {
+  return (req, res, next) => {
+    const result = rateLimiter.consume(group, rateLimitKey(req))
+    if (!result.allowed) {
+      return sendRateLimited(res, result)
+    }
+    setRateLimitHeaders(res, result)
+    next()
   }
-  next()
 }
 
 // Configuración de CORS con orígenes permitidos
@@ -232,7 +534,9 @@ app.use(cors({
     }
   },
   credentials: false,
-  methods: ['GET']
+  methods: ['GET', 'POST'],
+  // La UI lee los límites para espaciar los pedidos
+  exposedHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After']
 }))
 
 app.use('/api', (req, res, next) => {
@@ -240,20 +544,51 @@ app.use('/api', (req, res, next) => {
   next()
 })
 
-// Cache para métricas - evita llamadas excesivas a systeminformation
-const CACHE_TTL = 2500 // 2.5 segundos
+// Modo agente: del resto de la API solo quedan las métricas (logs, procesos,
+// contenedores, etc. no se exponen); /metrics y /health siguen disponibles
+if (MONITOR_MODE === 'agent') {
+  app.use('/api', (req, res, next) => {
+    if (req.method === 'GET' && (req.path === '/metrics' || req.path.startsWith('/metrics/'))) {
+      return next()
+    }
+    res.status(404).json({
+      error: 'Not found',
+      message: 'Ruta no disponible en modo agente'
+    })
+  })
+}
+
+// Sampler en segundo plano: intervalo fijo entre muestras (SAMPLE_INTERVAL_MS)
+// Muestras que se guardan para reenviar a clientes que se reconectan (Last-Event-ID)
+const STREAM_BUFFER_SIZE = 120
+
+// Cache para métricas - la llena solo el sampler; si se atrasó más de dos
+// intervalos /api/metrics espera la muestra en curso
+const CACHE_TTL = SAMPLE_INTERVAL_MS * 2
 let metricsCache = {
   data: null,
+  cpu: null,
   timestamp: 0
 }
 
-// Función para calcular métricas del sistema
+const cpuTimes = createCpuTimesSampler()
+const networkSampler = createNetworkSampler({
+  include: NETWORK_INTERFACES,
+  exclude: NETWORK_EXCLUDE_INTERFACES
+})
+const diskIOSampler = createDiskIOSampler()
+const dockerCollector = createDockerCollector({ socketPath: DOCKER_SOCKET })
+
+// Función para calcular métricas del sistema: { data } es la muestra para la
+// UI y los agentes, { cpu } los porcentajes de CPU sin redondear para /metrics
 async function calculateMetrics() {
-  // Obtener métricas - currentLoad, mem, y fsSize son asíncronos
-  const [cpuLoad, mem, fsSize] = await Promise.all([
+  // Obtener métricas - currentLoad, mem, discos, red y E/S son asíncronos
+  const [cpuLoad, mem, disks, network, diskIO] = await Promise.all([
     si.currentLoad(),
     si.mem(),
-    si.fsSize()
+    collectDiskUsage({ excludeTypes: DISK_EXCLUDE_TYPES, excludeMounts: DISK_EXCLUDE_MOUNTS }),
+    networkSampler.sample(),
+    diskIOSampler.sample()
   ])
 
   // time() es síncrono y devuelve uptime directamente
@@ -269,9 +604,9 @@ async function calculateMetrics() {
   const memoryTotalGB = (mem.total / (1024 ** 3)).toFixed(1)
   const memoryUsedPercent = (memoryUsedBytes / mem.total) * 100
 
-  // Disco: calcular porcentaje y valores absolutos en GB
-  const mainDisk = fsSize.find(d => d.mount === '/') || fsSize[0]
-  const diskUsedGB = mainDisk ? ((mainDisk.size - mainDisk.available) / (1024 ** 3)).toFixed(1) : '0'
+  // Disco principal (/) para el resumen; `disks` trae cada montaje
+  const mainDisk = disks.find(d => d.mount === '/') || disks[0]
+  const diskUsedGB = mainDisk ? (mainDisk.used / (1024 ** 3)).toFixed(1) : '0'
   const diskTotalGB = mainDisk ? (mainDisk.size / (1024 ** 3)).toFixed(1) : '0'
   const diskUsedPercent = mainDisk ? mainDisk.use : 0
 
@@ -279,41 +614,132 @@ async function calculateMetrics() {
   const cpuCores = cpuLoad.cpus?.length || 0
   const cpuLoadText = `${cpuUsage.toFixed(1)}%${cpuCores > 0 ? ` (${cpuCores} cores)` : ''}`
 
-  return {
+  // Carga por core, reparto user/system/iowait/steal/irq (null en la primera
+  // muestra, no hay intervalo previo) y load average de 1/5/15 minutos. La UI
+  // recibe los valores redondeados; el historial y /metrics, los exactos
+  const corePercents = (cpuLoad.cpus || []).map(core => core.load)
+  const cpuPerCore = corePercents.map(load => Math.round(load))
+  const cpuTimesPercent = await cpuTimes.sample(cpuLoad)
+  const cpuBreakdown = cpuTimesPercent && Object.fromEntries(Object.entries(cpuTimesPercent)
+    .map(([mode, value]) => [mode, value === null ? null : Math.round(value * 10) / 10]))
+  const [load1, load5, load15] = os.loadavg().map(value => Math.round(value * 100) / 100)
+
+  const timestamp = Date.now()
+  const historyValues = {
+    cpu: cpuUsage,
+    memory: memoryUsedPercent,
+    disk: diskUsedPercent
+  }
+  for (const disk of disks) {
+    historyValues[`disk:${disk.mount}`] = disk.use
+  }
+  if (cpuTimesPercent) {
+    for (const [field, value] of Object.entries(cpuTimesPercent)) {
+      if (value !== null) {
+        historyValues[`cpu:${field}`] = value
+      }
+    }
+  }
+  historyValues.load1 = load1
+  // Red: total de las interfaces incluidas y cada una por separado (bytes/s)
+  if (network.length > 0) {
+    historyValues['net:rx'] = network.reduce((sum, item) => sum + item.rxBytesPerSec, 0)
+    historyValues['net:tx'] = network.reduce((sum, item) => sum + item.txBytesPerSec, 0)
+  }
+  for (const item of network) {
+    historyValues[`net:${item.iface}:rx`] = item.rxBytesPerSec
+    historyValues[`net:${item.iface}:tx`] = item.txBytesPerSec
+  }
+  // E/S de disco: total de lectura/escritura (bytes/s) y el dispositivo más ocupado
+  if (diskIO.length > 0) {
+    historyValues['io:read'] = diskIO.reduce((sum, item) => sum + item.readBytesPerSec, 0)
+    historyValues['io:write'] = diskIO.reduce((sum, item) => sum + item.writeBytesPerSec, 0)
+    const utilization = diskIO.map(item => item.utilization).filter(value => value !== null)
+    if (utilization.length > 0) {
+      historyValues['io:util'] = Math.max(...utilization)
+    }
+  }
+  metricsHistory.record(timestamp, historyValues)
+  alertEngine.evaluate(timestamp, historyValues)
+
+  const data = {
     cpu: Math.round(cpuUsage),
     cpuLoad: cpuLoadText,
+    cpuCores,
+    cpuPerCore,
+    cpuBreakdown,
+    loadAverage: { load1, load5, load15 },
     memory: Math.round(memoryUsedPercent),
     memoryUsed: memoryUsedGB,
     memoryTotal: memoryTotalGB,
+    memoryUsedBytes,
+    memoryTotalBytes: mem.total,
     disk: Math.round(diskUsedPercent),
     diskUsed: diskUsedGB,
     diskTotal: diskTotalGB,
+    disks,
+    network,
+    diskIO,
     uptime: uptime,
-    timestamp: Date.now()
+    uptimeSeconds,
+    timestamp
   }
+  return { data, cpu: { usage: cpuUsage, perCore: corePercents, breakdown: cpuTimesPercent } }
 }
 
-// Endpoint: Obtener todas las métricas actuales
-app.get('/api/metrics', rateLimitMiddleware, requireApiToken, async (req, res) => {
-  try {
-    const now = Date.now()
+const metricsHub = createEventHub({ event: 'metrics', bufferSize: STREAM_BUFFER_SIZE })
 
-    // Verificar si hay datos en cache válidos
-    if (metricsCache.data && (now - metricsCache.timestamp) < CACHE_TTL) {
-      // Retornar datos cacheados
-      return res.json(metricsCache.data)
-    }
+// Muestra en curso (null entre muestras)
+let pendingSample = null
 
-    // Cache expirado o no existe - calcular nuevas métricas
-    const data = await calculateMetrics()
+function sampleMetrics() {
+  // Si una muestra tarda más que el intervalo, se saltea la siguiente
+  if (!pendingSample) {
+    pendingSample = takeSample().finally(() => {
+      pendingSample = null
+    })
+  }
+  return pendingSample
+}
 
-    // Actualizar cache
+async function takeSample() {
+  try {
+    const { data, cpu } = await calculateMetrics()
     metricsCache = {
       data: data,
-      timestamp: now
+      cpu,
+      timestamp: data.timestamp
     }
+    metricsHub.publish(data, data.timestamp)
+    agentPusher?.push(data)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Error desconocido'
+    console.error('Error en el sampler de métricas:', errorMessage)
+  }
+}
 
-    res.json(data)
+function startSampler() {
+  sampleMetrics()
+  setInterval(sampleMetrics, SAMPLE_INTERVAL_MS)
+}
+
+// Última muestra del sampler (con su timestamp). Si el cache expiró y hay
+// una muestra en curso se espera esa: calcular desde el pedido duplicaría el
+// historial y las alertas y correría los deltas de CPU, red y E/S
+async function getCurrentSample() {
+  const stale = !metricsCache.data || Date.now() - metricsCache.timestamp >= CACHE_TTL
+  if (stale && pendingSample) {
+    await pendingSample
+  }
+  if (!metricsCache.data) {
+    throw new Error('Todavia no hay muestras del sampler')
+  }
+  return metricsCache
+}
+
+async function sendCurrentMetrics(req, res) {
+  try {
+    res.json((await getCurrentSample()).data)
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Error desconocido'
     console.error('Error obteniendo métricas:', errorMessage)
@@ -324,43 +750,346 @@ app.get('/api/metrics', rateLimitMiddleware, requireApiToken, async (req, res) =
       timestamp: new Date().toISOString()
     })
   }
+}
+
+// Endpoint: Obtener todas las métricas actuales
+app.get('/api/metrics', requireApiToken, rateLimit('metrics'), requireSection('metrics'), sendCurrentMetrics)
+
+// Endpoint: Stream SSE con cada muestra del sampler (evento "metrics", id = timestamp)
+app.get('/api/metrics/stream', requireApiToken, rateLimit('metrics'), requireSection('metrics'), (req, res) => {
+  metricsHub.subscribe(req, res)
 })
 
-// Endpoint: Obtener historial (opcional - para persistencia futura)
-app.get('/api/metrics/history', rateLimitMiddleware, requireApiToken, async (req, res) => {
-  // Validar y sanitizar el parámetro limit (entre 1 y 100)
-  const rawLimit = parseInt(req.query.limit, 10)
-  const isValidLimit = Number.isInteger(rawLimit) && rawLimit > 0 && rawLimit <= 100
-  const limit = isValidLimit ? rawLimit : 20
+// from/to del historial (epoch ms o ISO 8601, por defecto la última hora);
+// null si el rango es inválido
+function parseHistoryRange(query) {
+  const now = Date.now()
+  const to = parseTimestamp(query.to, now)
+  const from = parseTimestamp(query.from, (to ?? now) - DEFAULT_HISTORY_RANGE_MS)
+  return from === null || to === null || from >= to ? null : { from, to }
+}
+
+function parseHistoryFields(value) {
+  return typeof value === 'string' && value
+    ? value.split(',').map(field => field.trim()).filter(Boolean)
+    : null
+}
+
+// Historial persistido: from/to epoch ms o ISO 8601, step duración ("30s", "5m", "1h")
+function sendMetricsHistory(req, res) {
+  const range = parseHistoryRange(req.query)
+  if (!range) {
+    return res.status(400).json({
+      error: 'Bad request',
+      message: 'Rango de tiempo invalido (from/to)'
+    })
+  }
+  const { from, to } = range
+
+  const requestedStep = parseDuration(req.query.step)
+  if (req.query.step !== undefined && requestedStep === null) {
+    return res.status(400).json({
+      error: 'Bad request',
+      message: 'Parametro step invalido'
+    })
+  }
+
+  const span = to - from
+  const step = Math.max(
+    requestedStep ?? Math.ceil(span / DEFAULT_HISTORY_POINTS),
+    Math.ceil(span / MAX_HISTORY_POINTS),
+    MIN_HISTORY_STEP_MS
+  )
+  const fields = parseHistoryFields(req.query.fields)
+
+  res.json(metricsHistory.query({ from, to, step, fields }))
+}
+
+// Exportación del historial sin agrupar, en CSV o NDJSON, escrita como stream
+async function sendMetricsExport(req, res) {
+  const range = parseHistoryRange(req.query)
+  if (!range) {
+    return res.status(400).json({
+      error: 'Bad request',
+      message: 'Rango de tiempo invalido (from/to)'
+    })
+  }
+
+  const format = typeof req.query.format === 'string' ? req.query.format : 'csv'
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({
+      error: 'Bad request',
+      message: `Parametro format invalido (${EXPORT_FORMATS.join(' o ')})`
+    })
+  }
+
+  const fields = parseHistoryFields(req.query.fields)
+  if (fields && fields.length > MAX_EXPORT_FIELDS) {
+    return res.status(400).json({
+      error: 'Bad request',
+      message: `Demasiados campos (maximo ${MAX_EXPORT_FIELDS})`
+    })
+  }
 
-  // Por ahora retornamos datos vacíos ya que no persistemos
+  const result = metricsHistory.exportRange({ ...range, fields })
+  res.set('Cache-Control', 'no-store')
+  res.set('Content-Type', EXPORT_CONTENT_TYPES[format])
+  res.set('Content-Disposition', `attachment; filename="metrics-${range.from}-${range.to}.${format}"`)
+  res.set('X-History-Resolution', result.resolution)
+
+  try {
+    await writeHistoryExport(res, { format, ...result })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Error desconocido'
+    console.error('Error exportando historial:', message)
+    res.destroy()
+  }
+}
+
+// Endpoint: Obtener historial persistido
+app.get('/api/metrics/history', requireApiToken, rateLimit('history'), requireSection('metrics'), sendMetricsHistory)
+
+// Endpoint: Exportar historial (from, to, fields, format=csv|ndjson)
+app.get('/api/metrics/export', requireApiToken, rateLimit('export'), requireSection('metrics'), requireSection('export'), sendMetricsExport)
+
+// Endpoint: Hosts monitoreados con su estado y resumen de CPU/memoria/disco.
+// Siempre incluye este servidor ("local"); en modo agregador, cada agente.
+app.get('/api/hosts', requireApiToken, rateLimit('metrics'), requireSection('metrics'), (req, res) => {
+  const local = {
+    id: LOCAL_HOST_ID,
+    label: METRICS_HOST_LABEL,
+    mode: 'local',
+    status: metricsCache.data ? 'ok' : 'pending',
+    error: null,
+    lastSeen: metricsCache.data ? metricsCache.timestamp : null,
+    summary: summarizeSample(metricsCache.data)
+  }
   res.json({
-    cpu: [],
-    memory: [],
-    disk: [],
-    limit
+    mode: MONITOR_MODE,
+    timestamp: Date.now(),
+    hosts: [local, ...(agentRegistry?.list() ?? [])]
   })
 })
 
-app.get('/api/logs', rateLimitMiddleware, requireApiToken, (req, res) => {
-  const sources = Object.entries(LOG_SOURCES).map(([id, source]) => ({
-    id,
-    label: source.label
-  }))
-  res.json({ sources })
+function findRemoteHost(req, res) {
+  const host = agentRegistry?.get(req.params.id) ?? null
+  if (!host) {
+    res.status(404).json({
+      error: 'Not found',
+      message: 'Host desconocido'
+    })
+  }
+  return host
+}
+
+// Endpoint: Última muestra de un host (misma forma que /api/metrics). Un
+// agente caído responde 503 con el motivo y el momento de la última muestra.
+app.get('/api/hosts/:id/metrics', requireApiToken, rateLimit('metrics'), requireSection('metrics'), (req, res) => {
+  if (req.params.id === LOCAL_HOST_ID) {
+    return sendCurrentMetrics(req, res)
+  }
+
+  const host = findRemoteHost(req, res)
+  if (!host) {
+    return
+  }
+
+  if (host.status !== 'ok' || !host.data) {
+    return res.status(503).json({
+      error: 'Host unavailable',
+      message: host.status === 'pending'
+        ? `Esperando la primera muestra de ${host.label}`
+        : `${host.label} no responde: ${host.error}`,
+      status: host.status,
+      lastSeen: host.lastSeen
+    })
+  }
+  res.json(host.data)
 })
 
-app.get('/api/logs/:source', rateLimitMiddleware, requireApiToken, async (req, res) => {
-  const sourceKey = req.params.source
-  const source = LOG_SOURCES[sourceKey]
+// Endpoint: Historial de un host; se consulta al agente (los agentes push
+// sin url no tienen historial accesible)
+app.get('/api/hosts/:id/metrics/history', requireApiToken, rateLimit('history'), requireSection('metrics'), async (req, res) => {
+  if (req.params.id === LOCAL_HOST_ID) {
+    return sendMetricsHistory(req, res)
+  }
 
-  if (!source) {
+  const host = findRemoteHost(req, res)
+  if (!host) {
+    return
+  }
+
+  try {
+    const search = req.originalUrl.split('?')[1] ?? ''
+    const result = await agentRegistry.fetchHistory(req.params.id, search)
+    if (!result) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: `${host.label} no expone historial (agente push sin url)`
+      })
+    }
+    res.status(result.status).json(result.body ?? {
+      error: 'Bad gateway',
+      message: `Respuesta invalida de ${host.label}`
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Error desconocido'
+    res.status(502).json({
+      error: 'Bad gateway',
+      message: `No se pudo consultar el historial de ${host.label} (${message})`
+    })
+  }
+})
+
+// Endpoint: Exportación del historial de un host; la del agente se reenvía
+// como stream sin cargarla en memoria
+app.get('/api/hosts/:id/metrics/export', requireApiToken, rateLimit('export'), requireSection('metrics'), requireSection('export'), async (req, res) => {
+  if (req.params.id === LOCAL_HOST_ID) {
+    return sendMetricsExport(req, res)
+  }
+
+  const host = findRemoteHost(req, res)
+  if (!host) {
+    return
+  }
+
+  let response = null
+  try {
+    response = await agentRegistry.fetchExport(req.params.id, req.originalUrl.split('?')[1] ?? '')
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Error desconocido'
+    return res.status(502).json({
+      error: 'Bad gateway',
+      message: `No se pudo exportar el historial de ${host.label} (${message})`
+    })
+  }
+  if (!response) {
     return res.status(404).json({
       error: 'Not found',
-      message: 'Log desconocido'
+      message: `${host.label} no expone historial (agente push sin url)`
     })
   }
 
+  res.status(response.status)
+  for (const header of ['content-type', 'content-disposition', 'x-history-resolution']) {
+    const value = response.headers.get(header)
+    if (value) {
+      res.set(header, value)
+    }
+  }
+  if (!response.body) {
+    return res.end()
+  }
+  const body = Readable.fromWeb(response.body)
+  body.on('error', () => res.destroy())
+  res.on('close', () => body.destroy())
+  body.pipe(res)
+})
+
+// Endpoint: Muestras empujadas por agentes (modo agregador). Se autentica con
+// el token propio del agente (Authorization: Bearer), no con MONITOR_API_TOKEN.
+app.post('/api/agents/:id/samples', rateLimit('default'), express.json({ limit: MAX_AGENT_SAMPLE_BYTES }), (req, res) => {
+  if (!agentRegistry) {
+    return res.status(404).json({
+      error: 'Not found',
+      message: 'El servidor no esta en modo agregador'
+    })
+  }
+
+  const sample = req.body
+  if (!sample || typeof sample !== 'object' || !Number.isFinite(sample.timestamp) ||
+    typeof sample.cpu !== 'number' || typeof sample.memory !== 'number' || typeof sample.disk !== 'number') {
+    return res.status(400).json({
+      error: 'Bad request',
+      message: 'Muestra invalida'
+    })
+  }
+
+  const authHeader = req.header('Authorization') || ''
+  const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7).trim() : ''
+  const result = agentRegistry.acceptPush(req.params.id, token, sample)
+  if (result === 'unknown') {
+    return res.status(404).json({
+      error: 'Not found',
+      message: 'Agente desconocido o sin push habilitado'
+    })
+  }
+  if (result === 'unauthorized') {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Token invalido'
+    })
+  }
+  res.status(204).end()
+})
+
+// Búsqueda sobre un log: q (texto o regex), case, invert, rango from/to y
+// field=campo:valor; format=json devuelve cada línea con sus campos interpretados.
+// Devuelve { error } si algún parámetro es inválido.
+function parseLogQuery(params, source, { withTimeRange = true } = {}) {
+  const query = typeof params.q === 'string' ? params.q : ''
+  const from = withTimeRange ? parseTimestamp(params.from, null) : null
+  const to = withTimeRange ? parseTimestamp(params.to, null) : null
+  const fields = parseFieldFilters(params.field)
+  const asJson = params.format === 'json'
+  const parser = getLogParser(source.format)
+
+  if (asJson && !parser) {
+    return { error: 'El log no tiene un formato estructurado' }
+  }
+
+  if (fields.length > MAX_FIELD_FILTERS || (fields.length > 0 && !parser)) {
+    return { error: 'Filtros por campo invalidos para este log' }
+  }
+
+  if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+    return { error: `La busqueda no puede superar ${MAX_SEARCH_QUERY_LENGTH} caracteres` }
+  }
+
+  if (withTimeRange && ((params.from && from === null) || (params.to && to === null))) {
+    return { error: 'Rango de tiempo invalido (from/to)' }
+  }
+
+  try {
+    const filter = createLogFilter({
+      query,
+      regex: parseFlag(params.regex),
+      caseSensitive: parseFlag(params.case),
+      invert: parseFlag(params.invert),
+      from,
+      to,
+      fields,
+      parser
+    })
+    return { filter, asJson, parser }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Error desconocido'
+    return { error: `Expresion regular invalida (${message})` }
+  }
+}
+
+// Solo las fuentes que el usuario puede leer
+app.get('/api/logs', requireApiToken, rateLimit('default'), (req, res) => {
+  const sources = logSources.entries()
+    .filter(([id]) => canReadLog(req.auth.access, id))
+    .map(([id, source]) => ({
+      id,
+      label: source.label,
+      format: source.format,
+      group: source.group
+    }))
+  res.json({ sources })
+})
+
+// Página de un log contando desde el final; sigue por las generaciones
+// rotadas (.1, .2.gz, ...) y `segments` indica de qué archivo vino cada tramo
+app.get('/api/logs/:source', requireApiToken, rateLimit('logs'), async (req, res) => {
+  const sourceKey = req.params.source
+  const source = findReadableLogSource(req, res)
+  if (!source) {
+    return
+  }
+
   const order = req.query.order === 'asc' ? 'asc' : 'desc'
   const rawLimit = Number.parseInt(req.query.limit, 10)
   const rawOffset = Number.parseInt(req.query.offset, 10)
@@ -369,19 +1098,206 @@ app.get('/api/logs/:source', rateLimitMiddleware, requireApiToken, async (req, r
     : DEFAULT_LOG_LIMIT
   const offset = Number.isFinite(rawOffset) && rawOffset >= 0 ? rawOffset : 0
 
+  const parsed = parseLogQuery(req.query, source)
+  if (parsed.error) {
+    return res.status(400).json({
+      error: 'Bad request',
+      message: parsed.error
+    })
+  }
+  const { filter, asJson, parser } = parsed
+  const redact = getLogRedactor(req, source)
+
   try {
-    const result = await readLogPage(source.path, limit, offset, order)
+    const result = await readLogPage(source.path, {
+      limit,
+      offset,
+      order,
+      filter,
+      redact,
+      maxScanBytes: filter ? MAX_SEARCH_SCAN_BYTES : Infinity,
+      maxScanMs: filter ? MAX_SEARCH_SCAN_MS : Infinity
+    })
+
+    const page = asJson
+      ? { entries: result.lines.map(line => ({ line, fields: parser(line) })) }
+      : { lines: result.lines }
 
     res.set('Cache-Control', 'no-store')
     res.json({
       source: sourceKey,
+      format: asJson ? 'json' : 'text',
       order,
       limit,
       offset,
       nextOffset: offset + result.lines.length,
       hasMore: result.hasMore,
-      lines: result.lines
+      filtered: Boolean(filter),
+      redacted: Boolean(redact),
+      matchesThroughPage: result.matchesThroughPage,
+      scannedBytes: result.scannedBytes,
+      truncated: result.truncated,
+      segments: result.segments,
+      ...page
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Error desconocido'
+    if (error?.code === 'ESEARCHTIMEOUT') {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: `Busqueda cancelada: ${message}`
+      })
+    }
+    res.status(404).json({
+      error: 'Not found',
+      message: `No se pudo leer el log (${message})`
+    })
+  }
+})
+
+app.get('/api/logs/:source/stream', requireApiToken, rateLimit('logs'), (req, res) => {
+  const source = findReadableLogSource(req, res)
+  if (!source) {
+    return
+  }
+
+  const parsed = parseLogQuery(req.query, source, { withTimeRange: false })
+  if (parsed.error) {
+    return res.status(400).json({
+      error: 'Bad request',
+      message: parsed.error
+    })
+  }
+  const { filter, asJson, parser } = parsed
+  const redact = getLogRedactor(req, source)
+
+  const [rawIno, rawPosition] = getLastEventId(req).split(':')
+  const startAt = rawIno && rawPosition
+    ? { ino: Number(rawIno), position: Number(rawPosition) }
+    : null
+
+  const stream = openEventStream(req, res)
+  const tail = createLogTail(source.path, {
+    startAt,
+    onLines: (rawLines, cursor) => {
+      const lines = redact ? rawLines.map(redact) : rawLines
+      let selected = lines
+      if (filter) {
+        try {
+          const verdicts = filter.checkLines(lines)
+          selected = lines.filter((line, index) => verdicts[index] === 'match')
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Error desconocido'
+          stream.send('failure', { message: `Seguimiento cancelado: ${message}` })
+          tail.stop()
+          stream.close()
+          return
+        }
+      }
+      if (selected.length === 0) {
+        return
+      }
+      const payload = asJson
+        ? { entries: selected.map(line => ({ line, fields: parser(line) })) }
+        : { lines: selected }
+      stream.send('lines', payload, `${cursor.ino}:${cursor.position}`)
+    },
+    onReset: (reason) => stream.send('reset', { reason }),
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : 'Error desconocido'
+      stream.send('failure', { message: `No se pudo leer el log (${message})` })
+    }
+  })
+
+  stream.onClose(() => {
+    tail.stop()
+  })
+  tail.start().catch(error => {
+    const message = error instanceof Error ? error.message : 'Error desconocido'
+    stream.send('failure', { message: `No se pudo leer el log (${message})` })
+    stream.close()
+  })
+})
+
+// Endpoint: Analítica de tráfico sobre un access log de nginx
+// window: duración ("15m", "1h", hasta 24h), top: cantidad de rutas/IPs
+app.get('/api/analytics/nginx', requireApiToken, rateLimit('analytics'), requireSection('analytics'), async (req, res) => {
+  // Sin source se usa el primer access log de nginx que el usuario puede leer
+  const sourceKey = typeof req.query.source === 'string'
+    ? req.query.source
+    : logSources.entries().find(([id, candidate]) => (
+      candidate.format === 'nginx-access' && canReadLog(req.auth.access, id)
+    ))?.[0]
+  const source = sourceKey ? logSources.get(sourceKey) : null
+
+  if (!source || source.format !== 'nginx-access') {
+    return res.status(404).json({
+      error: 'Not found',
+      message: 'Log de acceso de nginx desconocido'
+    })
+  }
+
+  if (!canReadLog(req.auth.access, sourceKey)) {
+    return sendForbidden(req, res, logScope(sourceKey), 'Sin permiso para este log')
+  }
+
+  const windowMs = req.query.window === undefined
+    ? DEFAULT_ANALYTICS_WINDOW_MS
+    : parseDuration(req.query.window)
+  if (windowMs === null || windowMs > MAX_ANALYTICS_WINDOW_MS) {
+    return res.status(400).json({
+      error: 'Bad request',
+      message: 'Parametro window invalido (maximo 24h)'
+    })
+  }
+
+  const rawTop = Number.parseInt(req.query.top, 10)
+  const topN = Number.isFinite(rawTop)
+    ? Math.min(Math.max(rawTop, 1), MAX_ANALYTICS_TOP)
+    : DEFAULT_ANALYTICS_TOP
+
+  // El cache es por perfil de enmascarado (las reglas que aplican a quien
+  // consulta) y guarda los rankings ya enmascarados y recortados a
+  // MAX_ANALYTICS_TOP: se enmascara el ranking completo antes de recortar, así
+  // los valores que quedan iguales suman también lo que estaba fuera del top
+  const redact = getLogRedactor(req, source)
+  const sendAnalytics = data => res.json({
+    ...data,
+    topPaths: data.topPaths.slice(0, topN),
+    topIps: data.topIps.slice(0, topN)
+  })
+
+  const now = Date.now()
+  const cacheKey = `${sourceKey}:${windowMs}:${redactionRules(source.redact, redactionIdentity(req)).join(',')}`
+  const cached = analyticsCache.get(cacheKey)
+  if (cached && now - cached.timestamp < ANALYTICS_CACHE_TTL) {
+    return sendAnalytics(cached.data)
+  }
+
+  try {
+    const result = await aggregateNginxAccessLog(source.path, {
+      from: now - windowMs,
+      to: now,
+      topN: redact ? Infinity : MAX_ANALYTICS_TOP,
+      maxScanBytes: MAX_SEARCH_SCAN_BYTES
     })
+    const rank = entries => (redact ? redactRanking(entries, redact) : entries).slice(0, MAX_ANALYTICS_TOP)
+    const data = {
+      source: sourceKey,
+      window: windowMs,
+      ...result,
+      ...(redact ? { redacted: true } : {}),
+      topPaths: rank(result.topPaths),
+      topIps: rank(result.topIps)
+    }
+
+    for (const [key, entry] of analyticsCache.entries()) {
+      if (now - entry.timestamp >= ANALYTICS_CACHE_TTL) {
+        analyticsCache.delete(key)
+      }
+    }
+    analyticsCache.set(cacheKey, { data, timestamp: now })
+    sendAnalytics(data)
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Error desconocido'
     res.status(404).json({
@@ -391,6 +1307,181 @@ app.get('/api/logs/:source', rateLimitMiddleware, requireApiToken, async (req, r
   }
 })
 
+// Endpoint: Procesos con mayor consumo
+// sort: "cpu" o "memory", limit: cantidad (máximo 200), q: filtro por nombre/comando
+app.get('/api/processes', requireApiToken, rateLimit('processes'), requireSection('processes'), async (req, res) => {
+  const sort = typeof req.query.sort === 'string' ? req.query.sort : 'cpu'
+  if (!PROCESS_SORT_FIELDS.includes(sort)) {
+    return res.status(400).json({
+      error: 'Bad request',
+      message: `Parametro sort invalido (${PROCESS_SORT_FIELDS.join(' o ')})`
+    })
+  }
+
+  const query = typeof req.query.q === 'string' ? req.query.q.trim() : ''
+  if (query.length > MAX_PROCESS_QUERY_LENGTH) {
+    return res.status(400).json({
+      error: 'Bad request',
+      message: 'Filtro demasiado largo'
+    })
+  }
+
+  const rawLimit = Number.parseInt(req.query.limit, 10)
+  const limit = Number.isFinite(rawLimit)
+    ? Math.min(Math.max(rawLimit, 1), MAX_PROCESS_LIMIT)
+    : DEFAULT_PROCESS_LIMIT
+
+  try {
+    const result = await listTopProcesses({ sort, limit, query })
+    res.set('Cache-Control', 'no-store')
+    res.json({ sort, limit, timestamp: Date.now(), ...result })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Error desconocido'
+    console.error('Error listando procesos:', errorMessage)
+
+    res.status(500).json({
+      error: 'Error listando procesos',
+      message: process.env.NODE_ENV === 'development' ? errorMessage : undefined,
+      timestamp: new Date().toISOString()
+    })
+  }
+})
+
+// Endpoint: Métricas por contenedor Docker
+// enabled=false (y sin contenedores) si el socket no existe
+app.get('/api/containers', requireApiToken, rateLimit('metrics'), requireSection('containers'), async (req, res) => {
+  const now = Date.now()
+  if (containersCache.data && now - containersCache.timestamp < CONTAINERS_CACHE_TTL) {
+    return res.json(containersCache.data)
+  }
+
+  try {
+    // Pedidos simultáneos comparten la misma consulta a Docker
+    if (!containersCache.pending) {
+      containersCache.pending = dockerCollector.collect().finally(() => {
+        containersCache.pending = null
+      })
+    }
+    const containers = await containersCache.pending
+    const data = {
+      enabled: containers !== null,
+      timestamp: now,
+      containers: containers ?? []
+    }
+    containersCache = { ...containersCache, data, timestamp: now }
+    res.json(data)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Error desconocido'
+    console.error('Error consultando Docker:', errorMessage)
+
+    res.status(502).json({
+      error: 'Bad gateway',
+      message: `No se pudo consultar Docker (${errorMessage})`
+    })
+  }
+})
+
+// Endpoint: Estado de los probes (último resultado, uptime 24h/7d y latencias recientes)
+app.get('/api/probes', requireApiToken, rateLimit('metrics'), requireSection('probes'), (req, res) => {
+  res.set('Cache-Control', 'no-store')
+  res.json({ timestamp: Date.now(), probes: probeMonitor.status() })
+})
+
+// Endpoint: Alertas activas, historial reciente (limit) y fase de cada regla
+app.get('/api/alerts', requireApiToken, rateLimit('metrics'), requireSection('alerts'), (req, res) => {
+  const rawLimit = Number.parseInt(req.query.limit, 10)
+  const limit = Number.isFinite(rawLimit)
+    ? Math.min(Math.max(rawLimit, 1), MAX_ALERT_HISTORY_LIMIT)
+    : DEFAULT_ALERT_HISTORY_LIMIT
+
+  res.json({ timestamp: Date.now(), ...alertEngine.list({ limit }) })
+})
+
+// Endpoint: Reconocer una alerta (queda registrado quién y cuándo)
+app.post('/api/alerts/:id/ack', requireApiToken, rateLimit('default'), requireSection('alerts'), (req, res) => {
+  const alert = alertEngine.acknowledge(req.params.id, req.auth.user)
+  if (!alert) {
+    return res.status(404).json({
+      error: 'Not found',
+      message: 'Alerta desconocida'
+    })
+  }
+  res.json(alert)
+})
+
+// Endpoint: Auditoría de la API, más reciente primero. Filtros exactos por
+// user, source y route, status ("403" o "4xx") y rango from/to; `before` es
+// el cursor `next` de la página anterior
+app.get('/api/audit', requireApiToken, rateLimit('default'), requireSection('audit'), async (req, res) => {
+  const now = Date.now()
+  const to = parseTimestamp(req.query.to, now)
+  const from = parseTimestamp(req.query.from, now - AUDIT_RETENTION_MS)
+  if (from === null || to === null || from >= to) {
+    return res.status(400).json({
+      error: 'Bad request',
+      message: 'Rango de tiempo invalido (from/to)'
+    })
+  }
+
+  const before = typeof req.query.before === 'string' ? req.query.before : ''
+  if (before && !isAuditCursor(before)) {
+    return res.status(400).json({
+      error: 'Bad request',
+      message: 'Cursor invalido (before)'
+    })
+  }
+
+  const status = typeof req.query.status === 'string' ? req.query.status.trim() : ''
+  if (status && !/^\d(?:\d\d|xx)$/i.test(status)) {
+    return res.status(400).json({
+      error: 'Bad request',
+      message: 'Parametro status invalido (p.ej. 403 o 4xx)'
+    })
+  }
+
+  const rawLimit = Number.parseInt(req.query.limit, 10)
+  const limit = Number.isFinite(rawLimit)
+    ? Math.min(Math.max(rawLimit, 1), MAX_AUDIT_LIMIT)
+    : DEFAULT_AUDIT_LIMIT
+  const filter = name => typeof req.query[name] === 'string' ? req.query[name].trim() : ''
+
+  try {
+    const result = await auditLog.query({
+      from,
+      to,
+      user: filter('user'),
+      source: filter('source'),
+      route: filter('route'),
+      status,
+      limit,
+      before
+    })
+    res.set('Cache-Control', 'no-store')
+    res.json({ timestamp: now, ...result })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Error desconocido'
+    console.error('Error leyendo la auditoria:', errorMessage)
+
+    res.status(500).json({
+      error: 'Error leyendo la auditoria',
+      message: process.env.NODE_ENV === 'development' ? errorMessage : undefined,
+      timestamp: new Date().toISOString()
+    })
+  }
+})
+
+// Endpoint: Usuario actual y lo que puede ver (la UI oculta el resto)
+app.get('/api/access', requireApiToken, rateLimit('default'), (req, res) => {
+  const { user, groups, token, access } = req.auth
+  res.json({
+    user,
+    groups,
+    token: token?.name ?? null,
+    sections: ACCESS_SECTIONS.filter(section => canAccessSection(access, section)),
+    logs: logSources.entries().map(([id]) => id).filter(id => canReadLog(access, id))
+  })
+})
+
 app.use('/api', (req, res) => {
   res.status(404).json({
     error: 'Not found',
@@ -398,6 +1489,21 @@ app.use('/api', (req, res) => {
   })
 })
 
+// Endpoint: Métricas en formato de exposición de Prometheus (fuera de /api
+// para que el scrape use la ruta convencional)
+app.get('/metrics', requireApiToken, rateLimit('metrics'), requireSection('metrics'), async (req, res) => {
+  try {
+    const { data, cpu } = await getCurrentSample()
+    res.set('Cache-Control', 'no-store')
+    res.type(PROMETHEUS_CONTENT_TYPE)
+    res.send(formatPrometheusMetrics(data, cpu, { host: METRICS_HOST_LABEL }))
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Error desconocido'
+    console.error('Error obteniendo métricas:', errorMessage)
+    res.status(500).type('text/plain').send('# Error obteniendo métricas del sistema\n')
+  }
+})
+
 // Health check
 app.get('/health', (req, res) => {
   res.set('Cache-Control', 'no-store')
@@ -432,10 +1538,38 @@ function formatUptime(seconds) {
 const HOST = '0.0.0.0' // Escuchar en todas las interfaces
 
 app.listen(PORT, HOST, () => {
-  console.log(`Servidor de métricas corriendo en http://${HOST}:${PORT}`)
+  startSampler()
+
+  console.log(`Servidor de métricas corriendo en http://${HOST}:${PORT} (modo ${MONITOR_MODE})`)
+  if (agentPusher) {
+    console.log(`Enviando muestras a ${agentPusher.endpoint}`)
+  }
   console.log(`Endpoints disponibles:`)
   console.log(`  - GET /api/metrics      - Métricas actuales del sistema`)
+  console.log(`  - GET /api/metrics/stream - Stream SSE de métricas`)
+  console.log(`  - GET /api/metrics/history - Historial (from, to, step)`)
+  console.log(`  - GET /api/metrics/export - Exportar historial (from, to, fields, format=csv|ndjson)`)
+  if (MONITOR_MODE === 'agent') {
+    console.log(`  - GET /metrics          - Métricas en formato Prometheus`)
+    console.log(`  - GET /health           - Health check`)
+    return
+  }
+  console.log(`  - GET /api/hosts        - Hosts monitoreados y su estado`)
+  console.log(`  - GET /api/hosts/:id/metrics[/history|/export] - Métricas de un host`)
+  if (agentRegistry) {
+    console.log(`  - POST /api/agents/:id/samples - Muestras de agentes push`)
+  }
+  console.log(`  - GET /api/access       - Usuario actual y secciones/logs permitidos`)
+  console.log(`  - GET /api/audit        - Auditoria de pedidos a la API`)
   console.log(`  - GET /api/logs         - Lista de logs disponibles`)
-  console.log(`  - GET /api/logs/:source - Log completo (order=desc|asc)`)
+  console.log(`  - GET /api/logs/:source - Log completo (order, q, regex, case, invert, from, to, field, format=json)`)
+  console.log(`  - GET /api/logs/:source/stream - Seguimiento en vivo (SSE)`)
+  console.log(`  - GET /api/analytics/nginx - Tráfico de nginx (window, top)`)
+  console.log(`  - GET /api/processes    - Procesos con mayor consumo (sort, limit, q)`)
+  console.log(`  - GET /api/alerts       - Alertas activas e historial (limit)`)
+  console.log(`  - POST /api/alerts/:id/ack - Reconocer una alerta`)
+  console.log(`  - GET /api/probes       - Estado de los probes de servicios`)
+  console.log(`  - GET /api/containers   - Contenedores Docker (${DOCKER_SOCKET || 'deshabilitado'})`)
+  console.log(`  - GET /metrics          - Métricas en formato Prometheus`)
   console.log(`  - GET /health           - Health check`)
 })
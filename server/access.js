@@ -0,0 +1,244 @@
+import net from 'net'
+import { readJsonConfig, watchConfigFile } from './configFile.js'
+import { tokensMatch } from './timingSafe.js'
+
+// Secciones de la API con control de acceso (los logs se controlan por fuente).
+// `export` es la descarga del historial y se suma a `metrics`.
+export const ACCESS_SECTIONS = ['metrics', 'export', 'processes', 'containers', 'probes', 'alerts', 'analytics', 'audit']
+
+const ALL = '*'
+
+// Token de la API, desarrollo local o sin archivo de ACLs: se ve todo
+export const FULL_ACCESS = Object.freeze({ sections: ALL, logs: ALL })
+
+const NO_ACCESS = Object.freeze({ sections: new Set(), logs: new Set() })
+
+export const canAccessSection = (access, section) => access.sections === ALL || access.sections.has(section)
+
+export const canReadLog = (access, sourceId) => access.logs === ALL || access.logs.has(sourceId)
+
+// Scopes de los tokens de la API: "<seccion>:read" (salvo `export`),
+// "logs:read:<fuente>" y "*" para todo
+const LOG_SCOPE_PREFIX = 'logs:read:'
+
+export const sectionScope = section => section === 'export' ? 'export' : `${section}:read`
+
+export const logScope = sourceId => `${LOG_SCOPE_PREFIX}${sourceId}`
+
+// Lanza Error con el primer scope desconocido
+export function validateScopes(scopes) {
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    throw new Error('se esperaba una lista de scopes')
+  }
+  const sectionScopes = ACCESS_SECTIONS.map(sectionScope)
+  for (const scope of scopes) {
+    const isLogScope = typeof scope === 'string' && scope.startsWith(LOG_SCOPE_PREFIX) &&
+      scope.length > LOG_SCOPE_PREFIX.length
+    if (scope !== ALL && !sectionScopes.includes(scope) && !isLogScope) {
+      throw new Error(`scope desconocido "${scope}" (validos: *, ${sectionScopes.join(', ')}, ${LOG_SCOPE_PREFIX}<fuente>)`)
+    }
+  }
+  return scopes
+}
+
+// Permisos equivalentes a una lista de scopes ya validada
+export function accessFromScopes(scopes) {
+  if (scopes.includes(ALL)) {
+    return FULL_ACCESS
+  }
+  const logs = scopes
+    .filter(scope => scope.startsWith(LOG_SCOPE_PREFIX))
+    .map(scope => scope.slice(LOG_SCOPE_PREFIX.length))
+  return {
+    sections: new Set(ACCESS_SECTIONS.filter(section => scopes.includes(sectionScope(section)))),
+    logs: logs.includes(ALL) ? ALL : new Set(logs)
+  }
+}
+
+// "*" o lista de nombres -> ALL o Set
+function parseGrant(value, where, known) {
+  if (value === undefined) {
+    return new Set()
+  }
+  if (value === ALL) {
+    return ALL
+  }
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item)) {
+    throw new Error(`${where}: se esperaba "*" o una lista de nombres`)
+  }
+  const unknown = known ? value.filter(item => !known.includes(item)) : []
+  if (unknown.length > 0) {
+    throw new Error(`${where}: desconocido ${unknown.join(', ')} (validos: ${known.join(', ')})`)
+  }
+  return new Set(value)
+}
+
+function parsePermissions(entry, where) {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    throw new Error(`${where}: se esperaba un objeto { sections, logs }`)
+  }
+  return Object.freeze({
+    sections: parseGrant(entry.sections, `${where}.sections`, ACCESS_SECTIONS),
+    logs: parseGrant(entry.logs, `${where}.logs`, null)
+  })
+}
+
+/**
+ * Valida el archivo de ACLs: { default: permisos, groups: { grupo: permisos } }
+ * donde permisos = { sections: "*" | [...], logs: "*" | [ids de fuente] }.
+ * `default` aplica a todo usuario identificado por el proxy (aunque no traiga
+ * grupos). Lanza Error con el primer problema.
+ */
+export function validateAccessControl(config) {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error('se esperaba un objeto { default, groups }')
+  }
+  const groups = config.groups ?? {}
+  if (!groups || typeof groups !== 'object' || Array.isArray(groups)) {
+    throw new Error('groups debe ser un objeto { grupo: permisos }')
+  }
+
+  return Object.freeze({
+    default: config.default === undefined ? NO_ACCESS : parsePermissions(config.default, 'default'),
+    groups: Object.freeze(Object.fromEntries(
+      Object.entries(groups).map(([name, entry]) => [name, parsePermissions(entry, `groups.${name}`)])
+    ))
+  })
+}
+
+function union(grants) {
+  if (grants.includes(ALL)) {
+    return ALL
+  }
+  return new Set(grants.flatMap(grant => [...grant]))
+}
+
+/**
+ * ACLs por grupo para los usuarios que llegan identificados por el proxy.
+ * Sin archivo al arrancar no hay restricciones (FULL_ACCESS); `watch()`
+ * recarga y conserva la configuración anterior si la nueva no valida o si el
+ * archivo desaparece, para no abrir el acceso por un borrado.
+ */
+export function createAccessControl({ configPath }) {
+  let config = null
+
+  async function readConfig() {
+    const content = await readJsonConfig(configPath)
+    return content === null ? null : validateAccessControl(content)
+  }
+
+  async function load() {
+    config = await readConfig()
+    return config !== null
+  }
+
+  async function reload() {
+    try {
+      const next = await readConfig()
+      if (next === null && config !== null) {
+        console.error(`ACLs: no se encuentra ${configPath}, se mantienen las anteriores`)
+        return
+      }
+      config = next
+      console.log(`ACLs recargadas${config ? ` (${Object.keys(config.groups).length} grupos)` : ' - sin restricciones'}`)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Error desconocido'
+      console.error(`ACLs invalidas (${configPath}), se mantienen las anteriores:`, message)
+    }
+  }
+
+  function watch() {
+    watchConfigFile(configPath, reload, 'ACLs')
+  }
+
+  // Permisos de un usuario: `default` más los de cada uno de sus grupos
+  function resolve(groups) {
+    if (!config) {
+      return FULL_ACCESS
+    }
+    const granted = [
+      config.default,
+      ...groups.filter(group => Object.hasOwn(config.groups, group)).map(group => config.groups[group])
+    ]
+    return {
+      sections: union(granted.map(permissions => permissions.sections)),
+      logs: union(granted.map(permissions => permissions.logs))
+    }
+  }
+
+  return { load, watch, resolve }
+}
+
+// El socket puede informar IPv4 como IPv4-mapped IPv6 (::ffff:10.0.0.1)
+function normalizeAddress(address) {
+  return address.startsWith('::ffff:') && net.isIPv4(address.slice(7)) ? address.slice(7) : address
+}
+
+/**
+ * Decide si se confía en la identidad que envía el proxy (X-Auth-User y
+ * X-Auth-Groups): solo si el pedido viene de una dirección de `trustedProxies`
+ * (IPs o CIDR, comparadas con la dirección del socket y no con req.ip, que
+ * sale de X-Forwarded-For y lo controla el cliente) o trae el secreto
+ * compartido en X-Auth-Proxy-Secret. Lanza Error si alguna dirección es
+ * inválida.
+ */
+export function createProxyTrust({ trustedProxies, secret }) {
+  const blockList = new net.BlockList()
+  for (const entry of trustedProxies) {
+    const [address, prefix] = entry.split('/')
+    const type = net.isIPv6(address) ? 'ipv6' : 'ipv4'
+    if (!net.isIP(address)) {
+      throw new Error(`direccion invalida "${entry}"`)
+    }
+    if (prefix === undefined) {
+      blockList.addAddress(address, type)
+      continue
+    }
+    const bits = Number(prefix)
+    if (!Number.isInteger(bits) || bits < 0 || bits > (type === 'ipv6' ? 128 : 32)) {
+      throw new Error(`prefijo invalido "${entry}"`)
+    }
+    blockList.addSubnet(address, bits, type)
+  }
+
+  const peerAddress = req => normalizeAddress(req.socket?.remoteAddress || '')
+
+  function isTrustedPeer(req) {
+    const address = peerAddress(req)
+    return net.isIP(address) !== 0 && blockList.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4')
+  }
+
+  function isTrusted(req) {
+    const provided = req.header('X-Auth-Proxy-Secret') || ''
+    if (secret && provided && tokensMatch(secret, provided)) {
+      return true
+    }
+    return isTrustedPeer(req)
+  }
+
+  // IP del cliente para límites y bloqueos: req.ip (X-Forwarded-For) solo si
+  // quien se conecta es un proxy de `trustedProxies`; si no, la del socket,
+  // que el cliente no puede cambiar entre pedidos
+  function clientAddress(req) {
+    return (isTrustedPeer(req) && req.ip) || peerAddress(req) || 'unknown'
+  }
+
+  // { user, groups } si el pedido trae una identidad confiable, si no null
+  function identify(req) {
+    const user = (req.header('X-Auth-User') || '').trim()
+    if (!user || !isTrusted(req)) {
+      return null
+    }
+    const groups = (req.header('X-Auth-Groups') || '')
+      .split(',')
+      .map(group => group.trim())
+      .filter(Boolean)
+    return { user, groups }
+  }
+
+  return {
+    enabled: trustedProxies.length > 0 || Boolean(secret),
+    identify,
+    clientAddress
+  }
+}
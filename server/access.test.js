@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { createProxyTrust } from './access.js'
+import { createRateLimiter } from './rateLimit.js'
+
+// Pedido mínimo como lo ve express con `trust proxy` 1: req.ip sale del
+// último X-Forwarded-For, que el cliente puede inventar
+function fakeRequest(remoteAddress, forwardedFor, headers = {}) {
+  return {
+    ip: forwardedFor ?? remoteAddress,
+    socket: { remoteAddress },
+    header: name => headers[name]
+  }
+}
+
+const proxyTrust = createProxyTrust({ trustedProxies: ['127.0.0.1', '10.0.0.0/8'], secret: '' })
+
+test('la IP del cliente es la del socket si quien se conecta no es un proxy confiable', () => {
+  assert.equal(proxyTrust.clientAddress(fakeRequest('203.0.113.5', '198.51.100.1')), '203.0.113.5')
+  assert.equal(proxyTrust.clientAddress(fakeRequest('::ffff:203.0.113.5', '198.51.100.1')), '203.0.113.5')
+})
+
+test('detras de un proxy confiable se usa X-Forwarded-For', () => {
+  assert.equal(proxyTrust.clientAddress(fakeRequest('::ffff:127.0.0.1', '198.51.100.1')), '198.51.100.1')
+  assert.equal(proxyTrust.clientAddress(fakeRequest('10.1.2.3', '198.51.100.2')), '198.51.100.2')
+})
+
+test('cambiar X-Forwarded-For en cada intento no evita el 429 de tokens rechazados', () => {
+  const rateLimiter = createRateLimiter({ configPath: '/nonexistent/rate-limits.json' })
+  const results = []
+  for (let attempt = 0; attempt < 12; attempt++) {
+    const req = fakeRequest('203.0.113.5', `198.51.100.${attempt}`)
+    const key = `ip:${proxyTrust.clientAddress(req)}`
+    const check = rateLimiter.peek('auth', key)
+    if (check.allowed) {
+      rateLimiter.consume('auth', key)
+    }
+    results.push(check.allowed ? 401 : 429)
+  }
+  assert.deepEqual(results, [...Array(10).fill(401), 429, 429])
+})
+
+test('la identidad del proxy solo se acepta desde una direccion confiable', () => {
+  const headers = { 'X-Auth-User': 'ana', 'X-Auth-Groups': 'ops, dev' }
+  assert.deepEqual(proxyTrust.identify(fakeRequest('127.0.0.1', undefined, headers)), { user: 'ana', groups: ['ops', 'dev'] })
+  assert.equal(proxyTrust.identify(fakeRequest('203.0.113.5', '127.0.0.1', headers)), null)
+})
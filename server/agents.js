@@ -0,0 +1,309 @@
+import { readJsonConfig, watchConfigFile } from './configFile.js'
+import { tokensMatch } from './timingSafe.js'
+
+const AGENT_ID = /^[a-z0-9][a-z0-9_-]{0,63}$/i
+// "local" identifica al propio agregador en /api/hosts
+export const LOCAL_HOST_ID = 'local'
+const DEFAULT_TIMEOUT_MS = 5000
+// Sin muestras durante este múltiplo del intervalo, el agente se da por caído
+const STALE_INTERVALS = 3
+
+/**
+ * Valida el archivo de agentes y devuelve { id: agente } normalizado. Acepta
+ * un arreglo o { agents: [...] }. Cada agente tiene su `token` (el
+ * MONITOR_API_TOKEN del agente) y `url` para consultarlo; con `push: true`
+ * es el agente quien envía sus muestras y `url` es opcional (sin ella no hay
+ * historial). Lanza Error con el primer problema.
+ */
+export function validateAgents(config) {
+  const list = Array.isArray(config) ? config : config?.agents
+  if (!Array.isArray(list)) {
+    throw new Error('se esperaba una lista de agentes')
+  }
+
+  const agents = {}
+  list.forEach((entry, index) => {
+    const where = `agente #${index + 1}`
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`${where}: se esperaba un objeto`)
+    }
+
+    const { id, label, url, token, push = false } = entry
+    if (typeof id !== 'string' || !AGENT_ID.test(id) || id === LOCAL_HOST_ID) {
+      throw new Error(`${where}: id invalido (letras, numeros, - y _; "${LOCAL_HOST_ID}" esta reservado)`)
+    }
+    if (id in agents) {
+      throw new Error(`${where}: id duplicado "${id}"`)
+    }
+    const named = `${where} (${id})`
+    if (label !== undefined && typeof label !== 'string') {
+      throw new Error(`${named}: label debe ser texto`)
+    }
+    if (typeof token !== 'string' || !token.trim()) {
+      throw new Error(`${named}: token es obligatorio`)
+    }
+    if (typeof push !== 'boolean') {
+      throw new Error(`${named}: push debe ser true o false`)
+    }
+
+    let baseUrl = null
+    if (url !== undefined) {
+      let parsed = null
+      try {
+        parsed = new URL(url)
+      } catch {
+        parsed = null
+      }
+      if (!parsed || (parsed.protocol !== 'http:' && parsed.protocol !== 'https:')) {
+        throw new Error(`${named}: url debe ser http:// o https://`)
+      }
+      baseUrl = parsed.href.replace(/\/+$/, '')
+    } else if (!push) {
+      throw new Error(`${named}: url es obligatoria salvo con push: true`)
+    }
+
+    agents[id] = Object.freeze({ label: label || id, url: baseUrl, token: token.trim(), push })
+  })
+
+  return Object.freeze(agents)
+}
+
+function describeFetchError(error, timeoutMs) {
+  if (error?.name === 'TimeoutError') {
+    return `sin respuesta en ${timeoutMs} ms`
+  }
+  // fetch envuelve el error de red ("fetch failed") y el detalle queda en cause
+  return error?.cause?.message ?? (error instanceof Error ? error.message : 'Error desconocido')
+}
+
+// Resumen para la grilla de hosts (mismos campos que las tarjetas del dashboard)
+export function summarizeSample(data) {
+  return data
+    ? { cpu: data.cpu, memory: data.memory, disk: data.disk, uptime: data.uptime, timestamp: data.timestamp }
+    : null
+}
+
+/**
+ * Agentes declarados en `configPath`. Los agentes pull se consultan cada
+ * `intervalMs` en /api/metrics con su token; los push entregan muestras por
+ * `acceptPush`. Cada agente queda "ok", "pending" (aún sin datos) o
+ * "unreachable" (último pedido fallido o sin muestras recientes), conservando
+ * la última muestra conocida y el motivo de la falla.
+ */
+export function createAgentRegistry({ configPath, intervalMs, timeoutMs = DEFAULT_TIMEOUT_MS }) {
+  let agents = {}
+  // Por agente: { data, lastSeen, error, errorAt }
+  const states = new Map()
+  let pollTimer = null
+
+  function stateOf(id) {
+    if (!states.has(id)) {
+      states.set(id, { data: null, lastSeen: null, error: null, errorAt: null })
+    }
+    return states.get(id)
+  }
+
+  function recordSample(id, data) {
+    Object.assign(stateOf(id), { data, lastSeen: Date.now(), error: null, errorAt: null })
+  }
+
+  function recordFailure(id, message) {
+    Object.assign(stateOf(id), { error: message, errorAt: Date.now() })
+  }
+
+  function authHeaders(agent) {
+    return {
+      Accept: 'application/json',
+      Authorization: `Bearer ${agent.token}`,
+      'X-Api-Token': agent.token
+    }
+  }
+
+  async function pollAgent(id, agent) {
+    try {
+      const response = await fetch(`${agent.url}/api/metrics`, {
+        headers: authHeaders(agent),
+        signal: AbortSignal.timeout(timeoutMs)
+      })
+      if (!response.ok) {
+        await response.body?.cancel()
+        throw new Error(response.status === 401 ? 'token rechazado por el agente (HTTP 401)' : `HTTP ${response.status}`)
+      }
+      recordSample(id, await response.json())
+    } catch (error) {
+      recordFailure(id, describeFetchError(error, timeoutMs))
+    }
+  }
+
+  function pollAll() {
+    for (const [id, agent] of Object.entries(agents)) {
+      if (!agent.push) {
+        pollAgent(id, agent)
+      }
+    }
+  }
+
+  function applyAgents(nextAgents) {
+    agents = nextAgents
+    for (const id of states.keys()) {
+      if (!(id in agents)) {
+        states.delete(id)
+      }
+    }
+  }
+
+  async function readConfig() {
+    const config = await readJsonConfig(configPath)
+    return config === null ? {} : validateAgents(config)
+  }
+
+  // Carga la configuración (lanza si es inválida) y arranca el polling
+  async function load() {
+    applyAgents(await readConfig())
+    clearInterval(pollTimer)
+    pollAll()
+    pollTimer = setInterval(pollAll, intervalMs)
+    pollTimer.unref()
+    return Object.keys(agents).length
+  }
+
+  async function reload() {
+    try {
+      applyAgents(await readConfig())
+      console.log(`Agentes recargados (${Object.keys(agents).length})`)
+      pollAll()
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Error desconocido'
+      console.error(`Configuración de agentes invalida (${configPath}), se mantiene la anterior:`, message)
+    }
+  }
+
+  function watch() {
+    watchConfigFile(configPath, reload, 'agentes')
+  }
+
+  // Muestra enviada por un agente push: "unknown", "unauthorized" u "ok"
+  function acceptPush(id, token, data) {
+    const agent = Object.hasOwn(agents, id) ? agents[id] : null
+    if (!agent || !agent.push) {
+      return 'unknown'
+    }
+    if (!token || !tokensMatch(agent.token, token)) {
+      return 'unauthorized'
+    }
+    recordSample(id, data)
+    return 'ok'
+  }
+
+  function describe(id) {
+    const agent = agents[id]
+    const state = stateOf(id)
+    const now = Date.now()
+    let status = 'ok'
+    let error = state.error
+    if (state.error && (!state.lastSeen || state.errorAt >= state.lastSeen)) {
+      status = 'unreachable'
+    } else if (!state.lastSeen) {
+      status = 'pending'
+    } else if (now - state.lastSeen > intervalMs * STALE_INTERVALS) {
+      status = 'unreachable'
+      error = agent.push ? 'el agente dejo de enviar muestras' : 'sin muestras recientes'
+    }
+    return {
+      id,
+      label: agent.label,
+      mode: agent.push ? 'push' : 'pull',
+      status,
+      error: status === 'ok' ? null : error,
+      lastSeen: state.lastSeen,
+      summary: summarizeSample(state.data)
+    }
+  }
+
+  function list() {
+    return Object.keys(agents).map(describe)
+  }
+
+  // Última muestra de un agente (null si no existe)
+  function get(id) {
+    if (!Object.hasOwn(agents, id)) {
+      return null
+    }
+    return { ...describe(id), data: stateOf(id).data }
+  }
+
+  // Pedido a la API del agente; el timeout cubre hasta recibir los headers,
+  // así una exportación larga no se corta a mitad del cuerpo
+  async function requestAgent(agent, pathAndQuery, accept) {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(new DOMException('timeout', 'TimeoutError')), timeoutMs)
+    try {
+      return await fetch(`${agent.url}${pathAndQuery}`, {
+        headers: { ...authHeaders(agent), Accept: accept },
+        signal: controller.signal
+      })
+    } catch (error) {
+      throw new Error(describeFetchError(error, timeoutMs))
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  // Reenvía la consulta de historial al agente (solo si tiene url)
+  async function fetchHistory(id, search) {
+    const agent = agents[id]
+    if (!agent.url) {
+      return null
+    }
+    const response = await requestAgent(agent, `/api/metrics/history?${search}`, 'application/json')
+    return { status: response.status, body: await response.json().catch(() => null) }
+  }
+
+  // Exportación del historial del agente; devuelve la Response sin leer el
+  // cuerpo para reenviarla como stream
+  async function fetchExport(id, search) {
+    const agent = agents[id]
+    if (!agent.url) {
+      return null
+    }
+    return requestAgent(agent, `/api/metrics/export?${search}`, '*/*')
+  }
+
+  return { load, watch, acceptPush, list, get, fetchHistory, fetchExport }
+}
+
+/**
+ * Envío de muestras de un agente a su agregador (POST
+ * /api/agents/:id/samples). Las fallas se informan una sola vez hasta que
+ * el envío vuelva a funcionar, para no llenar el log en cada muestra.
+ */
+export function createAgentPusher({ aggregatorUrl, agentId, token, timeoutMs = DEFAULT_TIMEOUT_MS }) {
+  const endpoint = `${aggregatorUrl.replace(/\/+$/, '')}/api/agents/${encodeURIComponent(agentId)}/samples`
+  let failing = false
+
+  async function push(data) {
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify(data),
+        signal: AbortSignal.timeout(timeoutMs)
+      })
+      await response.body?.cancel()
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+      if (failing) {
+        console.log(`Envío al agregador restablecido (${endpoint})`)
+        failing = false
+      }
+    } catch (error) {
+      if (!failing) {
+        console.error(`No se pudo enviar la muestra al agregador (${endpoint}):`, describeFetchError(error, timeoutMs))
+        failing = true
+      }
+    }
+  }
+
+  return { endpoint, push }
+}
@@ -0,0 +1,134 @@
+import { parseDuration } from './timeUtils.js'
+
+const RULE_ID = /^[a-z0-9][a-z0-9_-]{0,63}$/i
+const SEVERITIES = new Set(['warning', 'critical'])
+// Histéresis por defecto: 5% del umbral
+const DEFAULT_HYSTERESIS_RATIO = 0.05
+
+// Métricas evaluables y sus etiquetas, en el orden en que forman el campo del
+// historial (disk{mount=/} -> "disk:/", net{iface=eth0,direction=rx} -> "net:eth0:rx")
+const METRICS = {
+  cpu: [{ name: 'mode', values: ['user', 'system', 'iowait', 'steal', 'irq'] }],
+  memory: [],
+  disk: [{ name: 'mount' }],
+  load1: [],
+  net: [{ name: 'iface' }, { name: 'direction', values: ['rx', 'tx'], required: true }],
+  io: [{ name: 'stat', values: ['read', 'write', 'util'], required: true }]
+}
+
+const EXPRESSION = /^\s*([a-z][a-z0-9_]*)\s*(?:\{([^}]*)\})?\s*(>=|<=|>|<)\s*(-?\d+(?:\.\d+)?)\s*(?:for\s+(\S+))?\s*$/i
+
+function parseLabels(text) {
+  const labels = {}
+  for (const part of text.split(',').map(item => item.trim()).filter(Boolean)) {
+    const match = /^([a-z]+)\s*=\s*(?:"([^"]*)"|([^\s"]+))$/i.exec(part)
+    if (!match) {
+      throw new Error(`etiqueta invalida "${part}" (se espera nombre=valor)`)
+    }
+    labels[match[1]] = match[2] ?? match[3]
+  }
+  return labels
+}
+
+/**
+ * Interpreta "<métrica>{etiqueta=valor,...} <op> <umbral> [for <duración>]",
+ * p.ej. "cpu > 90 for 5m" o "disk{mount=/} > 85". Devuelve
+ * { field, op, threshold, forMs } donde field es la clave del historial.
+ */
+export function parseAlertExpression(expr) {
+  const match = EXPRESSION.exec(String(expr ?? ''))
+  if (!match) {
+    throw new Error('expresion invalida (ej: "cpu > 90 for 5m")')
+  }
+
+  const [, metric, labelText = '', op, rawThreshold, rawFor] = match
+  const schema = METRICS[metric]
+  if (!schema) {
+    throw new Error(`metrica desconocida "${metric}" (${Object.keys(METRICS).join(', ')})`)
+  }
+
+  const labels = parseLabels(labelText)
+  for (const name of Object.keys(labels)) {
+    if (!schema.some(label => label.name === name)) {
+      throw new Error(`${metric} no admite la etiqueta "${name}"`)
+    }
+  }
+
+  const parts = [metric]
+  for (const label of schema) {
+    const value = labels[label.name]
+    if (value === undefined) {
+      if (label.required) {
+        throw new Error(`${metric} requiere la etiqueta "${label.name}"`)
+      }
+      continue
+    }
+    if (label.values && !label.values.includes(value)) {
+      throw new Error(`${label.name} debe ser uno de ${label.values.join(', ')}`)
+    }
+    parts.push(value)
+  }
+
+  const forMs = rawFor === undefined ? 0 : parseDuration(rawFor)
+  if (forMs === null) {
+    throw new Error(`duracion invalida "${rawFor}"`)
+  }
+
+  return { field: parts.join(':'), op, threshold: Number.parseFloat(rawThreshold), forMs }
+}
+
+/**
+ * Valida el archivo de reglas y devuelve { id: regla } normalizado. Acepta un
+ * arreglo o { rules: [...] } (puede estar vacío). `hysteresis` es cuánto debe
+ * volver el valor por debajo (o encima) del umbral para resolver la alerta.
+ * Lanza Error con el primer problema.
+ */
+export function validateAlertRules(config) {
+  const list = Array.isArray(config) ? config : config?.rules
+  if (!Array.isArray(list)) {
+    throw new Error('se esperaba una lista de reglas')
+  }
+
+  const rules = {}
+  list.forEach((entry, index) => {
+    const where = `regla #${index + 1}`
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`${where}: se esperaba un objeto`)
+    }
+
+    const { id, expr, severity = 'warning', description, hysteresis } = entry
+    if (typeof id !== 'string' || !RULE_ID.test(id)) {
+      throw new Error(`${where}: id invalido (letras, numeros, - y _)`)
+    }
+    if (id in rules) {
+      throw new Error(`${where}: id duplicado "${id}"`)
+    }
+    const named = `${where} (${id})`
+    if (!SEVERITIES.has(severity)) {
+      throw new Error(`${named}: severity debe ser uno de ${[...SEVERITIES].join(', ')}`)
+    }
+    if (description !== undefined && typeof description !== 'string') {
+      throw new Error(`${named}: description debe ser texto`)
+    }
+    if (hysteresis !== undefined && (typeof hysteresis !== 'number' || !Number.isFinite(hysteresis) || hysteresis < 0)) {
+      throw new Error(`${named}: hysteresis debe ser un numero >= 0`)
+    }
+
+    let parsed
+    try {
+      parsed = parseAlertExpression(expr)
+    } catch (error) {
+      throw new Error(`${named}: ${error.message}`)
+    }
+
+    rules[id] = Object.freeze({
+      expr: String(expr).trim(),
+      severity,
+      description: description || null,
+      ...parsed,
+      hysteresis: hysteresis ?? Math.abs(parsed.threshold) * DEFAULT_HYSTERESIS_RATIO
+    })
+  })
+
+  return Object.freeze(rules)
+}
@@ -0,0 +1,247 @@
+import crypto from 'crypto'
+import path from 'path'
+import { readJsonConfig, watchConfigFile } from './configFile.js'
+import { createNdjsonStore } from './ndjsonStore.js'
+import { validateAlertRules } from './alertRules.js'
+
+const COMPACT_INTERVAL_MS = 10 * 60 * 1000
+
+const roundValue = (value) => Math.round(value * 100) / 100
+
+const COMPARATORS = {
+  '>': (value, threshold) => value > threshold,
+  '>=': (value, threshold) => value >= threshold,
+  '<': (value, threshold) => value < threshold,
+  '<=': (value, threshold) => value <= threshold
+}
+
+// La alerta se resuelve recién cuando el valor se aleja del umbral más que
+// la histéresis, para no oscilar entre firing y resolved alrededor del límite
+function isCleared(rule, value) {
+  return rule.op.startsWith('>')
+    ? value < rule.threshold - rule.hysteresis
+    : value > rule.threshold + rule.hysteresis
+}
+
+/**
+ * Motor de alertas sobre las muestras del sampler. Cada regla pasa por
+ * inactive -> pending (umbral superado, esperando `for`) -> firing ->
+ * resolved. Las alertas (una por cada vez que una regla dispara) se
+ * persisten en NDJSON como instantáneas: al cargar gana la última por id.
+ * `notify(event, alert)` se llama con "firing" y "resolved".
+ */
+export function createAlertEngine({ configPath, dataDir, retentionMs, notify }) {
+  const store = createNdjsonStore(path.join(dataDir, 'alerts.ndjson'))
+  const alerts = new Map()
+  // Estado por regla: { phase, since, alertId, missingSince }; missingSince es
+  // desde cuándo falta el valor de una regla firing (null si llega)
+  const states = new Map()
+  let rules = {}
+
+  function save(alert) {
+    alerts.set(alert.id, alert)
+    store.append(alert)
+  }
+
+  function fire(ruleId, rule, state, timestamp, value) {
+    const alert = {
+      id: crypto.randomUUID(),
+      ruleId,
+      expr: rule.expr,
+      severity: rule.severity,
+      description: rule.description,
+      threshold: rule.threshold,
+      value: roundValue(value),
+      state: 'firing',
+      startedAt: state.since,
+      firedAt: timestamp,
+      resolvedAt: null,
+      acknowledgedAt: null,
+      acknowledgedBy: null
+    }
+    save(alert)
+    states.set(ruleId, { phase: 'firing', since: state.since, alertId: alert.id, missingSince: null })
+    notify('firing', alert)
+  }
+
+  function resolve(ruleId, state, timestamp, value, { silent = false } = {}) {
+    const current = alerts.get(state.alertId)
+    states.set(ruleId, { phase: 'inactive', since: timestamp, alertId: null })
+    if (!current) {
+      return
+    }
+    const alert = {
+      ...current,
+      state: 'resolved',
+      resolvedAt: timestamp,
+      value: value === null ? current.value : roundValue(value)
+    }
+    save(alert)
+    if (!silent) {
+      notify('resolved', alert)
+    }
+  }
+
+  // Sin valor para la regla (disco desmontado, interfaz quitada, ...): una
+  // alerta firing se resuelve si el campo falta durante `for`, así no queda
+  // activa para siempre; una pending vuelve a empezar
+  function evaluateMissing(ruleId, rule, state, timestamp) {
+    if (state?.phase === 'pending') {
+      states.set(ruleId, { phase: 'inactive', since: timestamp, alertId: null })
+      return
+    }
+    if (state?.phase !== 'firing') {
+      return
+    }
+    const missingSince = state.missingSince ?? timestamp
+    if (timestamp - missingSince >= rule.forMs) {
+      resolve(ruleId, state, timestamp, null)
+    } else if (state.missingSince !== missingSince) {
+      states.set(ruleId, { ...state, missingSince })
+    }
+  }
+
+  // Evalúa una muestra ({ campo: valor }, mismas claves que el historial)
+  function evaluate(timestamp, values) {
+    for (const [ruleId, rule] of Object.entries(rules)) {
+      const value = values[rule.field]
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        evaluateMissing(ruleId, rule, states.get(ruleId), timestamp)
+        continue
+      }
+
+      const state = states.get(ruleId) ?? { phase: 'inactive', since: timestamp, alertId: null }
+      const breached = COMPARATORS[rule.op](value, rule.threshold)
+
+      if (state.phase === 'firing') {
+        if (isCleared(rule, value)) {
+          resolve(ruleId, state, timestamp, value)
+        } else if (state.missingSince) {
+          states.set(ruleId, { ...state, missingSince: null })
+        }
+        continue
+      }
+
+      if (!breached) {
+        states.set(ruleId, { phase: 'inactive', since: timestamp, alertId: null })
+        continue
+      }
+
+      const pending = state.phase === 'pending' ? state : { phase: 'pending', since: timestamp, alertId: null }
+      if (timestamp - pending.since >= rule.forMs) {
+        fire(ruleId, rule, pending, timestamp, value)
+      } else {
+        states.set(ruleId, pending)
+      }
+    }
+  }
+
+  function applyRules(nextRules) {
+    // Las alertas de reglas eliminadas se cierran sin notificar
+    for (const [ruleId, state] of states) {
+      if (!(ruleId in nextRules)) {
+        if (state.phase === 'firing') {
+          resolve(ruleId, state, Date.now(), null, { silent: true })
+        }
+        states.delete(ruleId)
+      }
+    }
+    rules = nextRules
+  }
+
+  async function readConfig() {
+    const config = await readJsonConfig(configPath)
+    return config === null ? {} : validateAlertRules(config)
+  }
+
+  // Carga alertas previas y reglas (lanza si son inválidas). Una alerta que
+  // quedó firing al reiniciar sigue activa hasta que la regla se normalice.
+  async function load() {
+    const cutoff = Date.now() - retentionMs
+    try {
+      for (const entry of await store.load()) {
+        if (typeof entry?.id === 'string' && Number.isFinite(entry.firedAt)) {
+          alerts.set(entry.id, entry)
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Error desconocido'
+      console.warn(`[WARN] No se pudo cargar el historial de alertas: ${message}`)
+    }
+
+    for (const [id, alert] of alerts) {
+      if (alert.state === 'resolved' && alert.resolvedAt < cutoff) {
+        alerts.delete(id)
+      } else if (alert.state === 'firing') {
+        states.set(alert.ruleId, { phase: 'firing', since: alert.startedAt, alertId: id, missingSince: null })
+      }
+    }
+
+    applyRules(await readConfig())
+    return Object.keys(rules).length
+  }
+
+  async function reload() {
+    try {
+      applyRules(await readConfig())
+      console.log(`Reglas de alerta recargadas (${Object.keys(rules).length})`)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Error desconocido'
+      console.error(`Reglas de alerta invalidas (${configPath}), se mantienen las anteriores:`, message)
+    }
+  }
+
+  function watch() {
+    watchConfigFile(configPath, reload, 'alertas')
+  }
+
+  function acknowledge(id, user) {
+    const current = alerts.get(id)
+    if (!current) {
+      return null
+    }
+    if (current.acknowledgedAt) {
+      return current
+    }
+    const alert = { ...current, acknowledgedAt: Date.now(), acknowledgedBy: user || null }
+    save(alert)
+    return alert
+  }
+
+  // Reglas con su fase actual, alertas activas y las resueltas más recientes
+  function list({ limit }) {
+    const sorted = [...alerts.values()].sort((a, b) => b.firedAt - a.firedAt)
+    return {
+      rules: Object.entries(rules).map(([id, rule]) => {
+        const state = states.get(id)
+        return {
+          id,
+          expr: rule.expr,
+          severity: rule.severity,
+          description: rule.description,
+          phase: state?.phase ?? 'inactive',
+          since: state && state.phase !== 'inactive' ? state.since : null
+        }
+      }),
+      active: sorted.filter(alert => alert.state === 'firing'),
+      history: sorted.filter(alert => alert.state === 'resolved').slice(0, limit)
+    }
+  }
+
+  function compact() {
+    const cutoff = Date.now() - retentionMs
+    for (const [id, alert] of alerts) {
+      if (alert.state === 'resolved' && alert.resolvedAt < cutoff) {
+        alerts.delete(id)
+      }
+    }
+    return store.rewrite([...alerts.values()].sort((a, b) => a.firedAt - b.firedAt))
+  }
+
+  const compactTimer = setInterval(() => {
+    compact().catch(() => {})
+  }, COMPACT_INTERVAL_MS)
+  compactTimer.unref()
+
+  return { load, watch, evaluate, acknowledge, list }
+}
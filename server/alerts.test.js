@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { after, before, test } from 'node:test'
+import { createAlertEngine } from './alerts.js'
+
+const MINUTE_MS = 60 * 1000
+const T0 = Date.UTC(2024, 0, 15, 10, 0, 0)
+const FIELD = 'disk:/data'
+
+let directory
+let configPath
+
+before(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'monitor-alerts-test-'))
+  configPath = path.join(directory, 'alert-rules.json')
+  await fs.writeFile(configPath, JSON.stringify({
+    rules: [{ id: 'disco-datos', expr: 'disk{mount=/data} > 85 for 2m', severity: 'warning' }]
+  }))
+})
+
+after(async () => {
+  // Deja terminar los appends pendientes del historial antes de borrar
+  await sleep(50)
+  await fs.rm(directory, { recursive: true, force: true })
+})
+
+// Motor con su propio directorio de datos; `events` junta lo notificado
+async function createEngine(name) {
+  const events = []
+  const dataDir = path.join(directory, name)
+  await fs.mkdir(dataDir)
+  const engine = createAlertEngine({
+    configPath,
+    dataDir,
+    retentionMs: 24 * 60 * MINUTE_MS,
+    notify: (event, alert) => events.push({ event, alert })
+  })
+  await engine.load()
+  return { engine, events }
+}
+
+// Dispara la regla: umbral superado durante `for`
+function fire(engine) {
+  engine.evaluate(T0, { [FIELD]: 90 })
+  engine.evaluate(T0 + 2 * MINUTE_MS, { [FIELD]: 91 })
+}
+
+test('una alerta cuyo campo desaparece se resuelve tras `for` sin datos', async () => {
+  const { engine, events } = await createEngine('missing')
+  fire(engine)
+  assert.deepEqual(events.map(({ event }) => event), ['firing'])
+
+  engine.evaluate(T0 + 3 * MINUTE_MS, {})
+  engine.evaluate(T0 + 4 * MINUTE_MS, {})
+  assert.equal(engine.list({ limit: 10 }).active.length, 1)
+
+  engine.evaluate(T0 + 5 * MINUTE_MS, {})
+  assert.deepEqual(events.map(({ event }) => event), ['firing', 'resolved'])
+  const { alert } = events[1]
+  assert.equal(alert.resolvedAt, T0 + 5 * MINUTE_MS)
+  assert.equal(alert.value, 91)
+  assert.equal(engine.list({ limit: 10 }).active.length, 0)
+})
+
+test('si el campo vuelve antes de `for` la alerta sigue activa y la cuenta se reinicia', async () => {
+  const { engine, events } = await createEngine('flapping')
+  fire(engine)
+
+  engine.evaluate(T0 + 3 * MINUTE_MS, {})
+  engine.evaluate(T0 + 4 * MINUTE_MS, { [FIELD]: 92 })
+  engine.evaluate(T0 + 5 * MINUTE_MS, {})
+  engine.evaluate(T0 + 6 * MINUTE_MS, {})
+  assert.deepEqual(events.map(({ event }) => event), ['firing'])
+
+  engine.evaluate(T0 + 7 * MINUTE_MS, {})
+  assert.deepEqual(events.map(({ event }) => event), ['firing', 'resolved'])
+})
+
+test('una regla pending sin datos vuelve a inactive', async () => {
+  const { engine, events } = await createEngine('pending')
+  engine.evaluate(T0, { [FIELD]: 90 })
+  assert.equal(engine.list({ limit: 10 }).rules[0].phase, 'pending')
+
+  engine.evaluate(T0 + MINUTE_MS, {})
+  engine.evaluate(T0 + 2 * MINUTE_MS, { [FIELD]: 90 })
+  assert.equal(engine.list({ limit: 10 }).rules[0].phase, 'pending')
+  assert.equal(events.length, 0)
+})
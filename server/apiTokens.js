@@ -0,0 +1,191 @@
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+import { readJsonConfig, watchConfigFile } from './configFile.js'
+import { accessFromScopes, validateScopes } from './access.js'
+import { tokensMatch } from './timingSafe.js'
+
+// mon_<id>_<secreto>: el id (público) ubica el registro y el secreto solo se
+// muestra al crearlo; en disco queda el SHA-256 del token completo
+const TOKEN_PATTERN = /^mon_([0-9a-f]{12})_([A-Za-z0-9_-]{43})$/
+const ID_PATTERN = /^[0-9a-f]{12}$/
+const HASH_PATTERN = /^[0-9a-f]{64}$/
+
+// lastUsedAt se escribe agrupado, no en cada pedido
+const USAGE_FLUSH_MS = 60 * 1000
+
+export const hashToken = token => crypto.createHash('sha256').update(token).digest('hex')
+
+// El servidor solo escribe el uso, en un archivo aparte: así nunca pisa los
+// tokens que el CLI crea o revoca mientras corre
+export const usagePathFor = filePath => filePath.replace(/\.json$/, '') + '.usage.json'
+
+// Token nuevo: { id, token, hash }. `token` no se guarda
+export function generateToken() {
+  const id = crypto.randomBytes(6).toString('hex')
+  const token = `mon_${id}_${crypto.randomBytes(32).toString('base64url')}`
+  return { id, token, hash: hashToken(token) }
+}
+
+const isTimestamp = value => value === null || (Number.isInteger(value) && value > 0)
+
+/**
+ * Valida el archivo de tokens: { tokens: [{ id, name, hash, scopes, createdAt,
+ * expiresAt, revokedAt }] } con expiresAt/revokedAt en epoch ms o null.
+ * Lanza Error con el primer problema.
+ */
+export function validateTokenFile(content) {
+  const list = content?.tokens
+  if (!Array.isArray(list)) {
+    throw new Error('se esperaba un objeto { tokens: [...] }')
+  }
+
+  const ids = new Set()
+  return Object.freeze(list.map((entry, index) => {
+    const where = `tokens[${index}]`
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`${where}: se esperaba un objeto`)
+    }
+    if (typeof entry.id !== 'string' || !ID_PATTERN.test(entry.id)) {
+      throw new Error(`${where}: id invalido`)
+    }
+    if (ids.has(entry.id)) {
+      throw new Error(`${where}: id repetido "${entry.id}"`)
+    }
+    ids.add(entry.id)
+    if (typeof entry.name !== 'string' || !entry.name.trim()) {
+      throw new Error(`${where}: falta name`)
+    }
+    if (typeof entry.hash !== 'string' || !HASH_PATTERN.test(entry.hash)) {
+      throw new Error(`${where}: hash invalido (se guarda el SHA-256, nunca el token)`)
+    }
+    try {
+      validateScopes(entry.scopes)
+    } catch (error) {
+      throw new Error(`${where}: ${error.message}`)
+    }
+    for (const field of ['createdAt', 'expiresAt', 'revokedAt']) {
+      if (!isTimestamp(entry[field] ?? null) || (field === 'createdAt' && !entry.createdAt)) {
+        throw new Error(`${where}: ${field} debe ser epoch en ms${field === 'createdAt' ? '' : ' o null'}`)
+      }
+    }
+    return Object.freeze({
+      id: entry.id,
+      name: entry.name.trim(),
+      hash: entry.hash,
+      scopes: Object.freeze([...entry.scopes]),
+      createdAt: entry.createdAt,
+      expiresAt: entry.expiresAt ?? null,
+      revokedAt: entry.revokedAt ?? null
+    })
+  }))
+}
+
+// Tokens del archivo (lista vacía si no existe)
+export async function readTokenFile(filePath) {
+  const content = await readJsonConfig(filePath)
+  return content === null ? [] : validateTokenFile(content)
+}
+
+async function writeJsonAtomic(filePath, value) {
+  const tmpPath = `${filePath}.tmp`
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.writeFile(tmpPath, JSON.stringify(value, null, 2) + '\n', { encoding: 'utf8', mode: 0o600 })
+  await fs.rename(tmpPath, filePath)
+}
+
+export function writeTokenFile(filePath, tokens) {
+  return writeJsonAtomic(filePath, { tokens })
+}
+
+// { id: lastUsedAt } (objeto vacío si no hay archivo o no se puede leer)
+export async function readTokenUsage(filePath) {
+  try {
+    const usage = await readJsonConfig(usagePathFor(filePath))
+    return usage && typeof usage === 'object' && !Array.isArray(usage) ? usage : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Tokens de la API con scopes, vencimiento y revocación. `verify` responde
+ * { token, access } o { error: 'invalid' | 'expired' | 'revoked' }. El archivo
+ * lo administra el CLI (server/tokensCli.js); `watch()` toma sus cambios y
+ * conserva los tokens anteriores si el archivo no valida.
+ */
+export function createTokenStore({ filePath }) {
+  let tokens = []
+  let usage = {}
+  let usageDirty = false
+  let flushTimer = null
+
+  async function load() {
+    tokens = await readTokenFile(filePath)
+    usage = await readTokenUsage(filePath)
+    return tokens.length
+  }
+
+  async function reload() {
+    try {
+      tokens = await readTokenFile(filePath)
+      console.log(`Tokens de la API recargados (${tokens.length})`)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Error desconocido'
+      console.error(`Tokens de la API invalidos (${filePath}), se mantienen los anteriores:`, message)
+    }
+  }
+
+  function watch() {
+    watchConfigFile(filePath, reload, 'tokens de la API')
+  }
+
+  async function flushUsage() {
+    if (!usageDirty) {
+      return
+    }
+    usageDirty = false
+    try {
+      await writeJsonAtomic(usagePathFor(filePath), usage)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Error desconocido'
+      console.error('Error guardando el uso de los tokens:', message)
+    }
+  }
+
+  function markUsed(id) {
+    usage[id] = Date.now()
+    usageDirty = true
+    if (!flushTimer) {
+      flushTimer = setTimeout(() => {
+        flushTimer = null
+        flushUsage()
+      }, USAGE_FLUSH_MS)
+      flushTimer.unref()
+    }
+  }
+
+  function verify(received) {
+    const match = TOKEN_PATTERN.exec(received)
+    const entry = match ? tokens.find(candidate => candidate.id === match[1]) : null
+    if (!entry || !tokensMatch(entry.hash, hashToken(received))) {
+      return { error: 'invalid' }
+    }
+    if (entry.revokedAt !== null) {
+      return { error: 'revoked' }
+    }
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      return { error: 'expired' }
+    }
+    markUsed(entry.id)
+    return { token: entry, access: accessFromScopes(entry.scopes) }
+  }
+
+  return {
+    load,
+    watch,
+    verify,
+    flushUsage,
+    hasTokens: () => tokens.length > 0
+  }
+}
@@ -0,0 +1,188 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { readLineBatchesBackward } from './logReader.js'
+import { createNdjsonStore } from './ndjsonStore.js'
+
+const RETENTION_CHECK_MS = 60 * 60 * 1000
+// Corte por consulta: con filtros poco frecuentes se devuelve lo encontrado
+// y un cursor para seguir, en lugar de leer todo el historial de una vez
+const MAX_SCAN_LINES = 200000
+const MAX_QUERY_VALUE_LENGTH = 200
+const FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.ndjson$/
+const CURSOR_PATTERN = /^(\d{4}-\d{2}-\d{2}):(\d+)$/
+
+const dayOf = timestamp => new Date(timestamp).toISOString().slice(0, 10)
+
+// Parámetros del pedido (offset, limit, q, from, ...) recortados
+function summarizeQuery(query) {
+  const summary = {}
+  for (const [key, value] of Object.entries(query ?? {})) {
+    const text = Array.isArray(value) ? value.join(',') : String(value)
+    summary[key] = text.length > MAX_QUERY_VALUE_LENGTH ? `${text.slice(0, MAX_QUERY_VALUE_LENGTH)}…` : text
+  }
+  return summary
+}
+
+// "404" exacto o "4xx" por clase
+function matchesStatus(filter, status) {
+  return /^\dxx$/i.test(filter) ? String(status)[0] === filter[0] : String(status) === filter
+}
+
+// Cursor "<día>:<byte>": las entradas que terminan antes de ese byte del archivo del día
+export const isAuditCursor = value => CURSOR_PATTERN.test(value)
+
+/**
+ * Registro de auditoría de la API: un archivo NDJSON de solo-anexado por día
+ * (UTC) en `dataDir/audit`. Los archivos más viejos que `retentionMs` se
+ * borran enteros. `track(req, res)` anota el pedido cuando termina la
+ * respuesta (también si el cliente corta un stream).
+ */
+export function createAuditLog({ dataDir, retentionMs }) {
+  const directory = path.join(dataDir, 'audit')
+  let current = { day: null, store: null }
+
+  function storeFor(day) {
+    if (current.day !== day) {
+      current = { day, store: createNdjsonStore(path.join(directory, `${day}.ndjson`)) }
+    }
+    return current.store
+  }
+
+  function record(entry) {
+    storeFor(dayOf(entry.t)).append(entry)
+  }
+
+  // `identity` = { user, via } de quien hace el pedido
+  function track(req, res, identity) {
+    const startedAt = Date.now()
+    let recorded = false
+    const finish = () => {
+      if (recorded) {
+        return
+      }
+      recorded = true
+      record({
+        t: startedAt,
+        user: identity.user,
+        via: identity.via,
+        ip: req.ip || null,
+        method: req.method,
+        route: req.route ? `${req.baseUrl}${req.route.path}` : null,
+        path: req.originalUrl.split('?')[0],
+        source: req.params?.source ?? (typeof req.query.source === 'string' ? req.query.source : null),
+        query: summarizeQuery(req.query),
+        status: res.statusCode,
+        // false si el cliente cortó antes de recibir toda la respuesta
+        completed: res.writableFinished,
+        durationMs: Date.now() - startedAt
+      })
+    }
+    res.once('finish', finish)
+    res.once('close', finish)
+  }
+
+  async function listDays() {
+    let names
+    try {
+      names = await fs.readdir(directory)
+    } catch (error) {
+      if (error?.code === 'ENOENT') {
+        return []
+      }
+      throw error
+    }
+    return names
+      .map(name => FILE_PATTERN.exec(name)?.[1])
+      .filter(Boolean)
+      .sort()
+  }
+
+  async function applyRetention() {
+    const oldestKept = dayOf(Date.now() - retentionMs)
+    for (const day of await listDays()) {
+      if (day < oldestKept) {
+        await fs.rm(path.join(directory, `${day}.ndjson`), { force: true })
+      }
+    }
+  }
+
+  /**
+   * Líneas del día de la más nueva a la más vieja como { line, end }, con
+   * `end` = byte donde termina la línea (el cursor para seguir desde ella).
+   * Lee hacia atrás desde `end` (o el final del archivo) y solo lo necesario.
+   * Si la última línea está a medio escribir (sin salto de línea), el `end`
+   * de las anteriores cae sobre su propio salto de línea: el cursor sigue
+   * cortando entre las mismas entradas.
+   */
+  async function* readLinesBackward(day, end = Infinity) {
+    const filePath = path.join(directory, `${day}.ndjson`)
+    let offset
+    try {
+      offset = Math.min(end, (await fs.stat(filePath)).size)
+    } catch (error) {
+      if (error?.code === 'ENOENT') {
+        return
+      }
+      throw error
+    }
+    for await (const batch of readLineBatchesBackward(filePath, undefined, { end: offset })) {
+      for (const line of batch) {
+        yield { line, end: offset }
+        offset = Math.max(0, offset - Buffer.byteLength(line) - 1)
+      }
+    }
+  }
+
+  /**
+   * Entradas más recientes primero que cumplen los filtros (user, source y
+   * route exactos, status "403" o "4xx", from/to en epoch ms). Devuelve
+   * { entries, next }; `next` es el cursor para pedir las anteriores
+   * (`before`) o null si no hay más.
+   */
+  async function query({ from, to, user, source, route, status, limit, before }) {
+    const cursor = before ? CURSOR_PATTERN.exec(before) : null
+    const days = (await listDays())
+      .filter(day => day >= dayOf(from) && day <= dayOf(to) && (!cursor || day <= cursor[1]))
+      .reverse()
+
+    const entries = []
+    let scanned = 0
+    for (const day of days) {
+      const end = cursor && day === cursor[1] ? Number(cursor[2]) : Infinity
+      for await (const { line, end: lineEnd } of readLinesBackward(day, end)) {
+        if (entries.length >= limit || scanned >= MAX_SCAN_LINES) {
+          return { entries, next: `${day}:${lineEnd}` }
+        }
+        scanned++
+        let entry
+        try {
+          entry = line ? JSON.parse(line) : null
+        } catch {
+          // Línea incompleta (escritura en curso o corte)
+          continue
+        }
+        if (
+          !entry ||
+          entry.t < from || entry.t > to ||
+          (user && entry.user !== user) ||
+          (source && entry.source !== source) ||
+          (route && entry.route !== route) ||
+          (status && !matchesStatus(status, entry.status))
+        ) {
+          continue
+        }
+        entries.push(entry)
+      }
+    }
+    return { entries, next: null }
+  }
+
+  const retentionTimer = setInterval(() => {
+    applyRetention().catch(error => {
+      console.error('Error aplicando la retencion de auditoria:', error.message)
+    })
+  }, RETENTION_CHECK_MS)
+  retentionTimer.unref()
+
+  return { track, query, applyRetention }
+}
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { after, before, test } from 'node:test'
+import { createAuditLog } from './auditLog.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const T0 = Date.UTC(2024, 0, 15, 23, 0, 0)
+
+let directory
+let auditLog
+
+// 30 pedidos por día en dos días; los de `ana` dan 403
+const ENTRIES = Array.from({ length: 60 }, (_, index) => ({
+  t: T0 + (index < 30 ? 0 : DAY_MS) + index * 1000,
+  user: index % 3 === 0 ? 'ana' : 'bob',
+  via: 'proxy',
+  ip: '10.0.0.1',
+  method: 'GET',
+  route: '/api/metrics',
+  path: '/api/metrics',
+  source: null,
+  query: { q: 'ñandú' },
+  status: index % 3 === 0 ? 403 : 200,
+  completed: true,
+  durationMs: 1
+}))
+
+before(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'monitor-audit-test-'))
+  await fs.mkdir(path.join(directory, 'audit'))
+  for (const day of ['2024-01-15', '2024-01-16']) {
+    const lines = ENTRIES.filter(entry => new Date(entry.t).toISOString().startsWith(day))
+      .map(entry => `${JSON.stringify(entry)}\n`)
+    await fs.writeFile(path.join(directory, 'audit', `${day}.ndjson`), lines.join(''))
+  }
+  auditLog = createAuditLog({ dataDir: directory, retentionMs: 365 * DAY_MS })
+})
+
+after(async () => {
+  await fs.rm(directory, { recursive: true, force: true })
+})
+
+// Recorre todas las páginas siguiendo `next`
+async function readAllPages(filters) {
+  const pages = []
+  let before
+  do {
+    const page = await auditLog.query({ from: T0 - DAY_MS, to: T0 + 3 * DAY_MS, ...filters, before })
+    pages.push(page.entries)
+    before = page.next
+  } while (before)
+  return pages
+}
+
+test('pagina hacia atras entre dias sin repetir ni saltear entradas', async () => {
+  const pages = await readAllPages({ limit: 7 })
+  assert.ok(pages.slice(0, -1).every(page => page.length === 7))
+  assert.deepEqual(pages.flat(), [...ENTRIES].reverse())
+})
+
+test('los filtros se aplican antes de cortar la pagina', async () => {
+  const pages = await readAllPages({ limit: 4, user: 'ana', status: '4xx' })
+  const expected = ENTRIES.filter(entry => entry.user === 'ana').reverse()
+  assert.deepEqual(pages.flat(), expected)
+  assert.equal(pages[0].length, 4)
+})
+
+test('una linea a medio escribir al final del dia se ignora', async () => {
+  const file = path.join(directory, 'audit', '2024-01-16.ndjson')
+  await fs.appendFile(file, '{"t":')
+  try {
+    const pages = await readAllPages({ limit: 10 })
+    assert.deepEqual(pages.flat(), [...ENTRIES].reverse())
+  } finally {
+    const content = await fs.readFile(file, 'utf8')
+    await fs.writeFile(file, content.slice(0, -'{"t":'.length))
+  }
+})
@@ -0,0 +1,47 @@
+import fs from 'fs'
+import path from 'path'
+
+// Los editores suelen escribir en varios pasos (temporal + rename)
+const RELOAD_DEBOUNCE_MS = 200
+
+// Contenido JSON del archivo, o null si no existe
+export async function readJsonConfig(configPath) {
+  let content
+  try {
+    content = await fs.promises.readFile(configPath, 'utf8')
+  } catch (error) {
+    if (error?.code === 'ENOENT') {
+      return null
+    }
+    throw error
+  }
+  return JSON.parse(content)
+}
+
+/**
+ * Llama a `onChange` cuando se crea, modifica o reemplaza `configPath`.
+ * Se observa el directorio: el archivo puede no existir todavía o ser
+ * reemplazado (cambia el inode y un watch sobre el archivo se pierde).
+ * `description` identifica la configuración en los mensajes de error.
+ */
+export function watchConfigFile(configPath, onChange, description) {
+  const directory = path.dirname(configPath)
+  const fileName = path.basename(configPath)
+  let reloadTimer = null
+  try {
+    const watcher = fs.watch(directory, (eventType, changed) => {
+      if (changed && changed !== fileName) {
+        return
+      }
+      clearTimeout(reloadTimer)
+      reloadTimer = setTimeout(onChange, RELOAD_DEBOUNCE_MS)
+    })
+    watcher.on('error', error => {
+      console.error(`Error observando la configuración de ${description}:`, error.message)
+    })
+    watcher.unref()
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Error desconocido'
+    console.warn(`[WARN] No se puede observar ${directory}, sin recarga en caliente:`, message)
+  }
+}
@@ -0,0 +1,65 @@
+import fs from 'fs/promises'
+
+// Columnas de la línea "cpu" de /proc/stat (en ticks)
+const PROC_STAT_FIELDS = ['user', 'nice', 'system', 'idle', 'iowait', 'irq', 'softirq', 'steal']
+
+async function readProcStat() {
+  const content = await fs.readFile('/proc/stat', 'utf8')
+  const line = content.split('\n').find(item => item.startsWith('cpu '))
+  if (!line) {
+    return null
+  }
+  const values = line.trim().split(/\s+/).slice(1).map(Number)
+  return Object.fromEntries(PROC_STAT_FIELDS.map((field, index) => [field, values[index] || 0]))
+}
+
+/**
+ * Reparto del tiempo de CPU (user/system/iowait/steal/irq/nice, en %, sin
+ * redondear) entre dos llamadas a `sample()`. Lee /proc/stat porque systeminformation no
+ * informa iowait; fuera de Linux usa `fallback` (resultado de si.currentLoad()).
+ */
+export function createCpuTimesSampler() {
+  let previous = null
+
+  async function sample(fallback) {
+    let current = null
+    try {
+      current = await readProcStat()
+    } catch {
+      current = null
+    }
+
+    if (!current) {
+      return {
+        user: fallback.currentLoadUser + fallback.currentLoadNice,
+        system: fallback.currentLoadSystem,
+        iowait: null,
+        steal: fallback.currentLoadSteal,
+        irq: fallback.currentLoadIrq
+      }
+    }
+
+    const last = previous
+    previous = current
+    if (!last) {
+      return null
+    }
+
+    const delta = Object.fromEntries(PROC_STAT_FIELDS.map(field => [field, Math.max(0, current[field] - last[field])]))
+    const total = PROC_STAT_FIELDS.reduce((sum, field) => sum + delta[field], 0)
+    if (total === 0) {
+      return null
+    }
+
+    const percent = (ticks) => (ticks / total) * 100
+    return {
+      user: percent(delta.user + delta.nice),
+      system: percent(delta.system),
+      iowait: percent(delta.iowait),
+      steal: percent(delta.steal),
+      irq: percent(delta.irq + delta.softirq)
+    }
+  }
+
+  return { sample }
+}
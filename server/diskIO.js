@@ -0,0 +1,118 @@
+import fs from 'fs/promises'
+import si from 'systeminformation'
+
+const SECTOR_BYTES = 512
+// Dispositivos virtuales sin E/S real de disco
+const IGNORED_DEVICES = /^(loop|ram|zram|fd|sr)\d/
+
+const round = (value) => Math.round(value * 10) / 10
+
+// /proc/diskstats: contadores acumulados por dispositivo de bloque
+async function readDiskStats() {
+  const content = await fs.readFile('/proc/diskstats', 'utf8')
+  const devices = new Map()
+  for (const line of content.split('\n')) {
+    const parts = line.trim().split(/\s+/)
+    if (parts.length < 14 || IGNORED_DEVICES.test(parts[2])) {
+      continue
+    }
+    const values = parts.slice(3).map(Number)
+    devices.set(parts[2], {
+      reads: values[0],
+      readSectors: values[2],
+      readMs: values[3],
+      writes: values[4],
+      writeSectors: values[6],
+      writeMs: values[7],
+      ioMs: values[9]
+    })
+  }
+
+  // Las particiones (sda1, nvme0n1p1) ya están contadas en su disco
+  for (const name of [...devices.keys()]) {
+    const parent = [...devices.keys()].find(candidate => (
+      candidate !== name && name.startsWith(candidate) && /^p?\d+$/.test(name.slice(candidate.length))
+    ))
+    if (parent) {
+      devices.delete(name)
+    }
+  }
+  return devices
+}
+
+/**
+ * E/S por dispositivo de bloque entre dos llamadas a `sample()`: bytes
+ * leídos/escritos por segundo, IOPS, `utilization` (% del tiempo con E/S en
+ * curso) y `awaitMs` (latencia media por operación). Fuera de Linux usa
+ * si.disksIO/si.fsStats y devuelve un único dispositivo "total" sin latencia.
+ */
+export function createDiskIOSampler() {
+  let previous = null
+  let useProc = true
+
+  async function sampleFallback(now) {
+    const [io, stats] = await Promise.all([si.disksIO(), si.fsStats()])
+    const current = { time: now, reads: io.rIO, writes: io.wIO, readBytes: stats.rx, writeBytes: stats.wx }
+    const last = previous
+    previous = current
+    const seconds = last ? (now - last.time) / 1000 : 0
+    if (!last || seconds <= 0) {
+      return []
+    }
+    const rate = (field) => round(Math.max(0, current[field] - last[field]) / seconds)
+    return [{
+      device: 'total',
+      readBytesPerSec: rate('readBytes'),
+      writeBytesPerSec: rate('writeBytes'),
+      readIops: rate('reads'),
+      writeIops: rate('writes'),
+      utilization: null,
+      awaitMs: null
+    }]
+  }
+
+  async function sample() {
+    const now = Date.now()
+    if (!useProc) {
+      return sampleFallback(now)
+    }
+
+    let devices
+    try {
+      devices = await readDiskStats()
+    } catch {
+      useProc = false
+      previous = null
+      return sampleFallback(now)
+    }
+
+    const last = previous
+    previous = { time: now, devices }
+    const seconds = last ? (now - last.time) / 1000 : 0
+    if (!last || seconds <= 0) {
+      return []
+    }
+
+    const result = []
+    for (const [device, current] of devices) {
+      const before = last.devices.get(device)
+      if (!before) {
+        continue
+      }
+      const delta = (field) => Math.max(0, current[field] - before[field])
+      const operations = delta('reads') + delta('writes')
+      result.push({
+        device,
+        readBytesPerSec: round((delta('readSectors') * SECTOR_BYTES) / seconds),
+        writeBytesPerSec: round((delta('writeSectors') * SECTOR_BYTES) / seconds),
+        readIops: round(delta('reads') / seconds),
+        writeIops: round(delta('writes') / seconds),
+        utilization: round(Math.min(100, (delta('ioMs') / (seconds * 1000)) * 100)),
+        awaitMs: operations > 0 ? round((delta('readMs') + delta('writeMs')) / operations) : 0
+      })
+    }
+    return result.sort((a, b) => a.device.localeCompare(b.device))
+  }
+
+  return { sample }
+}
@@ -0,0 +1,72 @@
+import fs from 'fs/promises'
+import si from 'systeminformation'
+
+// Sistemas de archivos virtuales que no ocupan disco real
+export const DEFAULT_EXCLUDED_FS_TYPES = [
+  'tmpfs', 'devtmpfs', 'ramfs', 'squashfs', 'proc', 'sysfs', 'devpts', 'mqueue',
+  'cgroup', 'cgroup2', 'nsfs', 'autofs', 'efivarfs', 'tracefs', 'debugfs', 'fuse.lxcfs'
+]
+
+const roundPercent = (value) => Math.round(value * 10) / 10
+
+// Inodos vía statfs (no todos los sistemas de archivos los informan)
+async function readInodes(mount) {
+  try {
+    const stats = await fs.statfs(mount)
+    if (!stats.files) {
+      return null
+    }
+    const used = stats.files - stats.ffree
+    return {
+      total: stats.files,
+      used,
+      free: stats.ffree,
+      use: roundPercent((used / stats.files) * 100)
+    }
+  } catch {
+    return null
+  }
+}
+
+const matchesMount = (mount, prefixes) => prefixes.some(prefix => (
+  mount === prefix || mount.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`)
+))
+
+/**
+ * Uso de cada punto de montaje (tamaños en bytes). Se excluyen los tipos de
+ * `excludeTypes` y los montajes bajo `excludeMounts`; si un mismo dispositivo
+ * aparece montado varias veces (bind mounts) se informa una sola vez, con la
+ * ruta más corta.
+ */
+export async function collectDiskUsage({ excludeTypes = DEFAULT_EXCLUDED_FS_TYPES, excludeMounts = [] } = {}) {
+  const excludedTypes = new Set(excludeTypes.map(type => type.toLowerCase()))
+  const byDevice = new Map()
+
+  for (const disk of await si.fsSize()) {
+    if (!disk.mount || !disk.size || excludedTypes.has(String(disk.type).toLowerCase())) {
+      continue
+    }
+    if (matchesMount(disk.mount, excludeMounts)) {
+      continue
+    }
+    const current = byDevice.get(disk.fs)
+    if (!current || disk.mount.length < current.mount.length) {
+      byDevice.set(disk.fs, disk)
+    }
+  }
+
+  const disks = [...byDevice.values()].sort((a, b) => a.mount.localeCompare(b.mount))
+  return Promise.all(disks.map(async disk => {
+    const available = disk.available ?? disk.size - disk.used
+    return {
+      mount: disk.mount,
+      device: disk.fs,
+      type: disk.type,
+      size: disk.size,
+      used: disk.size - available,
+      available,
+      use: roundPercent(disk.use ?? ((disk.size - available) / disk.size) * 100),
+      inodes: await readInodes(disk.mount)
+    }
+  }))
+}
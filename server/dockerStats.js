@@ -0,0 +1,171 @@
+import fs from 'fs/promises'
+import http from 'http'
+
+export const DEFAULT_DOCKER_SOCKET = '/var/run/docker.sock'
+
+const REQUEST_TIMEOUT_MS = 5000
+
+const round = (value) => Math.round(value * 10) / 10
+
+// GET contra la Engine API por el socket unix; rechaza si el estado no es 2xx
+// (el Error lleva `statusCode`)
+function dockerGet(socketPath, requestPath) {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ socketPath, path: requestPath, method: 'GET' }, (res) => {
+      let body = ''
+      res.setEncoding('utf8')
+      res.on('data', (chunk) => {
+        body += chunk
+      })
+      res.on('end', () => {
+        if (res.statusCode < 200 || res.statusCode >= 300) {
+          const error = new Error(`Docker API ${res.statusCode} en ${requestPath}`)
+          error.statusCode = res.statusCode
+          reject(error)
+          return
+        }
+        try {
+          resolve(JSON.parse(body))
+        } catch {
+          reject(new Error(`Respuesta invalida de Docker API en ${requestPath}`))
+        }
+      })
+    })
+    req.setTimeout(REQUEST_TIMEOUT_MS, () => {
+      req.destroy(new Error(`Docker API sin respuesta en ${requestPath}`))
+    })
+    req.on('error', reject)
+    req.end()
+  })
+}
+
+// Igual que `docker stats`: delta de CPU del contenedor sobre el delta del sistema
+function cpuPercent(stats) {
+  const cpu = stats.cpu_stats
+  const precpu = stats.precpu_stats
+  if (!cpu?.cpu_usage || !precpu?.cpu_usage) {
+    return 0
+  }
+  const cpuDelta = cpu.cpu_usage.total_usage - precpu.cpu_usage.total_usage
+  const systemDelta = (cpu.system_cpu_usage ?? 0) - (precpu.system_cpu_usage ?? 0)
+  const onlineCpus = cpu.online_cpus || cpu.cpu_usage.percpu_usage?.length || 1
+  if (cpuDelta <= 0 || systemDelta <= 0) {
+    return 0
+  }
+  return round((cpuDelta / systemDelta) * onlineCpus * 100)
+}
+
+// Memoria en uso sin la cache de páginas (cgroup v1: cache, v2: inactive_file)
+function memoryUsage(stats) {
+  const memory = stats.memory_stats ?? {}
+  const cache = memory.stats?.inactive_file ?? memory.stats?.cache ?? 0
+  return Math.max(0, (memory.usage ?? 0) - cache)
+}
+
+function networkTotals(stats) {
+  let rxBytes = 0
+  let txBytes = 0
+  for (const network of Object.values(stats.networks ?? {})) {
+    rxBytes += network.rx_bytes ?? 0
+    txBytes += network.tx_bytes ?? 0
+  }
+  return { rxBytes, txBytes }
+}
+
+function blockIOTotals(stats) {
+  let readBytes = 0
+  let writeBytes = 0
+  for (const entry of stats.blkio_stats?.io_service_bytes_recursive ?? []) {
+    const op = String(entry.op).toLowerCase()
+    if (op === 'read') readBytes += entry.value
+    if (op === 'write') writeBytes += entry.value
+  }
+  return { readBytes, writeBytes }
+}
+
+/**
+ * Métricas por contenedor leídas de la Docker Engine API en `socketPath`:
+ * estado, CPU %, memoria (uso/límite), red y E/S de bloque acumuladas y
+ * reinicios. `available()` indica si el socket existe; sin socket el
+ * colector queda deshabilitado y `collect()` devuelve null. Un contenedor que
+ * se borra entre la lista y el detalle se omite; si su detalle falla por otro
+ * motivo se informa solo con los datos de la lista y `error`.
+ */
+export function createDockerCollector({ socketPath = DEFAULT_DOCKER_SOCKET } = {}) {
+  async function available() {
+    if (!socketPath) {
+      return false
+    }
+    try {
+      const stat = await fs.stat(socketPath)
+      return stat.isSocket()
+    } catch {
+      return false
+    }
+  }
+
+  const describeContainer = summary => ({
+    id: summary.Id.slice(0, 12),
+    name: (summary.Names?.[0] ?? summary.Id).replace(/^\//, ''),
+    image: summary.Image,
+    state: summary.State,
+    status: summary.Status
+  })
+
+  async function inspectContainer(summary) {
+    const id = encodeURIComponent(summary.Id)
+    const running = summary.State === 'running'
+    // stream=false espera una segunda muestra para completar precpu_stats
+    const [details, stats] = await Promise.all([
+      dockerGet(socketPath, `/containers/${id}/json`),
+      running ? dockerGet(socketPath, `/containers/${id}/stats?stream=false`) : null
+    ])
+
+    const memoryLimit = stats?.memory_stats?.limit ?? null
+    const memoryUsed = stats ? memoryUsage(stats) : null
+    return {
+      ...describeContainer(summary),
+      restartCount: details.RestartCount ?? 0,
+      cpuPercent: stats ? cpuPercent(stats) : null,
+      memoryUsedBytes: memoryUsed,
+      memoryLimitBytes: memoryLimit,
+      memoryPercent: memoryUsed !== null && memoryLimit ? round((memoryUsed / memoryLimit) * 100) : null,
+      network: stats ? networkTotals(stats) : null,
+      blockIO: stats ? blockIOTotals(stats) : null,
+      error: null
+    }
+  }
+
+  async function collect() {
+    if (!(await available())) {
+      return null
+    }
+    const containers = await dockerGet(socketPath, '/containers/json?all=1')
+    const outcomes = await Promise.allSettled(containers.map(inspectContainer))
+    const result = []
+    outcomes.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        result.push(outcome.value)
+        return
+      }
+      // 404: se borró después de listarlo
+      if (outcome.reason?.statusCode === 404) {
+        return
+      }
+      result.push({
+        ...describeContainer(containers[index]),
+        restartCount: null,
+        cpuPercent: null,
+        memoryUsedBytes: null,
+        memoryLimitBytes: null,
+        memoryPercent: null,
+        network: null,
+        blockIO: null,
+        error: outcome.reason instanceof Error ? outcome.reason.message : 'Error desconocido'
+      })
+    })
+    return result.sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  return { available, collect }
+}
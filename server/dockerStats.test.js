@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs/promises'
+import http from 'node:http'
+import os from 'node:os'
+import path from 'node:path'
+import { after, before, test } from 'node:test'
+import { createDockerCollector } from './dockerStats.js'
+
+// Docker Engine API falsa en un socket unix: `web` corre, `gone` se borra
+// entre la lista y el detalle y `broken` falla al pedir sus estadísticas
+const CONTAINERS = [
+  { Id: 'a'.repeat(64), Names: ['/web'], Image: 'nginx:1', State: 'running', Status: 'Up 2 hours' },
+  { Id: 'b'.repeat(64), Names: ['/gone'], Image: 'busybox', State: 'running', Status: 'Up 1 second' },
+  { Id: 'c'.repeat(64), Names: ['/broken'], Image: 'redis:7', State: 'running', Status: 'Up 5 minutes' },
+  { Id: 'd'.repeat(64), Names: ['/batch'], Image: 'alpine', State: 'exited', Status: 'Exited (0) 1 hour ago' }
+]
+
+const WEB_STATS = {
+  cpu_stats: { cpu_usage: { total_usage: 400 }, system_cpu_usage: 2000, online_cpus: 2 },
+  precpu_stats: { cpu_usage: { total_usage: 200 }, system_cpu_usage: 1000 },
+  memory_stats: { usage: 300, limit: 1000, stats: { inactive_file: 100 } },
+  networks: { eth0: { rx_bytes: 10, tx_bytes: 20 }, eth1: { rx_bytes: 1, tx_bytes: 2 } },
+  blkio_stats: { io_service_bytes_recursive: [{ op: 'Read', value: 5 }, { op: 'Write', value: 7 }] }
+}
+
+let directory
+let socketPath
+let server
+
+function reply(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+before(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'monitor-docker-test-'))
+  socketPath = path.join(directory, 'docker.sock')
+  server = http.createServer((req, res) => {
+    const [, kind, id, action] = req.url.split('?')[0].split('/')
+    if (req.url === '/containers/json?all=1') {
+      return reply(res, 200, CONTAINERS)
+    }
+    const name = CONTAINERS.find(container => container.Id === id)?.Names[0]
+    if (kind !== 'containers' || !name || name === '/gone') {
+      return reply(res, 404, { message: 'No such container' })
+    }
+    if (action === 'json') {
+      return reply(res, 200, { RestartCount: name === '/web' ? 3 : 0 })
+    }
+    if (name === '/broken') {
+      return reply(res, 500, { message: 'stats failed' })
+    }
+    reply(res, 200, WEB_STATS)
+  })
+  await new Promise(resolve => server.listen(socketPath, resolve))
+})
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve))
+  await fs.rm(directory, { recursive: true, force: true })
+})
+
+test('sin socket el colector queda deshabilitado', async () => {
+  const collector = createDockerCollector({ socketPath: path.join(directory, 'missing.sock') })
+  assert.equal(await collector.available(), false)
+  assert.equal(await collector.collect(), null)
+})
+
+test('calcula las metricas de cada contenedor como docker stats', async () => {
+  const containers = await createDockerCollector({ socketPath }).collect()
+  const web = containers.find(container => container.name === 'web')
+  assert.deepEqual(web, {
+    id: 'a'.repeat(12),
+    name: 'web',
+    image: 'nginx:1',
+    state: 'running',
+    status: 'Up 2 hours',
+    restartCount: 3,
+    cpuPercent: 40,
+    memoryUsedBytes: 200,
+    memoryLimitBytes: 1000,
+    memoryPercent: 20,
+    network: { rxBytes: 11, txBytes: 22 },
+    blockIO: { readBytes: 5, writeBytes: 7 },
+    error: null
+  })
+
+  const batch = containers.find(container => container.name === 'batch')
+  assert.equal(batch.cpuPercent, null)
+  assert.equal(batch.network, null)
+})
+
+test('omite el contenedor borrado y marca el que falla sin cortar la lista', async () => {
+  const containers = await createDockerCollector({ socketPath }).collect()
+  assert.deepEqual(containers.map(container => container.name), ['batch', 'broken', 'web'])
+
+  const broken = containers.find(container => container.name === 'broken')
+  assert.equal(broken.state, 'running')
+  assert.equal(broken.restartCount, null)
+  assert.equal(broken.cpuPercent, null)
+  assert.match(broken.error, /Docker API 500/)
+})
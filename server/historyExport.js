@@ -0,0 +1,90 @@
+import { once } from 'events'
+
+export const EXPORT_FORMATS = ['csv', 'ndjson']
+
+export const EXPORT_CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8'
+}
+
+// Líneas por cada write(): evita un write por muestra sin acumular el rango
+const LINES_PER_CHUNK = 500
+
+// Comillas solo si hace falta (montajes o interfaces con comas, comillas, etc.)
+function csvCell(value) {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Columnas CSV: las muestras crudas tienen un valor por campo; los niveles
+// agregados (1m, 1h) suman min y max de cada intervalo
+function csvColumns(fields, resolution) {
+  return resolution === 'raw'
+    ? fields
+    : fields.flatMap(field => [field, `${field}:min`, `${field}:max`])
+}
+
+function csvLine(entry, fields, resolution) {
+  const cells = [entry.t, new Date(entry.t).toISOString()]
+  for (const field of fields) {
+    cells.push(entry.avg[field] ?? '')
+    if (resolution !== 'raw') {
+      cells.push(entry.min[field] ?? '', entry.max[field] ?? '')
+    }
+  }
+  return cells.join(',')
+}
+
+function pick(values, fields) {
+  const picked = {}
+  for (const field of fields) {
+    if (field in values) {
+      picked[field] = values[field]
+    }
+  }
+  return picked
+}
+
+// NDJSON: mismo formato que los archivos del historial ({ t, v } o { t, n, min, avg, max })
+function ndjsonLine(entry, fields, resolution) {
+  return JSON.stringify(resolution === 'raw'
+    ? { t: entry.t, v: pick(entry.avg, fields) }
+    : { t: entry.t, n: entry.n, min: pick(entry.min, fields), avg: pick(entry.avg, fields), max: pick(entry.max, fields) })
+}
+
+/**
+ * Escribe el resultado de metricsHistory.exportRange() en `res` a medida que
+ * recorre las entradas, respetando el backpressure del socket. Corta si el
+ * cliente cierra la conexión.
+ */
+export async function writeHistoryExport(res, { format, resolution, fields, entries }) {
+  const toLine = format === 'csv' ? csvLine : ndjsonLine
+  let closed = false
+  res.on('close', () => {
+    closed = true
+  })
+
+  let chunk = []
+  if (format === 'csv') {
+    chunk.push(['timestamp', 'time', ...csvColumns(fields, resolution)].map(csvCell).join(','))
+  }
+
+  for (const entry of entries) {
+    if (closed) {
+      return
+    }
+    chunk.push(toLine(entry, fields, resolution))
+    if (chunk.length >= LINES_PER_CHUNK) {
+      const flushed = res.write(`${chunk.join('\n')}\n`)
+      chunk = []
+      if (!flushed) {
+        await Promise.race([once(res, 'drain'), once(res, 'close')])
+      }
+    }
+  }
+
+  if (chunk.length > 0 && !closed) {
+    res.write(`${chunk.join('\n')}\n`)
+  }
+  res.end()
+}
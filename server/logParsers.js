@@ -0,0 +1,72 @@
+import { extractLineTimestamp } from './logReader.js'
+
+// Cadena entre comillas con escapes de nginx (\" y \x22)
+const QUOTED = '"((?:[^"\\\\]|\\\\.)*)"'
+
+// Formato "combined" de nginx, con $request_time opcional al final
+// (como número suelto o como rt=/request_time=)
+const NGINX_ACCESS_LINE = new RegExp(
+  `^(\\S+) \\S+ (\\S+) \\[([^\\]]+)\\] ${QUOTED} (\\d{3}) (\\d+|-) ${QUOTED} ${QUOTED}(.*)$`
+)
+const REQUEST_TIME = /(?:^|\s)(?:rt=|request_time=)?(\d+\.\d+)(?:\s|$)/
+
+// 2024/01/15 10:20:30 [error] 1234#5678: *99 mensaje
+const NGINX_ERROR_LINE = /^(\d{4}\/\d{2}\/\d{2} \d{2}:\d{2}:\d{2}) \[(\w+)\] (\d+)#(\d+): (?:\*(\d+) )?(.*)$/
+
+const unescapeNginx = (value) => value
+  .replace(/\\x([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(Number.parseInt(hex, 16)))
+  .replace(/\\(["\\])/g, '$1')
+
+const nullIfDash = (value) => (value === '-' || value === '' ? null : value)
+
+export function parseNginxAccessLine(line) {
+  const match = NGINX_ACCESS_LINE.exec(line)
+  if (!match) {
+    return null
+  }
+
+  const [, ip, user, timeLocal, request, status, bytes, referer, userAgent, rest] = match
+  const [method = null, path = null, protocol = null] = unescapeNginx(request).split(' ')
+  const requestTime = REQUEST_TIME.exec(rest)
+
+  return {
+    ip,
+    user: nullIfDash(user),
+    time: extractLineTimestamp(`[${timeLocal}]`),
+    method: path ? method : null,
+    path: path ?? nullIfDash(request),
+    protocol,
+    status: Number(status),
+    bytes: bytes === '-' ? 0 : Number(bytes),
+    referer: nullIfDash(unescapeNginx(referer)),
+    userAgent: nullIfDash(unescapeNginx(userAgent)),
+    requestTime: requestTime ? Number(requestTime[1]) : null
+  }
+}
+
+export function parseNginxErrorLine(line) {
+  const match = NGINX_ERROR_LINE.exec(line)
+  if (!match) {
+    return null
+  }
+
+  const [, time, level, pid, tid, connection, message] = match
+  return {
+    time: extractLineTimestamp(time),
+    level,
+    pid: Number(pid),
+    tid: Number(tid),
+    connection: connection ? Number(connection) : null,
+    message
+  }
+}
+
+// Parser por formato de fuente; 'text' no tiene estructura
+export const LOG_PARSERS = Object.freeze({
+  'nginx-access': parseNginxAccessLine,
+  'nginx-error': parseNginxErrorLine
+})
+
+export function getLogParser(format) {
+  return LOG_PARSERS[format] || null
+}
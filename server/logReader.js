@@ -0,0 +1,490 @@
+import fs from 'fs/promises'
+import { createReadStream, createWriteStream, rmSync } from 'fs'
+import os from 'os'
+import path from 'path'
+import { pipeline } from 'stream/promises'
+import vm from 'vm'
+import zlib from 'zlib'
+
+const CHUNK_SIZE = 64 * 1024
+const NEWLINE = 0x0a
+// Tolerancia para líneas fuera de orden (nginx registra al terminar el request)
+const OUT_OF_ORDER_TOLERANCE_MS = 60 * 1000
+// Tiempo máximo para evaluar una regex del usuario sobre un lote de líneas:
+// un patrón con backtracking catastrófico se corta en lugar de bloquear el proceso
+const REGEX_BATCH_TIMEOUT_MS = 500
+
+const MONTHS = {
+  Jan: 0, Feb: 1, Mar: 2, Apr: 3, May: 4, Jun: 5,
+  Jul: 6, Aug: 7, Sep: 8, Oct: 9, Nov: 10, Dec: 11
+}
+
+// [10/Oct/2000:13:55:36 -0700] (access log de nginx)
+const NGINX_ACCESS_TIME = /\[(\d{2})\/([A-Z][a-z]{2})\/(\d{4}):(\d{2}):(\d{2}):(\d{2}) ([+-])(\d{2})(\d{2})\]/
+// 2024/01/15 10:20:30 (error log de nginx, hora local)
+const NGINX_ERROR_TIME = /^(\d{4})\/(\d{2})\/(\d{2}) (\d{2}):(\d{2}):(\d{2})/
+// 2024-01-15T10:20:30.123Z o 2024-01-15 10:20:30 (logs de aplicación)
+const ISO_TIME = /(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2}):(\d{2})(\.\d+)?(Z|[+-]\d{2}:?\d{2})?/
+
+/**
+ * Extrae la marca de tiempo de una línea de log (epoch ms) o null si la
+ * línea no tiene una reconocible (p.ej. continuación de un stack trace).
+ */
+export function extractLineTimestamp(line) {
+  let match = NGINX_ACCESS_TIME.exec(line)
+  if (match) {
+    const [, day, month, year, hours, minutes, seconds, sign, offsetHours, offsetMinutes] = match
+    if (!(month in MONTHS)) {
+      return null
+    }
+    const utc = Date.UTC(Number(year), MONTHS[month], Number(day), Number(hours), Number(minutes), Number(seconds))
+    const offsetMs = (Number(offsetHours) * 60 + Number(offsetMinutes)) * 60 * 1000
+    return sign === '+' ? utc - offsetMs : utc + offsetMs
+  }
+
+  match = NGINX_ERROR_TIME.exec(line)
+  if (match) {
+    const [, year, month, day, hours, minutes, seconds] = match.map(Number)
+    return new Date(year, month - 1, day, hours, minutes, seconds).getTime()
+  }
+
+  match = ISO_TIME.exec(line)
+  if (match) {
+    const [, year, month, day, hours, minutes, seconds, fraction = '', zone = ''] = match
+    const normalizedZone = zone.length === 5 ? `${zone.slice(0, 3)}:${zone.slice(3)}` : zone
+    const timestamp = Date.parse(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}${fraction}${normalizedZone}`)
+    return Number.isFinite(timestamp) ? timestamp : null
+  }
+
+  return null
+}
+
+/**
+ * Lee un archivo desde el final hacia el principio y entrega lotes de líneas
+ * (de la más nueva a la más vieja). `scan.bytes` se actualiza con los bytes leídos.
+ * Con `end` se empieza en ese byte en lugar del final del archivo.
+ * El corte de líneas se hace sobre bytes para no romper caracteres UTF-8.
+ */
+export async function* readLineBatchesBackward(filePath, scan = { bytes: 0 }, { end = Infinity } = {}) {
+  const fileHandle = await fs.open(filePath, 'r')
+  try {
+    const stats = await fileHandle.stat()
+    let position = Math.min(end, stats.size)
+    let remainder = Buffer.alloc(0)
+    let isFirstBatch = true
+
+    while (position > 0) {
+      const readSize = Math.min(CHUNK_SIZE, position)
+      position -= readSize
+
+      const chunk = Buffer.alloc(readSize)
+      const { bytesRead } = await fileHandle.read(chunk, 0, readSize, position)
+      scan.bytes += bytesRead
+
+      const buffer = Buffer.concat([chunk.subarray(0, bytesRead), remainder])
+      const batch = []
+      let end = buffer.length
+      let index = end > 0 ? buffer.lastIndexOf(NEWLINE, end - 1) : -1
+
+      while (index !== -1) {
+        batch.push(buffer.toString('utf8', index + 1, end).replace(/\r$/, ''))
+        end = index
+        index = end > 0 ? buffer.lastIndexOf(NEWLINE, end - 1) : -1
+      }
+      remainder = buffer.subarray(0, end)
+
+      // El archivo normalmente termina en salto de línea: no es una línea vacía real
+      if (isFirstBatch && batch.length > 0 && batch[0] === '') {
+        batch.shift()
+      }
+      if (batch.length > 0) {
+        isFirstBatch = false
+        yield batch
+      }
+    }
+
+    if (remainder.length > 0) {
+      yield [remainder.toString('utf8').replace(/\r$/, '')]
+    }
+  } finally {
+    await fileHandle.close()
+  }
+}
+
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Generaciones de un log rotado por logrotate, de la más nueva a la más vieja:
+ * el archivo actual (index 0) y sus hermanos `.1`, `.2.gz`, ...
+ * `rotatedAt` es el mtime de la generación (la última escritura antes de rotar).
+ */
+export async function listLogGenerations(filePath) {
+  const directory = path.dirname(filePath)
+  const baseName = path.basename(filePath)
+  const rotatedName = new RegExp(`^${escapeRegExp(baseName)}\\.(\\d+)(\\.gz)?$`)
+  const generations = []
+
+  try {
+    const stats = await fs.stat(filePath)
+    generations.push({ path: filePath, file: baseName, index: 0, compressed: false, size: stats.size, rotatedAt: null })
+  } catch (error) {
+    if (error?.code !== 'ENOENT') {
+      throw error
+    }
+  }
+
+  let names = []
+  try {
+    names = await fs.readdir(directory)
+  } catch (error) {
+    if (error?.code !== 'ENOENT') {
+      throw error
+    }
+  }
+
+  for (const name of names) {
+    const match = rotatedName.exec(name)
+    if (!match) {
+      continue
+    }
+    const generationPath = path.join(directory, name)
+    try {
+      const stats = await fs.stat(generationPath)
+      generations.push({
+        path: generationPath,
+        file: name,
+        index: Number(match[1]),
+        compressed: Boolean(match[2]),
+        size: stats.size,
+        rotatedAt: Math.round(stats.mtimeMs)
+      })
+    } catch {
+      // Lo borró logrotate entre readdir y stat
+    }
+  }
+
+  // Sin archivo actual ni rotados se informa el error del archivo original
+  if (generations.length === 0) {
+    await fs.stat(filePath)
+  }
+
+  return generations.sort((a, b) => a.index - b.index)
+}
+
+// Las generaciones .gz no se pueden leer hacia atrás: se descomprimen en
+// streaming a un temporal y se guardan las últimas para no repetirlo en cada
+// página. Cada entrada cuenta sus lectores: al salir del cache el temporal se
+// borra recién cuando la suelta el último.
+const GZIP_CACHE_SIZE = 2
+// clave -> { pending (promesa de la ruta temporal), users, evicted }
+const gzipCache = new Map()
+let gzipTempDir = null
+
+const removeGzipTemp = entry => {
+  entry.pending.then(tempPath => fs.rm(tempPath, { force: true })).catch(() => {})
+}
+
+function releaseGzipEntry(entry) {
+  entry.users--
+  if (entry.evicted && entry.users === 0) {
+    removeGzipTemp(entry)
+  }
+}
+
+function evictGzipEntry(key, entry) {
+  if (gzipCache.get(key) === entry) {
+    gzipCache.delete(key)
+  }
+  if (!entry.evicted) {
+    entry.evicted = true
+    if (entry.users === 0) {
+      removeGzipTemp(entry)
+    }
+  }
+}
+
+// Devuelve { path, release }: el temporal sigue existiendo hasta release()
+async function acquireDecompressedGeneration(generation) {
+  const stats = await fs.stat(generation.path)
+  const key = `${generation.path}:${stats.mtimeMs}:${stats.size}`
+  let entry = gzipCache.get(key)
+  if (entry) {
+    // Mover al final (más reciente)
+    gzipCache.delete(key)
+    gzipCache.set(key, entry)
+  } else {
+    if (!gzipTempDir) {
+      gzipTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'monitor-logs-'))
+      process.once('exit', () => rmSync(gzipTempDir, { recursive: true, force: true }))
+    }
+
+    const tempPath = path.join(gzipTempDir, `${Date.now()}-${Math.random().toString(36).slice(2)}-${generation.file}`.replace(/\.gz$/, ''))
+    const pending = pipeline(
+      createReadStream(generation.path),
+      zlib.createGunzip(),
+      createWriteStream(tempPath)
+    ).then(() => tempPath)
+    const created = { pending, users: 0, evicted: false }
+    // Si falla, sale del cache y se borra el temporal incompleto
+    pending.catch(() => {
+      evictGzipEntry(key, created)
+      fs.rm(tempPath, { force: true }).catch(() => {})
+    })
+    gzipCache.set(key, created)
+    entry = created
+  }
+
+  entry.users++
+  for (const [oldestKey, oldest] of gzipCache) {
+    if (gzipCache.size <= GZIP_CACHE_SIZE) {
+      break
+    }
+    evictGzipEntry(oldestKey, oldest)
+  }
+
+  const current = entry
+  let released = false
+  const release = () => {
+    if (!released) {
+      released = true
+      releaseGzipEntry(current)
+    }
+  }
+  try {
+    return { path: await current.pending, release }
+  } catch (error) {
+    release()
+    throw error
+  }
+}
+
+/**
+ * Como readLineBatchesBackward pero continúa por las generaciones rotadas:
+ * entrega { batch, generation } desde la línea más nueva del archivo actual
+ * hasta la más vieja de la última generación.
+ */
+export async function* readGenerationBatchesBackward(filePath, scan = { bytes: 0 }) {
+  for (const generation of await listLogGenerations(filePath)) {
+    let readablePath = generation.path
+    let release = null
+    if (generation.compressed) {
+      try {
+        ({ path: readablePath, release } = await acquireDecompressedGeneration(generation))
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Error desconocido'
+        console.error(`No se pudo descomprimir ${generation.path}:`, message)
+        continue
+      }
+    }
+
+    try {
+      for await (const batch of readLineBatchesBackward(readablePath, scan)) {
+        yield { batch, generation }
+      }
+    } catch (error) {
+      // Una generación rotada sin comprimir puede desaparecer mientras se lee
+      // (logrotate la borró). El temporal de un .gz no: sería un error propio
+      if (error?.code !== 'ENOENT' || generation.index === 0 || generation.compressed) {
+        throw error
+      }
+    } finally {
+      release?.()
+    }
+  }
+}
+
+// Evalúa la regex sobre un lote dentro de vm con timeout (el motor de V8
+// atiende la interrupción aun en medio del backtracking). Lanza un Error con
+// code 'ESEARCHTIMEOUT' si el lote no termina a tiempo.
+function createRegexMatcher(pattern) {
+  const context = vm.createContext({ pattern, lines: [] })
+  const script = new vm.Script('lines.map(line => pattern.test(line))')
+
+  return lines => {
+    context.lines = lines
+    try {
+      return script.runInContext(context, { timeout: REGEX_BATCH_TIMEOUT_MS })
+    } catch (error) {
+      if (error?.code !== 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+        throw error
+      }
+      const timeout = new Error('la expresion regular es demasiado costosa (revise cuantificadores anidados)')
+      timeout.code = 'ESEARCHTIMEOUT'
+      throw timeout
+    } finally {
+      context.lines = []
+    }
+  }
+}
+
+/**
+ * Filtro de búsqueda sobre líneas de log. Devuelve null si no hay criterios.
+ * `checkLines(lines)` responde por cada línea 'match', 'skip' o 'stop' (la
+ * línea es anterior al rango pedido y, como el archivo se lee hacia atrás, no
+ * hace falta seguir). `fields` ([{ name, value }]) exige igualdad sobre los
+ * campos que devuelve `parser` (las líneas que no se pueden interpretar se
+ * descartan). Lanza SyntaxError si `regex` es verdadero y el patrón es
+ * inválido; con `regex`, checkLines lanza un Error con code 'ESEARCHTIMEOUT'
+ * si el patrón tarda demasiado.
+ */
+export function createLogFilter({
+  query = '',
+  regex = false,
+  caseSensitive = false,
+  invert = false,
+  from = null,
+  to = null,
+  fields = [],
+  parser = null
+}) {
+  const hasFieldFilters = fields.length > 0 && Boolean(parser)
+  if (!query && from === null && to === null && !hasFieldFilters) {
+    return null
+  }
+
+  const flags = caseSensitive ? '' : 'i'
+  const pattern = query ? new RegExp(regex ? query : escapeRegExp(query), flags) : null
+  // El texto literal escapado no puede hacer backtracking: se evalúa directo
+  const matchLines = pattern && regex
+    ? createRegexMatcher(pattern)
+    : lines => lines.map(line => pattern.test(line))
+  const hasTimeRange = from !== null || to !== null
+
+  function checkTimeRange(line) {
+    const timestamp = extractLineTimestamp(line)
+    if (timestamp === null) {
+      return 'skip'
+    }
+    if (from !== null && timestamp < from) {
+      return timestamp < from - OUT_OF_ORDER_TOLERANCE_MS ? 'stop' : 'skip'
+    }
+    if (to !== null && timestamp > to) {
+      return 'skip'
+    }
+    return 'match'
+  }
+
+  function checkFields(line) {
+    const parsed = parser(line)
+    return Boolean(parsed) && fields.every(({ name, value }) => String(parsed[name] ?? '') === value)
+  }
+
+  return {
+    checkLines(lines) {
+      const verdicts = hasTimeRange ? lines.map(checkTimeRange) : lines.map(() => 'match')
+
+      if (pattern) {
+        const candidates = lines.filter((line, index) => verdicts[index] === 'match')
+        const matches = matchLines(candidates)
+        let next = 0
+        verdicts.forEach((verdict, index) => {
+          if (verdict === 'match' && matches[next++] === invert) {
+            verdicts[index] = 'skip'
+          }
+        })
+      }
+
+      if (hasFieldFilters) {
+        verdicts.forEach((verdict, index) => {
+          if (verdict === 'match' && !checkFields(lines[index])) {
+            verdicts[index] = 'skip'
+          }
+        })
+      }
+
+      return verdicts
+    }
+  }
+}
+
+// Agrupa las líneas de la página (ya ordenadas) en tramos consecutivos de
+// una misma generación. `endsGeneration` indica que el tramo contiene la línea
+// más nueva de una generación rotada: ahí se ubica el separador de rotación.
+function buildSegments(pageItems) {
+  const segments = []
+  pageItems.forEach((item, index) => {
+    const endsGeneration = item.newest && item.generation.index > 0
+    const last = segments[segments.length - 1]
+    if (last && last.index === item.generation.index) {
+      last.count++
+      last.endsGeneration ||= endsGeneration
+      return
+    }
+    segments.push({
+      index: item.generation.index,
+      file: item.generation.file,
+      rotatedAt: item.generation.rotatedAt,
+      start: index,
+      count: 1,
+      endsGeneration
+    })
+  })
+  return segments.map(({ index, ...segment }) => segment)
+}
+
+/**
+ * Página de un log contando desde el final: `offset` líneas (o coincidencias,
+ * si hay filtro) se saltean y se devuelven las `limit` siguientes. Al agotar
+ * el archivo actual sigue por las generaciones rotadas (`segments` indica de
+ * qué archivo viene cada tramo de líneas).
+ * Con `maxScanBytes` o `maxScanMs` se corta la búsqueda y se informa `truncated`.
+ * `redact` enmascara cada línea antes del filtro: lo oculto tampoco se
+ * puede encontrar buscando. `matchesThroughPage` cuenta las coincidencias
+ * desde el final hasta esta página inclusive (no el total del archivo).
+ */
+export async function readLogPage(filePath, {
+  limit,
+  offset,
+  order,
+  filter = null,
+  redact = null,
+  maxScanBytes = Infinity,
+  maxScanMs = Infinity
+}) {
+  const scan = { bytes: 0 }
+  const startedAt = Date.now()
+  const targetCount = offset + limit + 1
+  const collected = []
+  let exhausted = true
+  let truncated = false
+  let currentGeneration = null
+
+  outer:
+  for await (const { batch, generation } of readGenerationBatchesBackward(filePath, scan)) {
+    const lines = redact ? batch.map(redact) : batch
+    const verdicts = filter ? filter.checkLines(lines) : null
+    for (const [index, line] of lines.entries()) {
+      const verdict = verdicts ? verdicts[index] : 'match'
+      if (verdict === 'stop') {
+        break outer
+      }
+      if (verdict === 'match') {
+        // La primera coincidencia de cada generación es su línea más nueva
+        collected.push({ line, generation, newest: generation !== currentGeneration })
+        currentGeneration = generation
+        if (collected.length >= targetCount) {
+          exhausted = false
+          break outer
+        }
+      }
+    }
+
+    if (scan.bytes >= maxScanBytes || Date.now() - startedAt >= maxScanMs) {
+      exhausted = false
+      truncated = true
+      break
+    }
+  }
+
+  const pageItems = collected.slice(offset, offset + limit)
+  const orderedItems = order === 'asc' ? pageItems.reverse() : pageItems
+
+  return {
+    lines: orderedItems.map(item => item.line),
+    segments: buildSegments(orderedItems),
+    hasMore: !exhausted,
+    matchesThroughPage: Math.min(collected.length, offset + limit),
+    scannedBytes: scan.bytes,
+    truncated
+  }
+}
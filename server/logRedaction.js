@@ -0,0 +1,159 @@
+import net from 'net'
+
+const RULE_NAME = /^[a-z0-9][a-z0-9_-]{0,63}$/i
+const DEFAULT_REPLACEMENT = '***'
+
+// Candidatos; la dirección se confirma con net antes de enmascarar
+const IPV4_CANDIDATE = /\b\d{1,3}(?:\.\d{1,3}){3}\b/g
+const IPV6_CANDIDATE = /(?<![\w:.])(?:[0-9a-f]{0,4}:){2,7}[0-9a-f]{0,4}(?![\w:.])/gi
+const EMAIL = /[\w.+-]+@((?:[\w-]+\.)+[\w-]{2,})/g
+const AUTH_HEADER_VALUE = /\b(Bearer|Basic)(\s+)[\w.~+/=-]+/gi
+const SECRET_PARAM = /\b((?:access_|refresh_)?token|api_?key|password|passwd|pwd|secret|auth)=[^&\s"'#;]*/gi
+
+// 192.168.1.23 -> 192.168.1.x
+const maskIPv4 = address => `${address.slice(0, address.lastIndexOf('.'))}.x`
+
+// Se conservan hasta 3 grupos iniciales (el prefijo /48): 2001:db8:85a3::x
+function maskIPv6(address) {
+  const kept = address.split('::')[0].split(':').filter(Boolean).slice(0, 3)
+  return `${kept.join(':')}::x`
+}
+
+// Reglas incluidas, por nombre. Cada una recibe y devuelve una línea
+export const BUILTIN_REDACTIONS = Object.freeze({
+  ipv4: line => line.replace(IPV4_CANDIDATE, match => net.isIPv4(match) ? maskIPv4(match) : match),
+  ipv6: line => line.replace(IPV6_CANDIDATE, match => net.isIPv6(match) ? maskIPv6(match) : match),
+  email: line => line.replace(EMAIL, `${DEFAULT_REPLACEMENT}@$1`),
+  bearer: line => line.replace(AUTH_HEADER_VALUE, `$1$2${DEFAULT_REPLACEMENT}`),
+  'query-secrets': line => line.replace(SECRET_PARAM, match => `${match.slice(0, match.indexOf('=') + 1)}${DEFAULT_REPLACEMENT}`)
+})
+
+function parseCustomRule(entry, where) {
+  if (!entry || typeof entry !== 'object') {
+    throw new Error(`${where}: se esperaba { name, pattern, replacement }`)
+  }
+  const { name, pattern, flags = '', replacement = DEFAULT_REPLACEMENT } = entry
+  if (typeof name !== 'string' || !RULE_NAME.test(name)) {
+    throw new Error(`${where}: name invalido (letras, numeros, - y _)`)
+  }
+  if (Object.hasOwn(BUILTIN_REDACTIONS, name)) {
+    throw new Error(`${where}: "${name}" es una regla incluida`)
+  }
+  if (typeof pattern !== 'string' || !pattern) {
+    throw new Error(`${where} (${name}): falta pattern`)
+  }
+  if (typeof flags !== 'string' || !/^[imsu]*$/.test(flags)) {
+    throw new Error(`${where} (${name}): flags admite solo i, m, s, u`)
+  }
+  if (typeof replacement !== 'string') {
+    throw new Error(`${where} (${name}): replacement debe ser texto`)
+  }
+  let regex
+  try {
+    regex = new RegExp(pattern, `${flags}g`)
+  } catch (error) {
+    throw new Error(`${where} (${name}): pattern invalido (${error.message})`)
+  }
+  return [name, line => line.replace(regex, replacement)]
+}
+
+function parseRuleList(list, known, where) {
+  if (!Array.isArray(list) || list.some(name => typeof name !== 'string')) {
+    throw new Error(`${where}: se esperaba una lista de nombres de regla`)
+  }
+  const unknown = list.filter(name => !Object.hasOwn(known, name))
+  if (unknown.length > 0) {
+    throw new Error(`${where}: regla desconocida ${unknown.join(', ')} (validas: ${Object.keys(known).join(', ')})`)
+  }
+  return Object.freeze([...new Set(list)])
+}
+
+function parseRuleMap(map, known, where) {
+  if (map === undefined) {
+    return Object.freeze({})
+  }
+  if (!map || typeof map !== 'object' || Array.isArray(map)) {
+    throw new Error(`${where}: se esperaba un objeto { nombre: [reglas] }`)
+  }
+  return Object.freeze(Object.fromEntries(
+    Object.entries(map).map(([name, list]) => [name, parseRuleList(list, known, `${where}.${name}`)])
+  ))
+}
+
+/**
+ * Valida la configuración `redact` de una fuente:
+ * { rules: [reglas], custom: [{ name, pattern, flags, replacement }],
+ *   groups: { grupo: [reglas] }, users: { usuario del proxy: [reglas] },
+ *   tokens: { nombre de token: [reglas] } }.
+ * `rules` aplica a todos; `users`, `tokens` y `groups` la reemplazan para esa
+ * identidad o rol ([] = sin enmascarar). Usuarios y tokens van en mapas
+ * separados: un token no puede tomar el enmascarado de un usuario con su
+ * mismo nombre. Lanza Error con el primer problema.
+ */
+export function validateRedaction(config, where) {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error(`${where}: se esperaba un objeto { rules, custom, groups, users, tokens }`)
+  }
+  const custom = config.custom ?? []
+  if (!Array.isArray(custom)) {
+    throw new Error(`${where}.custom: se esperaba una lista`)
+  }
+  const known = {
+    ...BUILTIN_REDACTIONS,
+    ...Object.fromEntries(custom.map((entry, index) => parseCustomRule(entry, `${where}.custom[${index}]`)))
+  }
+
+  return Object.freeze({
+    known: Object.freeze(known),
+    rules: parseRuleList(config.rules ?? [], known, `${where}.rules`),
+    groups: parseRuleMap(config.groups, known, `${where}.groups`),
+    users: parseRuleMap(config.users, known, `${where}.users`),
+    tokens: parseRuleMap(config.tokens, known, `${where}.tokens`)
+  })
+}
+
+/**
+ * Reglas que aplican a quien consulta ([] si ve las líneas tal cual). `user`
+ * es el usuario del proxy y `token` el nombre del token (null si no vino por
+ * esa vía). Gana la entrada de `users` o `tokens`; si no, con varios grupos
+ * configurados se aplican solo las reglas que todos ellos comparten: como en
+ * las ACLs, cada grupo suma lo que puede ver, así que quien está en un grupo
+ * sin enmascarado ([]) ve las líneas tal cual.
+ */
+export function redactionRules(redaction, { user, token, groups }) {
+  if (!redaction) {
+    return []
+  }
+  if (user && Object.hasOwn(redaction.users, user)) {
+    return redaction.users[user]
+  }
+  if (token && Object.hasOwn(redaction.tokens, token)) {
+    return redaction.tokens[token]
+  }
+  const matched = groups.filter(group => Object.hasOwn(redaction.groups, group)).map(group => redaction.groups[group])
+  if (matched.length > 0) {
+    return matched.reduce((shared, list) => shared.filter(name => list.includes(name)))
+  }
+  return redaction.rules
+}
+
+// Función que enmascara una línea para quien consulta (ver redactionRules),
+// o null si no hay nada que enmascarar
+export function createRedactor(redaction, identity) {
+  const steps = redactionRules(redaction, identity).map(name => redaction.known[name])
+  return steps.length === 0 ? null : line => steps.reduce((current, step) => step(current), line)
+}
+
+// Ranking ({ value, count }) con los valores enmascarados: los que quedan
+// iguales (p.ej. IPs de la misma red) se suman. Tiene que recibir el ranking
+// completo y recortarse después; si no, faltan los conteos fuera del top
+export function redactRanking(entries, redact) {
+  const counts = new Map()
+  for (const { value, count } of entries) {
+    const masked = redact(String(value))
+    counts.set(masked, (counts.get(masked) || 0) + count)
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([value, count]) => ({ value, count }))
+}
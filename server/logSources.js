@@ -0,0 +1,101 @@
+import path from 'path'
+import { readJsonConfig, watchConfigFile } from './configFile.js'
+import { LOG_PARSERS } from './logParsers.js'
+import { validateRedaction } from './logRedaction.js'
+
+const SOURCE_ID = /^[a-z0-9][a-z0-9_-]{0,63}$/i
+const LOG_FORMATS = new Set(['text', ...Object.keys(LOG_PARSERS)])
+
+/**
+ * Valida el contenido del archivo de configuración y devuelve las fuentes
+ * normalizadas ({ id: { label, path, format, group, redact } }, en el orden
+ * declarado; `redact` es null si la fuente no enmascara datos).
+ * Acepta un arreglo o { sources: [...] }. Lanza Error con el primer problema.
+ */
+export function validateLogSources(config) {
+  const list = Array.isArray(config) ? config : config?.sources
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new Error('se esperaba una lista de fuentes no vacía')
+  }
+
+  const sources = {}
+  list.forEach((entry, index) => {
+    const where = `fuente #${index + 1}`
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`${where}: se esperaba un objeto`)
+    }
+
+    const { id, label, path: filePath, format = 'text', group, redact } = entry
+    if (typeof id !== 'string' || !SOURCE_ID.test(id)) {
+      throw new Error(`${where}: id invalido (letras, numeros, - y _)`)
+    }
+    if (id in sources) {
+      throw new Error(`${where}: id duplicado "${id}"`)
+    }
+    if (typeof filePath !== 'string' || !path.isAbsolute(filePath)) {
+      throw new Error(`${where} (${id}): path debe ser una ruta absoluta`)
+    }
+    if (!LOG_FORMATS.has(format)) {
+      throw new Error(`${where} (${id}): format debe ser uno de ${[...LOG_FORMATS].join(', ')}`)
+    }
+    if (label !== undefined && typeof label !== 'string') {
+      throw new Error(`${where} (${id}): label debe ser texto`)
+    }
+    if (group !== undefined && typeof group !== 'string') {
+      throw new Error(`${where} (${id}): group debe ser texto`)
+    }
+
+    sources[id] = Object.freeze({
+      label: label || id,
+      path: filePath,
+      format,
+      group: group || null,
+      redact: redact === undefined ? null : validateRedaction(redact, `${where} (${id}).redact`)
+    })
+  })
+
+  return Object.freeze(sources)
+}
+
+/**
+ * Fuentes de log declaradas en un archivo JSON. Si el archivo no existe se
+ * usan `defaults`; si es inválido al arrancar, `load()` lanza el error.
+ * `watch()` recarga ante cambios y conserva la configuración anterior si la
+ * nueva no valida.
+ */
+export function createLogSourceRegistry({ configPath, defaults }) {
+  let sources = defaults
+
+  async function readConfig() {
+    const config = await readJsonConfig(configPath)
+    return config === null ? null : validateLogSources(config)
+  }
+
+  async function load() {
+    const loaded = await readConfig()
+    sources = loaded ?? defaults
+    return loaded !== null
+  }
+
+  async function reload() {
+    try {
+      const loaded = await readConfig()
+      sources = loaded ?? defaults
+      console.log(`Fuentes de log recargadas (${Object.keys(sources).length})${loaded ? '' : ' - usando valores por defecto'}`)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Error desconocido'
+      console.error(`Configuración de logs invalida (${configPath}), se mantiene la anterior:`, message)
+    }
+  }
+
+  function watch() {
+    watchConfigFile(configPath, reload, 'logs')
+  }
+
+  return {
+    load,
+    watch,
+    get: (id) => (Object.hasOwn(sources, id) ? sources[id] : null),
+    entries: () => Object.entries(sources)
+  }
+}
@@ -0,0 +1,227 @@
+import fs from 'fs/promises'
+
+const POLL_INTERVAL_MS = 1000
+const READ_CHUNK_SIZE = 64 * 1024
+// Máximo a leer por ciclo para no bloquear el proceso ante ráfagas grandes
+const MAX_READ_PER_POLL = 1024 * 1024
+// Bytes finales leídos que se recuerdan para detectar un truncado seguido de
+// escrituras nuevas (el tamaño por sí solo no alcanza)
+const ANCHOR_SIZE = 64
+const NEWLINE = 0x0a
+
+/**
+ * Seguimiento estilo `tail -f` de un archivo de log.
+ *
+ * Mantiene abierto el descriptor del archivo para terminar de leer lo que se
+ * escribió antes de una rotación y detecta:
+ * - reemplazo (logrotate create/rename): cambia el inodo de la ruta
+ * - truncado (logrotate copytruncate): el tamaño queda por debajo de la posición
+ *   o los últimos bytes leídos ya no coinciden con el contenido actual
+ *
+ * `startAt` ({ ino, position }) permite retomar desde un punto conocido si el
+ * archivo sigue siendo el mismo; si no, se arranca desde el final actual.
+ * Los errores de lectura se informan con `onError` una vez por cada error
+ * distinto, no en cada ciclo.
+ */
+export function createLogTail(filePath, { onLines, onReset, onError, startAt } = {}) {
+  let handle = null
+  let ino = null
+  // Próximo byte a leer del archivo
+  let position = 0
+  // Bytes leídos después del último salto de línea: la línea incompleta,
+  // que puede terminar en medio de un carácter multibyte
+  let pending = Buffer.alloc(0)
+  let anchor = Buffer.alloc(0)
+  // idle -> starting -> running -> stopped (stop() puede llegar en cualquiera)
+  let state = 'idle'
+  let polling = false
+  let timer = null
+  let lastErrorMessage = null
+
+  const isStopped = () => state === 'stopped'
+
+  // Devuelve null si se detuvo mientras abría (el descriptor se cierra)
+  async function openCurrent(fromStart) {
+    const nextHandle = await fs.open(filePath, 'r')
+    let stats
+    try {
+      stats = await nextHandle.stat()
+    } catch (error) {
+      await nextHandle.close().catch(() => {})
+      throw error
+    }
+    if (isStopped()) {
+      await nextHandle.close().catch(() => {})
+      return null
+    }
+    handle = nextHandle
+    ino = stats.ino
+    position = fromStart ? 0 : stats.size
+    pending = Buffer.alloc(0)
+    anchor = Buffer.alloc(0)
+    return stats
+  }
+
+  // Se emiten solo las líneas completas: el corte en el último \n nunca parte
+  // un carácter UTF-8, así que la posición informada es exacta en bytes
+  function emitChunk(bytes) {
+    const data = pending.length > 0 ? Buffer.concat([pending, bytes]) : bytes
+    const lastNewline = data.lastIndexOf(NEWLINE)
+    if (lastNewline === -1) {
+      pending = data
+      return
+    }
+    pending = Buffer.from(data.subarray(lastNewline + 1))
+    const lines = data.toString('utf8', 0, lastNewline).split(/\r?\n/)
+    // Posición del final de la última línea completa (para retomar)
+    onLines?.(lines, { ino, position: position - pending.length })
+  }
+
+  function reportError(error) {
+    const message = error instanceof Error ? error.message : String(error)
+    if (message !== lastErrorMessage) {
+      lastErrorMessage = message
+      onError?.(error)
+    }
+  }
+
+  async function drain() {
+    const stats = await handle.stat()
+    let budget = MAX_READ_PER_POLL
+
+    while (position < stats.size && budget > 0) {
+      const readSize = Math.min(READ_CHUNK_SIZE, stats.size - position, budget)
+      const chunk = Buffer.alloc(readSize)
+      const { bytesRead } = await handle.read(chunk, 0, readSize, position)
+      if (bytesRead === 0) {
+        break
+      }
+      const bytes = chunk.subarray(0, bytesRead)
+      position += bytesRead
+      budget -= bytesRead
+      anchor = Buffer.concat([anchor, bytes]).subarray(-ANCHOR_SIZE)
+      emitChunk(bytes)
+    }
+
+    return position >= stats.size
+  }
+
+  async function wasTruncated() {
+    const stats = await handle.stat()
+    if (stats.size < position) {
+      return true
+    }
+    if (anchor.length === 0 || anchor.length > position) {
+      return false
+    }
+
+    const current = Buffer.alloc(anchor.length)
+    const { bytesRead } = await handle.read(current, 0, anchor.length, position - anchor.length)
+    return bytesRead !== anchor.length || !current.equals(anchor)
+  }
+
+  // Un ciclo de seguimiento: abrir si hace falta, detectar truncado y
+  // rotación, y leer lo nuevo
+  async function follow() {
+    if (!handle) {
+      // El archivo no existía (o desapareció): esperar a que se cree
+      try {
+        if (!await openCurrent(true)) {
+          return
+        }
+        onReset?.('created')
+      } catch (error) {
+        if (error?.code !== 'ENOENT') {
+          throw error
+        }
+        return
+      }
+    }
+
+    if (await wasTruncated()) {
+      position = 0
+      pending = Buffer.alloc(0)
+      anchor = Buffer.alloc(0)
+      onReset?.('truncated')
+    }
+
+    const drained = await drain()
+    if (!drained) {
+      return
+    }
+
+    let stats
+    try {
+      stats = await fs.stat(filePath)
+    } catch (error) {
+      if (error?.code !== 'ENOENT') {
+        throw error
+      }
+      // Rotado y todavía sin recrear: se sigue leyendo el descriptor viejo
+      return
+    }
+
+    if (stats.ino !== ino) {
+      await handle.close()
+      handle = null
+      if (!await openCurrent(true)) {
+        return
+      }
+      onReset?.('rotated')
+      await drain()
+    }
+  }
+
+  async function poll() {
+    if (polling || state !== 'running') {
+      return
+    }
+    polling = true
+
+    try {
+      await follow()
+      lastErrorMessage = null
+    } catch (error) {
+      if (!isStopped()) {
+        reportError(error)
+      }
+    } finally {
+      polling = false
+    }
+  }
+
+  async function start() {
+    if (state !== 'idle') {
+      return
+    }
+    state = 'starting'
+    try {
+      const stats = await openCurrent(false)
+      if (stats && startAt && startAt.ino === stats.ino && startAt.position <= stats.size) {
+        position = startAt.position
+      }
+    } catch (error) {
+      if (error?.code !== 'ENOENT') {
+        throw error
+      }
+    }
+
+    if (state === 'starting') {
+      state = 'running'
+      timer = setInterval(poll, POLL_INTERVAL_MS)
+      poll()
+    }
+  }
+
+  async function stop() {
+    state = 'stopped'
+    clearInterval(timer)
+    if (handle) {
+      const current = handle
+      handle = null
+      await current.close().catch(() => {})
+    }
+  }
+
+  return { start, stop }
+}
@@ -0,0 +1,253 @@
+import path from 'path'
+import { createNdjsonStore } from './ndjsonStore.js'
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+const COMPACT_INTERVAL_MS = 10 * MINUTE_MS
+
+const roundValue = (value) => Math.round(value * 100) / 100
+
+// Normaliza una entrada de cualquier nivel a { t, n, min, avg, max }.
+// Las muestras crudas se guardan como { t, v } para ocupar menos disco.
+function toAggregate(entry) {
+  if (entry.v) {
+    return { t: entry.t, n: 1, min: entry.v, avg: entry.v, max: entry.v }
+  }
+  return entry
+}
+
+function createBucket(t) {
+  return { t, n: 0, sum: {}, count: {}, min: {}, max: {} }
+}
+
+function addToBucket(bucket, aggregate) {
+  bucket.n += aggregate.n
+  for (const [field, avg] of Object.entries(aggregate.avg)) {
+    const min = aggregate.min[field] ?? avg
+    const max = aggregate.max[field] ?? avg
+    bucket.sum[field] = (bucket.sum[field] || 0) + avg * aggregate.n
+    bucket.count[field] = (bucket.count[field] || 0) + aggregate.n
+    bucket.min[field] = field in bucket.min ? Math.min(bucket.min[field], min) : min
+    bucket.max[field] = field in bucket.max ? Math.max(bucket.max[field], max) : max
+  }
+}
+
+function finalizeBucket(bucket) {
+  const avg = {}
+  for (const field of Object.keys(bucket.sum)) {
+    avg[field] = roundValue(bucket.sum[field] / bucket.count[field])
+  }
+  return { t: bucket.t, n: bucket.n, min: { ...bucket.min }, avg, max: { ...bucket.max } }
+}
+
+// Primer índice con t >= timestamp (las entradas están ordenadas por tiempo)
+function lowerBound(entries, timestamp) {
+  let low = 0
+  let high = entries.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (entries[mid].t < timestamp) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+  return low
+}
+
+/**
+ * Historial de métricas persistido en disco con niveles de retención:
+ * - raw: cada muestra tal cual, se conserva unas horas
+ * - 1m / 1h: min/avg/max por minuto y por hora, se conservan semanas
+ */
+export function createMetricsHistory({ dataDir, rawRetentionMs, minuteRetentionMs, hourRetentionMs }) {
+  const tiers = [
+    { name: 'raw', resolution: 0, retentionMs: rawRetentionMs },
+    { name: '1m', resolution: MINUTE_MS, retentionMs: minuteRetentionMs },
+    { name: '1h', resolution: HOUR_MS, retentionMs: hourRetentionMs }
+  ].map(tier => ({
+    ...tier,
+    store: createNdjsonStore(path.join(dataDir, `history-${tier.name}.ndjson`)),
+    entries: [],
+    pending: null
+  }))
+  const rawTier = tiers[0]
+  const rollupTiers = tiers.slice(1)
+
+  function feedRollup(tier, aggregate) {
+    const bucketStart = Math.floor(aggregate.t / tier.resolution) * tier.resolution
+
+    if (tier.pending && tier.pending.t !== bucketStart) {
+      const finalized = finalizeBucket(tier.pending)
+      tier.entries.push(finalized)
+      tier.store.append(finalized)
+      tier.pending = null
+    }
+
+    if (!tier.pending) {
+      tier.pending = createBucket(bucketStart)
+    }
+    addToBucket(tier.pending, aggregate)
+  }
+
+  function record(timestamp, values) {
+    const v = {}
+    for (const [field, value] of Object.entries(values)) {
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        v[field] = roundValue(value)
+      }
+    }
+    if (Object.keys(v).length === 0) {
+      return
+    }
+
+    const entry = { t: timestamp, v }
+    rawTier.entries.push(entry)
+    rawTier.store.append(entry)
+
+    const aggregate = toAggregate(entry)
+    for (const tier of rollupTiers) {
+      feedRollup(tier, aggregate)
+    }
+  }
+
+  async function load() {
+    const now = Date.now()
+
+    for (const tier of tiers) {
+      try {
+        const cutoff = now - tier.retentionMs
+        const entries = await tier.store.load()
+        tier.entries = entries
+          .filter(entry => Number.isFinite(entry?.t) && entry.t >= cutoff)
+          .sort((a, b) => a.t - b.t)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Error desconocido'
+        console.warn(`[WARN] No se pudo cargar el historial ${tier.name}: ${message}`)
+        tier.entries = []
+      }
+    }
+
+    // Reconstruir los buckets abiertos con las muestras crudas posteriores
+    // al último bucket cerrado (se perdieron al reiniciar el proceso)
+    for (const tier of rollupTiers) {
+      const last = tier.entries[tier.entries.length - 1]
+      const openFrom = last ? last.t + tier.resolution : 0
+      for (let i = lowerBound(rawTier.entries, openFrom); i < rawTier.entries.length; i++) {
+        feedRollup(tier, toAggregate(rawTier.entries[i]))
+      }
+    }
+
+    await compact()
+  }
+
+  function compact() {
+    const now = Date.now()
+    return Promise.all(tiers.map(tier => {
+      const cutoff = now - tier.retentionMs
+      tier.entries = tier.entries.slice(lowerBound(tier.entries, cutoff))
+      return tier.store.rewrite(tier.entries)
+    }))
+  }
+
+  function selectTier(from, step, now) {
+    const covering = tiers.filter(tier => from >= now - tier.retentionMs)
+    const candidates = covering.length > 0 ? covering : [tiers[tiers.length - 1]]
+    let selected = candidates[0]
+    for (const tier of candidates) {
+      if (tier.resolution <= step && tier.resolution >= selected.resolution) {
+        selected = tier
+      }
+    }
+    return selected
+  }
+
+  function query({ from, to, step, fields }) {
+    const tier = selectTier(from, step, Date.now())
+    const bucketSize = Math.max(step, tier.resolution)
+    const source = tier.pending
+      ? [...tier.entries, finalizeBucket(tier.pending)]
+      : tier.entries
+
+    const buckets = []
+    let current = null
+    for (let i = lowerBound(source, from); i < source.length && source[i].t <= to; i++) {
+      const aggregate = toAggregate(source[i])
+      const bucketStart = Math.floor(aggregate.t / bucketSize) * bucketSize
+      if (!current || current.t !== bucketStart) {
+        current = createBucket(bucketStart)
+        buckets.push(current)
+      }
+      addToBucket(current, aggregate)
+    }
+
+    const series = {}
+    for (const bucket of buckets.map(finalizeBucket)) {
+      for (const [field, avg] of Object.entries(bucket.avg)) {
+        if (fields && !fields.includes(field)) {
+          continue
+        }
+        if (!series[field]) {
+          series[field] = []
+        }
+        series[field].push({
+          t: bucket.t,
+          avg,
+          min: roundValue(bucket.min[field]),
+          max: roundValue(bucket.max[field])
+        })
+      }
+    }
+
+    return {
+      from,
+      to,
+      step: bucketSize,
+      resolution: tier.name,
+      series
+    }
+  }
+
+  /**
+   * Entradas de [from, to] al máximo detalle disponible (el nivel más fino
+   * que cubre `from`), sin agrupar. `entries` es un iterador: la exportación
+   * las serializa de a una en lugar de armar el resultado completo. Sin
+   * `fields` se listan todos los campos presentes en el rango.
+   */
+  function exportRange({ from, to, fields }) {
+    const tier = selectTier(from, 0, Date.now())
+    const source = tier.pending
+      ? [...tier.entries, finalizeBucket(tier.pending)]
+      : tier.entries
+    const start = lowerBound(source, from)
+
+    let selectedFields = fields
+    if (!selectedFields) {
+      const present = new Set()
+      for (let i = start; i < source.length && source[i].t <= to; i++) {
+        for (const field of Object.keys(toAggregate(source[i]).avg)) {
+          present.add(field)
+        }
+      }
+      selectedFields = [...present].sort()
+    }
+
+    function* entries() {
+      for (let i = start; i < source.length && source[i].t <= to; i++) {
+        const aggregate = toAggregate(source[i])
+        if (selectedFields.some(field => field in aggregate.avg)) {
+          yield aggregate
+        }
+      }
+    }
+
+    return { resolution: tier.name, fields: selectedFields, entries: entries() }
+  }
+
+  const compactTimer = setInterval(() => {
+    compact().catch(() => {})
+  }, COMPACT_INTERVAL_MS)
+  compactTimer.unref()
+
+  return { load, record, query, exportRange }
+}
@@ -0,0 +1,68 @@
+import fs from 'fs/promises'
+import path from 'path'
+
+// Archivo NDJSON de solo-anexado (una entrada JSON por línea).
+// Las escrituras se serializan para que un append nunca se intercale con una
+// compactación; la compactación reescribe el archivo vía temporal + rename.
+export function createNdjsonStore(filePath) {
+  let writeChain = Promise.resolve()
+
+  function enqueue(task) {
+    const run = writeChain.then(task)
+    writeChain = run.catch(error => {
+      const message = error instanceof Error ? error.message : 'Error desconocido'
+      console.error(`Error escribiendo ${filePath}:`, message)
+    })
+    return writeChain
+  }
+
+  async function load() {
+    let content
+    try {
+      content = await fs.readFile(filePath, 'utf8')
+    } catch (error) {
+      if (error?.code === 'ENOENT') {
+        return []
+      }
+      throw error
+    }
+
+    const entries = []
+    for (const line of content.split('\n')) {
+      if (!line) {
+        continue
+      }
+      try {
+        entries.push(JSON.parse(line))
+      } catch {
+        // Línea incompleta (p.ej. corte a mitad de escritura): se descarta
+      }
+    }
+    return entries
+  }
+
+  function append(entries) {
+    const list = Array.isArray(entries) ? entries : [entries]
+    if (list.length === 0) {
+      return writeChain
+    }
+
+    const payload = list.map(entry => JSON.stringify(entry)).join('\n') + '\n'
+    return enqueue(async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.appendFile(filePath, payload, 'utf8')
+    })
+  }
+
+  function rewrite(entries) {
+    const payload = entries.map(entry => JSON.stringify(entry)).join('\n')
+    return enqueue(async () => {
+      const tmpPath = `${filePath}.tmp`
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.writeFile(tmpPath, payload ? `${payload}\n` : '', 'utf8')
+      await fs.rename(tmpPath, filePath)
+    })
+  }
+
+  return { filePath, load, append, rewrite }
+}
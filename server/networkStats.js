@@ -0,0 +1,98 @@
+import fs from 'fs/promises'
+import si from 'systeminformation'
+
+export const DEFAULT_EXCLUDED_INTERFACES = ['lo', 'veth*']
+
+const roundRate = (value) => Math.round(value * 10) / 10
+
+// "eth*" coincide con cualquier interfaz que empiece con "eth"
+const matchesInterface = (iface, patterns) => patterns.some(pattern => (
+  pattern.endsWith('*') ? iface.startsWith(pattern.slice(0, -1)) : iface === pattern
+))
+
+// Paquetes por interfaz desde /proc/net/dev (systeminformation no los informa)
+async function readPacketCounters() {
+  try {
+    const content = await fs.readFile('/proc/net/dev', 'utf8')
+    const counters = new Map()
+    for (const line of content.split('\n').slice(2)) {
+      const separator = line.indexOf(':')
+      if (separator === -1) {
+        continue
+      }
+      const values = line.slice(separator + 1).trim().split(/\s+/).map(Number)
+      counters.set(line.slice(0, separator).trim(), { rxPackets: values[1], txPackets: values[9] })
+    }
+    return counters
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Tráfico por interfaz como tasas por segundo entre dos llamadas a `sample()`
+ * (bytes, paquetes, errores y descartes). `include` vacío toma todas las
+ * interfaces salvo las de `exclude`; ambos aceptan comodín final ("eth*").
+ * La primera muestra (o una interfaz nueva) no tiene tasas: se devuelve sin ella.
+ */
+export function createNetworkSampler({ include = [], exclude = DEFAULT_EXCLUDED_INTERFACES } = {}) {
+  let previous = new Map()
+
+  async function sample() {
+    const [stats, packets] = await Promise.all([si.networkStats('*'), readPacketCounters()])
+    const now = Date.now()
+    const current = new Map()
+    const interfaces = []
+
+    for (const stat of stats) {
+      const { iface } = stat
+      if (include.length > 0 ? !matchesInterface(iface, include) : matchesInterface(iface, exclude)) {
+        continue
+      }
+
+      const counters = {
+        time: now,
+        rxBytes: stat.rx_bytes,
+        txBytes: stat.tx_bytes,
+        rxErrors: stat.rx_errors,
+        txErrors: stat.tx_errors,
+        rxDropped: stat.rx_dropped,
+        txDropped: stat.tx_dropped,
+        rxPackets: packets?.get(iface)?.rxPackets ?? null,
+        txPackets: packets?.get(iface)?.txPackets ?? null
+      }
+      current.set(iface, counters)
+
+      const last = previous.get(iface)
+      const seconds = last ? (now - last.time) / 1000 : 0
+      if (!last || seconds <= 0) {
+        continue
+      }
+
+      // Un contador que baja (reinicio de la interfaz) se toma como 0
+      const rate = (field) => (
+        counters[field] === null || last[field] === null
+          ? null
+          : roundRate(Math.max(0, counters[field] - last[field]) / seconds)
+      )
+
+      interfaces.push({
+        iface,
+        operstate: stat.operstate,
+        rxBytesPerSec: rate('rxBytes'),
+        txBytesPerSec: rate('txBytes'),
+        rxPacketsPerSec: rate('rxPackets'),
+        txPacketsPerSec: rate('txPackets'),
+        rxErrorsPerSec: rate('rxErrors'),
+        txErrorsPerSec: rate('txErrors'),
+        rxDroppedPerSec: rate('rxDropped'),
+        txDroppedPerSec: rate('txDropped')
+      })
+    }
+
+    previous = current
+    return interfaces.sort((a, b) => a.iface.localeCompare(b.iface))
+  }
+
+  return { sample }
+}
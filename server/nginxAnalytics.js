@@ -0,0 +1,116 @@
+import { createLogFilter, readGenerationBatchesBackward } from './logReader.js'
+import { parseNginxAccessLine } from './logParsers.js'
+
+const MINUTE_MS = 60 * 1000
+const PERCENTILES = [50, 90, 95, 99]
+
+function incrementCount(map, key) {
+  map.set(key, (map.get(key) || 0) + 1)
+}
+
+function topEntries(map, limit) {
+  return [...map.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value, count]) => ({ value, count }))
+}
+
+// Percentil por rango más cercano sobre valores ya ordenados
+function percentile(sorted, p) {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))
+  return sorted[index]
+}
+
+/**
+ * Agrega el access log de nginx en la ventana [from, to]: requests por minuto,
+ * distribución por clase de estado, rutas e IPs más frecuentes, bytes servidos
+ * y percentiles de $request_time (null si el log no lo registra).
+ * Lee desde el final (siguiendo por las generaciones rotadas) y corta al
+ * pasar `from` o al superar `maxScanBytes`. Con `topN: Infinity` los rankings
+ * vienen completos.
+ */
+export async function aggregateNginxAccessLog(filePath, { from, to, topN = 10, maxScanBytes = Infinity }) {
+  const filter = createLogFilter({ from, to })
+  const scan = { bytes: 0 }
+  const perMinute = new Map()
+  const statusClasses = { '2xx': 0, '3xx': 0, '4xx': 0, '5xx': 0, other: 0 }
+  const paths = new Map()
+  const ips = new Map()
+  const requestTimes = []
+  let totalRequests = 0
+  let bytes = 0
+  let truncated = false
+
+  outer:
+  for await (const { batch } of readGenerationBatchesBackward(filePath, scan)) {
+    const verdicts = filter.checkLines(batch)
+    for (const [index, line] of batch.entries()) {
+      const verdict = verdicts[index]
+      if (verdict === 'stop') {
+        break outer
+      }
+      if (verdict !== 'match') {
+        continue
+      }
+
+      const entry = parseNginxAccessLine(line)
+      if (!entry) {
+        continue
+      }
+
+      totalRequests++
+      bytes += entry.bytes
+      incrementCount(perMinute, Math.floor(entry.time / MINUTE_MS) * MINUTE_MS)
+      incrementCount(ips, entry.ip)
+      if (entry.path) {
+        // La query string no distingue rutas para el ranking
+        incrementCount(paths, entry.path.split('?')[0])
+      }
+
+      const statusClass = `${Math.floor(entry.status / 100)}xx`
+      if (statusClass in statusClasses) {
+        statusClasses[statusClass]++
+      } else {
+        statusClasses.other++
+      }
+
+      if (entry.requestTime !== null) {
+        requestTimes.push(entry.requestTime)
+      }
+    }
+
+    if (scan.bytes >= maxScanBytes) {
+      truncated = true
+      break
+    }
+  }
+
+  // Serie completa (minutos sin tráfico en 0) para que el gráfico no salte huecos
+  const requestsPerMinute = []
+  for (let t = Math.floor(from / MINUTE_MS) * MINUTE_MS; t <= to; t += MINUTE_MS) {
+    requestsPerMinute.push({ t, count: perMinute.get(t) || 0 })
+  }
+
+  let latency = null
+  if (requestTimes.length > 0) {
+    const sorted = Float64Array.from(requestTimes).sort()
+    latency = { samples: sorted.length }
+    for (const p of PERCENTILES) {
+      latency[`p${p}`] = percentile(sorted, p)
+    }
+  }
+
+  return {
+    from,
+    to,
+    totalRequests,
+    bytes,
+    statusClasses,
+    requestsPerMinute,
+    topPaths: topEntries(paths, topN),
+    topIps: topEntries(ips, topN),
+    latency,
+    scannedBytes: scan.bytes,
+    truncated
+  }
+}
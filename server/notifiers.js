@@ -0,0 +1,73 @@
+import os from 'os'
+import nodemailer from 'nodemailer'
+
+const WEBHOOK_TIMEOUT_MS = 10 * 1000
+
+const EVENT_LABELS = { firing: 'ALERTA', resolved: 'RESUELTA' }
+
+function describeAlert(event, alert) {
+  const subject = `[${EVENT_LABELS[event]} ${alert.severity}] ${alert.ruleId}: ${alert.expr}`
+  const lines = [
+    `Servidor: ${os.hostname()}`,
+    `Regla: ${alert.ruleId} (${alert.expr})`,
+    alert.description ? `Descripción: ${alert.description}` : null,
+    `Valor: ${alert.value} (umbral ${alert.threshold})`,
+    `Disparada: ${new Date(alert.firedAt).toISOString()}`,
+    alert.resolvedAt ? `Resuelta: ${new Date(alert.resolvedAt).toISOString()}` : null
+  ]
+  return { subject, text: lines.filter(Boolean).join('\n') }
+}
+
+// POST JSON { event, host, alert } a una URL genérica (Slack, n8n, etc. vía adaptador)
+export function createWebhookNotifier({ url }) {
+  return {
+    name: 'webhook',
+    async send(event, alert) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ event, host: os.hostname(), alert }),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+      })
+      await response.body?.cancel()
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+    }
+  }
+}
+
+// Correo por SMTP; sin `user` no se autentica (relay local o servidor de prueba)
+export function createSmtpNotifier({ host, port, secure, user, pass, from, to }) {
+  const transport = nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    auth: user ? { user, pass } : undefined
+  })
+
+  return {
+    name: 'smtp',
+    async send(event, alert) {
+      const { subject, text } = describeAlert(event, alert)
+      await transport.sendMail({ from, to: to.join(', '), subject, text })
+    }
+  }
+}
+
+/**
+ * Envía cada evento a todos los notificadores. Los errores se registran y no
+ * se propagan: una notificación fallida no debe frenar la evaluación.
+ */
+export function createNotifier(notifiers) {
+  return async function notify(event, alert) {
+    await Promise.all(notifiers.map(async notifier => {
+      try {
+        await notifier.send(event, alert)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Error desconocido'
+        console.error(`No se pudo notificar la alerta ${alert.ruleId} por ${notifier.name}:`, message)
+      }
+    }))
+  }
+}
@@ -0,0 +1,165 @@
+import assert from 'node:assert/strict'
+import http from 'node:http'
+import net from 'node:net'
+import os from 'node:os'
+import { after, before, test } from 'node:test'
+import { createNotifier, createSmtpNotifier, createWebhookNotifier } from './notifiers.js'
+
+const ALERT = {
+  ruleId: 'cpu-high',
+  expr: 'cpu > 90 for 5m',
+  severity: 'critical',
+  description: 'CPU sostenida',
+  value: 97.5,
+  threshold: 90,
+  firedAt: Date.UTC(2024, 0, 15, 10, 0, 0),
+  resolvedAt: null
+}
+
+// Receptor de webhooks local: guarda cada POST y responde `status`
+function startWebhookReceiver() {
+  const received = []
+  let status = 200
+  const server = http.createServer((req, res) => {
+    let body = ''
+    req.setEncoding('utf8')
+    req.on('data', chunk => {
+      body += chunk
+    })
+    req.on('end', () => {
+      received.push({ method: req.method, contentType: req.headers['content-type'], body: JSON.parse(body) })
+      res.writeHead(status)
+      res.end()
+    })
+  })
+  return {
+    received,
+    setStatus: value => {
+      status = value
+    },
+    listen: () => new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server.address().port))),
+    close: () => new Promise(resolve => server.close(resolve))
+  }
+}
+
+// Sumidero SMTP mínimo (sin TLS ni autenticación): guarda cada mensaje
+function startSmtpSink() {
+  const messages = []
+  const server = net.createServer(socket => {
+    let buffer = ''
+    let inData = false
+    let current = { from: null, to: [], data: '' }
+    socket.setEncoding('utf8')
+    socket.write('220 sink ESMTP\r\n')
+    socket.on('data', chunk => {
+      buffer += chunk
+      let index
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index)
+        buffer = buffer.slice(index + 2)
+        if (inData) {
+          if (line === '.') {
+            inData = false
+            messages.push(current)
+            current = { from: null, to: [], data: '' }
+            socket.write('250 OK\r\n')
+          } else {
+            current.data += `${line.startsWith('..') ? line.slice(1) : line}\n`
+          }
+          continue
+        }
+        const command = line.slice(0, 4).toUpperCase()
+        if (command === 'EHLO' || command === 'HELO') {
+          socket.write('250 sink\r\n')
+        } else if (command === 'MAIL') {
+          current.from = /<(.*)>/.exec(line)?.[1] ?? null
+          socket.write('250 OK\r\n')
+        } else if (command === 'RCPT') {
+          current.to.push(/<(.*)>/.exec(line)?.[1])
+          socket.write('250 OK\r\n')
+        } else if (command === 'DATA') {
+          inData = true
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n')
+        } else if (command === 'QUIT') {
+          socket.end('221 Bye\r\n')
+        } else {
+          socket.write('250 OK\r\n')
+        }
+      }
+    })
+  })
+  return {
+    messages,
+    listen: () => new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server.address().port))),
+    close: () => new Promise(resolve => server.close(resolve))
+  }
+}
+
+const webhook = startWebhookReceiver()
+const smtp = startSmtpSink()
+let webhookUrl
+let smtpPort
+
+before(async () => {
+  webhookUrl = `http://127.0.0.1:${await webhook.listen()}/hook`
+  smtpPort = await smtp.listen()
+})
+
+after(async () => {
+  await webhook.close()
+  await smtp.close()
+})
+
+test('el webhook recibe { event, host, alert } por POST JSON', async () => {
+  await createWebhookNotifier({ url: webhookUrl }).send('firing', ALERT)
+
+  const [request] = webhook.received.splice(0)
+  assert.equal(request.method, 'POST')
+  assert.equal(request.contentType, 'application/json')
+  assert.deepEqual(request.body, { event: 'firing', host: os.hostname(), alert: ALERT })
+})
+
+test('el webhook falla si el receptor no responde 2xx', async () => {
+  webhook.setStatus(500)
+  try {
+    await assert.rejects(createWebhookNotifier({ url: webhookUrl }).send('resolved', ALERT), /HTTP 500/)
+  } finally {
+    webhook.setStatus(200)
+    webhook.received.splice(0)
+  }
+})
+
+test('el correo llega al sumidero SMTP con asunto y detalle de la alerta', async () => {
+  const notifier = createSmtpNotifier({
+    host: '127.0.0.1',
+    port: smtpPort,
+    secure: false,
+    from: 'monitor@example.com',
+    to: ['ops@example.com', 'oncall@example.com']
+  })
+  await notifier.send('resolved', { ...ALERT, resolvedAt: Date.UTC(2024, 0, 15, 10, 30, 0) })
+
+  const [message] = smtp.messages.splice(0)
+  assert.equal(message.from, 'monitor@example.com')
+  assert.deepEqual(message.to, ['ops@example.com', 'oncall@example.com'])
+  assert.match(message.data, /^Subject: \[RESUELTA critical\] cpu-high: cpu > 90 for 5m$/m)
+  assert.match(message.data, /Valor: 97\.5 \(umbral 90\)/)
+  assert.match(message.data, /Resuelta: 2024-01-15T10:30:00\.000Z/)
+})
+
+test('un canal que falla no frena a los demas ni propaga el error', async () => {
+  const failing = { name: 'roto', send: async () => { throw new Error('sin conexion') } }
+  const notify = createNotifier([failing, createWebhookNotifier({ url: webhookUrl })])
+
+  const originalError = console.error
+  const logged = []
+  console.error = (...args) => logged.push(args.join(' '))
+  try {
+    await notify('firing', ALERT)
+  } finally {
+    console.error = originalError
+  }
+
+  assert.equal(webhook.received.splice(0).length, 1)
+  assert.match(logged[0], /cpu-high por roto: sin conexion/)
+})
@@ -0,0 +1,349 @@
+import net from 'net'
+import path from 'path'
+import { performance } from 'perf_hooks'
+import { readJsonConfig, watchConfigFile } from './configFile.js'
+import { createNdjsonStore } from './ndjsonStore.js'
+
+const PROBE_ID = /^[a-z0-9][a-z0-9_-]{0,63}$/i
+const PROBE_TYPES = new Set(['http', 'tcp'])
+const DEFAULT_TIMEOUT_MS = 5000
+const MAX_TIMEOUT_MS = 60 * 1000
+const DEFAULT_INTERVAL_SECONDS = 30
+const MIN_INTERVAL_SECONDS = 5
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+const COMPACT_INTERVAL_MS = 10 * 60 * 1000
+// Puntos de latencia que se devuelven para el sparkline
+const SPARKLINE_POINTS = 40
+
+export const UPTIME_WINDOWS = { '24h': DAY_MS, '7d': 7 * DAY_MS }
+
+function isPositiveInteger(value) {
+  return Number.isInteger(value) && value > 0
+}
+
+/**
+ * Valida el archivo de probes y devuelve { id: probe } normalizado, en el
+ * orden declarado. Acepta un arreglo o { probes: [...] } (puede estar vacío).
+ * HTTP: url, expectedStatus (número o lista; por defecto cualquier 2xx/3xx) y
+ * bodyMatch (texto que debe aparecer en la respuesta). TCP: host y port.
+ * Lanza Error con el primer problema.
+ */
+export function validateProbes(config) {
+  const list = Array.isArray(config) ? config : config?.probes
+  if (!Array.isArray(list)) {
+    throw new Error('se esperaba una lista de probes')
+  }
+
+  const probes = {}
+  list.forEach((entry, index) => {
+    const where = `probe #${index + 1}`
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`${where}: se esperaba un objeto`)
+    }
+
+    const {
+      id,
+      label,
+      type,
+      group,
+      timeoutMs = DEFAULT_TIMEOUT_MS,
+      intervalSeconds = DEFAULT_INTERVAL_SECONDS
+    } = entry
+    if (typeof id !== 'string' || !PROBE_ID.test(id)) {
+      throw new Error(`${where}: id invalido (letras, numeros, - y _)`)
+    }
+    if (id in probes) {
+      throw new Error(`${where}: id duplicado "${id}"`)
+    }
+    const named = `${where} (${id})`
+    if (!PROBE_TYPES.has(type)) {
+      throw new Error(`${named}: type debe ser uno de ${[...PROBE_TYPES].join(', ')}`)
+    }
+    if (label !== undefined && typeof label !== 'string') {
+      throw new Error(`${named}: label debe ser texto`)
+    }
+    if (group !== undefined && typeof group !== 'string') {
+      throw new Error(`${named}: group debe ser texto`)
+    }
+    if (!isPositiveInteger(timeoutMs) || timeoutMs > MAX_TIMEOUT_MS) {
+      throw new Error(`${named}: timeoutMs debe ser un entero entre 1 y ${MAX_TIMEOUT_MS}`)
+    }
+    if (!isPositiveInteger(intervalSeconds) || intervalSeconds < MIN_INTERVAL_SECONDS) {
+      throw new Error(`${named}: intervalSeconds debe ser un entero >= ${MIN_INTERVAL_SECONDS}`)
+    }
+
+    const probe = {
+      label: label || id,
+      type,
+      group: group || null,
+      timeoutMs,
+      intervalSeconds
+    }
+
+    if (type === 'http') {
+      const { url, expectedStatus, bodyMatch } = entry
+      let parsed = null
+      try {
+        parsed = new URL(url)
+      } catch {
+        parsed = null
+      }
+      if (!parsed || (parsed.protocol !== 'http:' && parsed.protocol !== 'https:')) {
+        throw new Error(`${named}: url debe ser http:// o https://`)
+      }
+      const statuses = expectedStatus === undefined
+        ? null
+        : [expectedStatus].flat()
+      if (statuses && (statuses.length === 0 || !statuses.every(status => Number.isInteger(status) && status >= 100 && status <= 599))) {
+        throw new Error(`${named}: expectedStatus debe ser un codigo HTTP o una lista de codigos`)
+      }
+      if (bodyMatch !== undefined && (typeof bodyMatch !== 'string' || !bodyMatch)) {
+        throw new Error(`${named}: bodyMatch debe ser texto no vacío`)
+      }
+      Object.assign(probe, {
+        target: parsed.href,
+        url: parsed.href,
+        expectedStatus: statuses,
+        bodyMatch: bodyMatch ?? null
+      })
+    } else {
+      const { host, port } = entry
+      if (typeof host !== 'string' || !host) {
+        throw new Error(`${named}: host es obligatorio`)
+      }
+      if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        throw new Error(`${named}: port debe estar entre 1 y 65535`)
+      }
+      Object.assign(probe, { target: `${host}:${port}`, host, port })
+    }
+
+    probes[id] = Object.freeze(probe)
+  })
+
+  return Object.freeze(probes)
+}
+
+// Motivo de falla legible a partir del error de fetch/net
+function describeError(error, probe) {
+  if (error?.name === 'TimeoutError' || error?.code === 'ETIMEDOUT') {
+    return `Timeout (${probe.timeoutMs} ms)`
+  }
+  // fetch envuelve el error de red ("fetch failed") y el detalle queda en cause
+  return error?.cause?.message ?? (error instanceof Error ? error.message : 'Error desconocido')
+}
+
+// Sin seguir redirecciones: el estado que se compara es el de la URL configurada
+async function checkHttp(probe) {
+  const response = await fetch(probe.url, {
+    signal: AbortSignal.timeout(probe.timeoutMs),
+    headers: { 'User-Agent': 'monitor-probe' },
+    redirect: 'manual'
+  })
+
+  const statusOk = probe.expectedStatus
+    ? probe.expectedStatus.includes(response.status)
+    : response.status >= 200 && response.status < 400
+  if (!statusOk) {
+    await response.body?.cancel()
+    return `HTTP ${response.status}`
+  }
+
+  if (probe.bodyMatch) {
+    const body = await response.text()
+    return body.includes(probe.bodyMatch) ? null : `La respuesta no contiene "${probe.bodyMatch}"`
+  }
+  await response.body?.cancel()
+  return null
+}
+
+function checkTcp(probe) {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect({ host: probe.host, port: probe.port })
+    socket.setTimeout(probe.timeoutMs)
+    socket.once('connect', () => {
+      socket.destroy()
+      resolve(null)
+    })
+    socket.once('timeout', () => {
+      socket.destroy()
+      reject(Object.assign(new Error('timeout'), { code: 'ETIMEDOUT' }))
+    })
+    socket.once('error', reject)
+  })
+}
+
+// Primer índice con t >= timestamp (los resultados están ordenados por tiempo)
+function lowerBound(entries, timestamp) {
+  let low = 0
+  let high = entries.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (entries[mid].t < timestamp) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+  return low
+}
+
+/**
+ * Chequeos periódicos de los servicios declarados en `configPath` (ver
+ * validateProbes). Cada resultado ({ t, p, up, ms, error }) se persiste en
+ * NDJSON y se conserva `retentionMs` para calcular el uptime de 24 h / 7 d.
+ * `watch()` recarga la configuración y conserva la anterior si no valida.
+ */
+export function createProbeMonitor({ configPath, dataDir, retentionMs = UPTIME_WINDOWS['7d'] }) {
+  const store = createNdjsonStore(path.join(dataDir, 'probes.ndjson'))
+  const results = new Map()
+  // Probes con un chequeo en curso: con timeoutMs mayor que el intervalo no
+  // se lanza otro hasta que termine el anterior
+  const running = new Set()
+  let probes = {}
+  let timers = []
+
+  function record(id, result) {
+    const entry = { t: Date.now(), p: id, ...result }
+    if (!results.has(id)) {
+      results.set(id, [])
+    }
+    results.get(id).push(entry)
+    store.append(entry)
+  }
+
+  async function runProbe(id, probe) {
+    if (running.has(id)) {
+      return
+    }
+    running.add(id)
+    const started = performance.now()
+    try {
+      const failure = probe.type === 'http' ? await checkHttp(probe) : await checkTcp(probe)
+      const ms = Math.round(performance.now() - started)
+      record(id, failure ? { up: false, ms, error: failure } : { up: true, ms })
+    } catch (error) {
+      record(id, { up: false, ms: null, error: describeError(error, probe) })
+    } finally {
+      running.delete(id)
+    }
+  }
+
+  function schedule(nextProbes) {
+    for (const timer of timers) {
+      clearInterval(timer)
+    }
+    probes = nextProbes
+    timers = Object.entries(probes).map(([id, probe]) => {
+      runProbe(id, probe)
+      const timer = setInterval(() => runProbe(id, probe), probe.intervalSeconds * 1000)
+      timer.unref()
+      return timer
+    })
+  }
+
+  async function readConfig() {
+    const config = await readJsonConfig(configPath)
+    return config === null ? {} : validateProbes(config)
+  }
+
+  // Carga el historial y la configuración (lanza si es inválida) y arranca los chequeos
+  async function load() {
+    const cutoff = Date.now() - retentionMs
+    try {
+      const entries = await store.load()
+      for (const entry of entries) {
+        if (!Number.isFinite(entry?.t) || entry.t < cutoff || typeof entry.p !== 'string') {
+          continue
+        }
+        if (!results.has(entry.p)) {
+          results.set(entry.p, [])
+        }
+        results.get(entry.p).push(entry)
+      }
+      for (const list of results.values()) {
+        list.sort((a, b) => a.t - b.t)
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Error desconocido'
+      console.warn(`[WARN] No se pudo cargar el historial de probes: ${message}`)
+    }
+
+    schedule(await readConfig())
+    return Object.keys(probes).length
+  }
+
+  async function reload() {
+    try {
+      schedule(await readConfig())
+      console.log(`Probes recargados (${Object.keys(probes).length})`)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Error desconocido'
+      console.error(`Configuración de probes invalida (${configPath}), se mantiene la anterior:`, message)
+    }
+  }
+
+  function watch() {
+    watchConfigFile(configPath, reload, 'probes')
+  }
+
+  function compact() {
+    const cutoff = Date.now() - retentionMs
+    const kept = []
+    for (const [id, list] of results) {
+      const recent = list.slice(lowerBound(list, cutoff))
+      if (recent.length === 0 || !(id in probes)) {
+        results.delete(id)
+        continue
+      }
+      results.set(id, recent)
+      kept.push(...recent)
+    }
+    return store.rewrite(kept.sort((a, b) => a.t - b.t))
+  }
+
+  function status() {
+    const now = Date.now()
+    return Object.entries(probes).map(([id, probe]) => {
+      const list = results.get(id) ?? []
+      const last = list[list.length - 1] ?? null
+      let lastFailure = null
+      for (let i = list.length - 1; i >= 0; i--) {
+        if (!list[i].up) {
+          lastFailure = { t: list[i].t, reason: list[i].error }
+          break
+        }
+      }
+
+      const uptime = {}
+      for (const [name, windowMs] of Object.entries(UPTIME_WINDOWS)) {
+        const recent = list.slice(lowerBound(list, now - windowMs))
+        uptime[name] = recent.length > 0
+          ? Math.round((recent.filter(entry => entry.up).length / recent.length) * 10000) / 100
+          : null
+      }
+
+      return {
+        id,
+        label: probe.label,
+        group: probe.group,
+        type: probe.type,
+        target: probe.target,
+        intervalSeconds: probe.intervalSeconds,
+        up: last ? last.up : null,
+        lastCheck: last ? last.t : null,
+        latencyMs: last ? last.ms : null,
+        lastFailure,
+        uptime,
+        latency: list.slice(-SPARKLINE_POINTS).map(entry => ({ t: entry.t, ms: entry.up ? entry.ms : null }))
+      }
+    })
+  }
+
+  const compactTimer = setInterval(() => {
+    compact().catch(() => {})
+  }, COMPACT_INTERVAL_MS)
+  compactTimer.unref()
+
+  return { load, watch, status }
+}
@@ -0,0 +1,46 @@
+import si from 'systeminformation'
+
+export const PROCESS_SORT_FIELDS = ['cpu', 'memory']
+
+const round = (value) => Math.round(value * 10) / 10
+
+// systeminformation informa el inicio como "YYYY-MM-DD HH:MM:SS" en hora local
+function parseStarted(value) {
+  const time = value ? new Date(value.replace(' ', 'T')).getTime() : NaN
+  return Number.isFinite(time) ? time : null
+}
+
+/**
+ * Procesos con mayor consumo, ordenados por `sort` ("cpu" o "memory") y
+ * recortados a `limit`. `query` filtra por nombre o línea de comando (sin distinguir
+ * mayúsculas) antes de recortar. `total` es la cantidad de procesos que
+ * coinciden con el filtro.
+ */
+export async function listTopProcesses({ sort = 'cpu', limit = 20, query = '' } = {}) {
+  const { list } = await si.processes()
+  const needle = query.toLowerCase()
+
+  const processes = list
+    .map(item => ({
+      pid: item.pid,
+      name: item.name,
+      command: [item.path ? `${item.path}/${item.command}` : item.command, item.params].filter(Boolean).join(' '),
+      user: item.user,
+      cpu: round(item.cpu),
+      memory: round(item.mem),
+      rssBytes: item.memRss * 1024,
+      state: item.state,
+      startedAt: parseStarted(item.started)
+    }))
+    .filter(item => !needle
+      || item.name.toLowerCase().includes(needle)
+      || item.command.toLowerCase().includes(needle))
+
+  const key = sort === 'memory' ? 'rssBytes' : 'cpu'
+  processes.sort((a, b) => b[key] - a[key] || a.pid - b.pid)
+
+  return {
+    total: processes.length,
+    processes: processes.slice(0, limit)
+  }
+}
@@ -0,0 +1,97 @@
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+const escapeLabelValue = (value) => String(value)
+  .replace(/\\/g, '\\\\')
+  .replace(/\n/g, '\\n')
+  .replace(/"/g, '\\"')
+
+const formatLabels = (labels) => {
+  const entries = Object.entries(labels).filter(([, value]) => value !== undefined && value !== null)
+  return entries.length === 0
+    ? ''
+    : `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`
+}
+
+const percentToRatio = (value) => value / 100
+
+/**
+ * Serializa una muestra de calculateMetrics() en el formato de texto de
+ * Prometheus: todos los valores como gauges en bytes, segundos y ratios
+ * (0-1), con `host` y `labels` fijos en cada serie. La CPU sale de `cpu`
+ * ({ usage, perCore, breakdown } sin redondear), no de los valores de la UI.
+ */
+export function formatPrometheusMetrics(data, cpu, labels = {}) {
+  const families = new Map()
+
+  function gauge(name, help, value, seriesLabels = {}) {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return
+    }
+    if (!families.has(name)) {
+      families.set(name, { help, samples: [] })
+    }
+    families.get(name).samples.push(`${name}${formatLabels({ ...labels, ...seriesLabels })} ${value}`)
+  }
+
+  gauge('monitor_cpu_usage_ratio', 'Uso total de CPU (0-1).', percentToRatio(cpu.usage))
+  gauge('monitor_cpu_cores', 'Cantidad de cores.', data.cpuCores)
+  ;(cpu.perCore ?? []).forEach((load, core) => {
+    gauge('monitor_cpu_core_usage_ratio', 'Uso de CPU por core (0-1).', percentToRatio(load), { core: String(core) })
+  })
+  for (const [mode, value] of Object.entries(cpu.breakdown ?? {})) {
+    gauge('monitor_cpu_time_ratio', 'Reparto del tiempo de CPU por modo (0-1).', value === null ? null : percentToRatio(value), { mode })
+  }
+  gauge('monitor_load1', 'Load average de 1 minuto.', data.loadAverage?.load1)
+  gauge('monitor_load5', 'Load average de 5 minutos.', data.loadAverage?.load5)
+  gauge('monitor_load15', 'Load average de 15 minutos.', data.loadAverage?.load15)
+
+  gauge('monitor_memory_used_bytes', 'Memoria en uso (total - disponible).', data.memoryUsedBytes)
+  gauge('monitor_memory_total_bytes', 'Memoria total.', data.memoryTotalBytes)
+  if (data.memoryTotalBytes > 0) {
+    gauge('monitor_memory_usage_ratio', 'Memoria en uso (0-1).', data.memoryUsedBytes / data.memoryTotalBytes)
+  }
+
+  for (const disk of data.disks ?? []) {
+    const diskLabels = { mount: disk.mount, device: disk.device, fstype: disk.type }
+    gauge('monitor_filesystem_size_bytes', 'Tamaño del sistema de archivos.', disk.size, diskLabels)
+    gauge('monitor_filesystem_used_bytes', 'Espacio usado del sistema de archivos.', disk.used, diskLabels)
+    gauge('monitor_filesystem_available_bytes', 'Espacio disponible del sistema de archivos.', disk.available, diskLabels)
+    gauge('monitor_filesystem_usage_ratio', 'Uso del sistema de archivos (0-1).', percentToRatio(disk.use), diskLabels)
+    if (disk.inodes) {
+      gauge('monitor_filesystem_inodes_total', 'Inodos del sistema de archivos.', disk.inodes.total, diskLabels)
+      gauge('monitor_filesystem_inodes_used', 'Inodos en uso.', disk.inodes.used, diskLabels)
+    }
+  }
+
+  for (const item of data.network ?? []) {
+    const ifaceLabels = { iface: item.iface }
+    gauge('monitor_network_up', 'Interfaz operativa (1) o no (0).', item.operstate === 'up' ? 1 : 0, ifaceLabels)
+    gauge('monitor_network_receive_bytes_per_second', 'Bytes recibidos por segundo.', item.rxBytesPerSec, ifaceLabels)
+    gauge('monitor_network_transmit_bytes_per_second', 'Bytes enviados por segundo.', item.txBytesPerSec, ifaceLabels)
+    gauge('monitor_network_receive_packets_per_second', 'Paquetes recibidos por segundo.', item.rxPacketsPerSec, ifaceLabels)
+    gauge('monitor_network_transmit_packets_per_second', 'Paquetes enviados por segundo.', item.txPacketsPerSec, ifaceLabels)
+    gauge('monitor_network_receive_errors_per_second', 'Errores de recepción por segundo.', item.rxErrorsPerSec, ifaceLabels)
+    gauge('monitor_network_transmit_errors_per_second', 'Errores de envío por segundo.', item.txErrorsPerSec, ifaceLabels)
+    gauge('monitor_network_receive_dropped_per_second', 'Paquetes recibidos descartados por segundo.', item.rxDroppedPerSec, ifaceLabels)
+    gauge('monitor_network_transmit_dropped_per_second', 'Paquetes enviados descartados por segundo.', item.txDroppedPerSec, ifaceLabels)
+  }
+
+  for (const item of data.diskIO ?? []) {
+    const deviceLabels = { device: item.device }
+    gauge('monitor_disk_read_bytes_per_second', 'Bytes leídos por segundo.', item.readBytesPerSec, deviceLabels)
+    gauge('monitor_disk_written_bytes_per_second', 'Bytes escritos por segundo.', item.writeBytesPerSec, deviceLabels)
+    gauge('monitor_disk_reads_per_second', 'Operaciones de lectura por segundo.', item.readIops, deviceLabels)
+    gauge('monitor_disk_writes_per_second', 'Operaciones de escritura por segundo.', item.writeIops, deviceLabels)
+    gauge('monitor_disk_utilization_ratio', 'Fracción del tiempo con E/S en curso (0-1).', item.utilization === null ? null : percentToRatio(item.utilization), deviceLabels)
+    gauge('monitor_disk_await_seconds', 'Latencia media por operación.', item.awaitMs === null ? null : item.awaitMs / 1000, deviceLabels)
+  }
+
+  gauge('monitor_uptime_seconds', 'Tiempo de actividad del servidor.', data.uptimeSeconds)
+  gauge('monitor_last_sample_timestamp_seconds', 'Momento de la muestra (epoch).', data.timestamp / 1000)
+
+  const lines = []
+  for (const [name, family] of families) {
+    lines.push(`# HELP ${name} ${family.help}`, `# TYPE ${name} gauge`, ...family.samples)
+  }
+  return `${lines.join('\n')}\n`
+}
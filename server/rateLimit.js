@@ -0,0 +1,159 @@
+import { readJsonConfig, watchConfigFile } from './configFile.js'
+
+// Límites por grupo de rutas: cada grupo tiene su propio bucket por identidad,
+// así el paginado de logs no compite con el polling del dashboard.
+// capacity = ráfaga máxima y refillPerMinute = ritmo sostenido, ambos en
+// unidades; cost = unidades que consume cada pedido del grupo.
+export const DEFAULT_RATE_LIMITS = Object.freeze({
+  // Muestra actual, hosts, contenedores, probes, alertas, /metrics
+  metrics: Object.freeze({ capacity: 240, refillPerMinute: 240, cost: 1 }),
+  // Lista de procesos: recorre /proc entero en cada pedido (la UI pide cada 5 s)
+  processes: Object.freeze({ capacity: 40, refillPerMinute: 40, cost: 2 }),
+  history: Object.freeze({ capacity: 60, refillPerMinute: 60, cost: 3 }),
+  export: Object.freeze({ capacity: 60, refillPerMinute: 30, cost: 10 }),
+  // Búsqueda y seguimiento de logs: recorren el archivo desde el final
+  logs: Object.freeze({ capacity: 100, refillPerMinute: 60, cost: 5 }),
+  analytics: Object.freeze({ capacity: 60, refillPerMinute: 30, cost: 10 }),
+  // Todo lo demás (lista de logs, permisos, auditoría, muestras de agentes)
+  default: Object.freeze({ capacity: 100, refillPerMinute: 100, cost: 1 }),
+  // Tokens rechazados (inválidos, vencidos o revocados), por IP: agotado, no
+  // se verifica ningún token más desde esa IP hasta que se recargue
+  auth: Object.freeze({ capacity: 10, refillPerMinute: 10, cost: 1 })
+})
+
+export const RATE_LIMIT_GROUPS = Object.keys(DEFAULT_RATE_LIMITS)
+
+const CLEANUP_INTERVAL_MS = 60 * 1000
+const MAX_BUCKETS = 10000
+
+/**
+ * Valida el archivo de límites: { grupo: { capacity, refillPerMinute, cost } }
+ * con valores parciales que se completan con DEFAULT_RATE_LIMITS. Lanza Error
+ * con el primer problema.
+ */
+export function validateRateLimits(config) {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error('se esperaba un objeto { grupo: { capacity, refillPerMinute, cost } }')
+  }
+  const unknown = Object.keys(config).filter(group => !RATE_LIMIT_GROUPS.includes(group))
+  if (unknown.length > 0) {
+    throw new Error(`grupo desconocido ${unknown.join(', ')} (validos: ${RATE_LIMIT_GROUPS.join(', ')})`)
+  }
+
+  return Object.freeze(Object.fromEntries(RATE_LIMIT_GROUPS.map(group => {
+    const entry = config[group] ?? {}
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      throw new Error(`${group}: se esperaba un objeto`)
+    }
+    const limits = { ...DEFAULT_RATE_LIMITS[group], ...entry }
+    for (const field of ['capacity', 'refillPerMinute', 'cost']) {
+      if (typeof limits[field] !== 'number' || !Number.isFinite(limits[field]) || limits[field] <= 0) {
+        throw new Error(`${group}.${field}: debe ser un numero positivo`)
+      }
+    }
+    if (limits.cost > limits.capacity) {
+      throw new Error(`${group}: cost (${limits.cost}) no puede superar capacity (${limits.capacity})`)
+    }
+    return [group, Object.freeze({
+      capacity: limits.capacity,
+      refillPerMinute: limits.refillPerMinute,
+      cost: limits.cost
+    })]
+  })))
+}
+
+/**
+ * Token bucket por grupo e identidad. `consume(group, key)` descuenta el costo
+ * del grupo y devuelve { allowed, limit, remaining, reset, retryAfter }, con
+ * limit/remaining en pedidos (no unidades), reset = segundos hasta llenar el
+ * bucket y retryAfter = segundos hasta poder pagar el próximo pedido. `peek`
+ * devuelve lo mismo sin descontar nada.
+ * `watch()` recarga y conserva los límites anteriores si el archivo no valida.
+ */
+export function createRateLimiter({ configPath }) {
+  let limits = DEFAULT_RATE_LIMITS
+  // `${grupo}|${identidad}` -> { tokens, updatedAt }
+  const buckets = new Map()
+
+  async function readConfig() {
+    const content = await readJsonConfig(configPath)
+    return content === null ? DEFAULT_RATE_LIMITS : validateRateLimits(content)
+  }
+
+  async function load() {
+    limits = await readConfig()
+    return limits !== DEFAULT_RATE_LIMITS
+  }
+
+  async function reload() {
+    try {
+      limits = await readConfig()
+      console.log('Limites de pedidos recargados')
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Error desconocido'
+      console.error(`Limites de pedidos invalidos (${configPath}), se mantienen los anteriores:`, message)
+    }
+  }
+
+  function watch() {
+    watchConfigFile(configPath, reload, 'limites de pedidos')
+  }
+
+  const ratePerMs = ({ refillPerMinute }) => refillPerMinute / 60000
+
+  // Tokens actuales del bucket (recarga lo acumulado desde la última vez)
+  function refill(bucket, groupLimits, now) {
+    bucket.tokens = Math.min(groupLimits.capacity, bucket.tokens + (now - bucket.updatedAt) * ratePerMs(groupLimits))
+    bucket.updatedAt = now
+  }
+
+  function take(group, key, charge) {
+    const groupLimits = limits[group] ?? limits.default
+    const now = Date.now()
+    const bucketKey = `${group}|${key}`
+    let bucket = buckets.get(bucketKey)
+    if (!bucket) {
+      bucket = { tokens: groupLimits.capacity, updatedAt: now }
+      buckets.set(bucketKey, bucket)
+      if (buckets.size > MAX_BUCKETS) {
+        // El Map conserva el orden de inserción: se descarta el más viejo
+        buckets.delete(buckets.keys().next().value)
+      }
+    } else {
+      refill(bucket, groupLimits, now)
+    }
+
+    const allowed = bucket.tokens >= groupLimits.cost
+    if (allowed && charge) {
+      bucket.tokens -= groupLimits.cost
+    }
+
+    const rate = ratePerMs(groupLimits)
+    return {
+      allowed,
+      limit: Math.floor(groupLimits.capacity / groupLimits.cost),
+      remaining: Math.floor(bucket.tokens / groupLimits.cost),
+      reset: Math.ceil((groupLimits.capacity - bucket.tokens) / rate / 1000),
+      retryAfter: allowed ? 0 : Math.ceil((groupLimits.cost - bucket.tokens) / rate / 1000)
+    }
+  }
+
+  const consume = (group, key) => take(group, key, true)
+
+  const peek = (group, key) => take(group, key, false)
+
+  // Un bucket lleno equivale a uno nuevo: se puede olvidar
+  const cleanupTimer = setInterval(() => {
+    const now = Date.now()
+    for (const [bucketKey, bucket] of buckets) {
+      const groupLimits = limits[bucketKey.slice(0, bucketKey.indexOf('|'))] ?? limits.default
+      refill(bucket, groupLimits, now)
+      if (bucket.tokens >= groupLimits.capacity) {
+        buckets.delete(bucketKey)
+      }
+    }
+  }, CLEANUP_INTERVAL_MS)
+  cleanupTimer.unref()
+
+  return { load, watch, consume, peek }
+}
@@ -0,0 +1,119 @@
+const HEARTBEAT_INTERVAL_MS = 15000
+const DEFAULT_RETRY_MS = 5000
+
+// Id del último evento recibido por el cliente (header estándar o query para
+// clientes que no pueden enviar headers)
+export function getLastEventId(req) {
+  const value = req.header('Last-Event-ID') || req.query.lastEventId || ''
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+/**
+ * Abre una respuesta Server-Sent Events y devuelve helpers para escribir en ella.
+ * Envía un comentario periódico para que proxies y navegadores no corten la conexión.
+ */
+export function openEventStream(req, res, { retryMs = DEFAULT_RETRY_MS } = {}) {
+  res.status(200)
+  res.set({
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-store',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  })
+  res.flushHeaders()
+  res.write(`retry: ${retryMs}\n\n`)
+
+  const closeHandlers = []
+  let closed = false
+
+  const heartbeat = setInterval(() => {
+    res.write(': ping\n\n')
+  }, HEARTBEAT_INTERVAL_MS)
+
+  const handleClose = () => {
+    if (closed) {
+      return
+    }
+    closed = true
+    clearInterval(heartbeat)
+    for (const handler of closeHandlers) {
+      handler()
+    }
+  }
+
+  req.on('close', handleClose)
+
+  return {
+    send(event, data, id) {
+      if (closed) {
+        return
+      }
+      let message = ''
+      if (id !== undefined && id !== null) {
+        message += `id: ${id}\n`
+      }
+      if (event) {
+        message += `event: ${event}\n`
+      }
+      message += `data: ${JSON.stringify(data)}\n\n`
+      res.write(message)
+    },
+    onClose(handler) {
+      closeHandlers.push(handler)
+    },
+    close() {
+      res.end()
+      handleClose()
+    },
+    get closed() {
+      return closed
+    }
+  }
+}
+
+/**
+ * Difusión de un mismo evento a todos los clientes conectados. Guarda los
+ * últimos `bufferSize` eventos para que un cliente que se reconecta con
+ * Last-Event-ID reciba lo que se perdió. Los ids deben ser numéricos y crecientes.
+ */
+export function createEventHub({ event, bufferSize }) {
+  const clients = new Set()
+  const buffer = []
+
+  function publish(data, id) {
+    buffer.push({ data, id })
+    if (buffer.length > bufferSize) {
+      buffer.shift()
+    }
+    for (const stream of clients) {
+      stream.send(event, data, id)
+    }
+  }
+
+  function subscribe(req, res) {
+    const stream = openEventStream(req, res)
+    const lastEventId = Number.parseInt(getLastEventId(req), 10)
+
+    if (Number.isFinite(lastEventId)) {
+      for (const item of buffer) {
+        if (item.id > lastEventId) {
+          stream.send(event, item.data, item.id)
+        }
+      }
+    } else if (buffer.length > 0) {
+      const latest = buffer[buffer.length - 1]
+      stream.send(event, latest.data, latest.id)
+    }
+
+    clients.add(stream)
+    stream.onClose(() => clients.delete(stream))
+  }
+
+  return {
+    publish,
+    subscribe,
+    get size() {
+      return clients.size
+    }
+  }
+}
@@ -0,0 +1,38 @@
+const DURATION_UNITS_MS = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+}
+
+// Convierte "30s", "5m", "1h", "7d" (o segundos sin unidad) a milisegundos.
+// Devuelve null si el valor no es una duración válida.
+export function parseDuration(value) {
+  if (value === undefined || value === null || value === '') {
+    return null
+  }
+
+  const match = /^(\d+(?:\.\d+)?)(ms|s|m|h|d|w)?$/.exec(String(value).trim())
+  if (!match) {
+    return null
+  }
+
+  const amount = Number.parseFloat(match[1])
+  const unit = match[2] || 's'
+  const ms = Math.round(amount * DURATION_UNITS_MS[unit])
+  return ms > 0 ? ms : null
+}
+
+// Acepta epoch en milisegundos o una fecha ISO 8601.
+// Devuelve `fallback` si no hay valor y null si el valor es inválido.
+export function parseTimestamp(value, fallback) {
+  if (value === undefined || value === null || value === '') {
+    return fallback
+  }
+
+  const text = String(value).trim()
+  const timestamp = /^\d+$/.test(text) ? Number.parseInt(text, 10) : Date.parse(text)
+  return Number.isFinite(timestamp) ? timestamp : null
+}
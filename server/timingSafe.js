@@ -0,0 +1,8 @@
+import crypto from 'crypto'
+
+// Comparación en tiempo constante para no filtrar tokens o secretos por timing
+export function tokensMatch(expected, received) {
+  const a = Buffer.from(String(expected))
+  const b = Buffer.from(String(received))
+  return a.length === b.length && crypto.timingSafeEqual(a, b)
+}
@@ -0,0 +1,170 @@
+#!/usr/bin/env node
+// Administración de los tokens de la API (ver server/apiTokens.js).
+// Usa el mismo archivo que el servidor: API_TOKENS_FILE o
+// MONITOR_DATA_DIR/api-tokens.json. El servidor toma los cambios al instante.
+import path from 'path'
+import { parseArgs } from 'util'
+import { generateToken, readTokenFile, readTokenUsage, writeTokenFile } from './apiTokens.js'
+import { validateScopes } from './access.js'
+import { parseDuration } from './timeUtils.js'
+
+const USAGE = `Uso: npm run tokens -- <comando>
+
+  create <nombre> --scopes <lista> [--expires 90d]
+      Crea un token y lo muestra (es la unica vez). Scopes: *, metrics:read, export,
+      processes:read, containers:read, probes:read, alerts:read, analytics:read,
+      audit:read, logs:read:<fuente> (logs:read:* para todas).
+  list
+      Tokens con sus scopes, vencimiento, revocacion y ultimo uso.
+  rotate <id> [--grace 24h] [--expires 90d]
+      Crea un token con el mismo nombre y scopes; el anterior sigue valido
+      durante --grace y luego vence. Sin --expires el nuevo dura lo mismo
+      que el anterior (desde su creacion hasta su vencimiento).
+  revoke <id>
+      Revoca el token de inmediato.`
+
+const DEFAULT_ROTATION_GRACE = '24h'
+
+const tokensFile = path.resolve(
+  process.env.API_TOKENS_FILE || path.join(process.env.MONITOR_DATA_DIR || 'data', 'api-tokens.json')
+)
+
+function fail(message) {
+  console.error(message)
+  process.exit(1)
+}
+
+function parseExpiry(value) {
+  if (value === undefined) {
+    return null
+  }
+  const ms = parseDuration(value)
+  if (ms === null) {
+    fail(`Duracion invalida "${value}" (p.ej. 30d, 12h)`)
+  }
+  return Date.now() + ms
+}
+
+// Sin --expires, el reemplazo conserva la vida útil del token anterior
+function rotatedExpiry(value, previous) {
+  if (value !== undefined) {
+    return parseExpiry(value)
+  }
+  return previous.expiresAt ? Date.now() + (previous.expiresAt - previous.createdAt) : null
+}
+
+const formatTime = timestamp => timestamp ? new Date(timestamp).toISOString() : '-'
+
+function findToken(tokens, id) {
+  const entry = tokens.find(candidate => candidate.id === id)
+  if (!entry) {
+    fail(`No existe el token "${id}"`)
+  }
+  return entry
+}
+
+function printCreated(entry, token) {
+  console.log(`Token ${entry.id} (${entry.name}) creado, vence: ${formatTime(entry.expiresAt)}`)
+  console.log('Guardalo ahora, no se puede volver a ver:')
+  console.log(token)
+}
+
+function createEntry(name, scopes, expiresAt) {
+  const { id, token, hash } = generateToken()
+  return {
+    entry: { id, name, hash, scopes, createdAt: Date.now(), expiresAt, revokedAt: null },
+    token
+  }
+}
+
+async function run() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      scopes: { type: 'string' },
+      expires: { type: 'string' },
+      grace: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  })
+  const [command, argument] = positionals
+  if (values.help || !command) {
+    console.log(USAGE)
+    return
+  }
+
+  const tokens = [...await readTokenFile(tokensFile)]
+
+  switch (command) {
+    case 'create': {
+      if (!argument) {
+        fail('Falta el nombre del token')
+      }
+      const scopes = (values.scopes || '').split(',').map(scope => scope.trim()).filter(Boolean)
+      try {
+        validateScopes(scopes)
+      } catch (error) {
+        fail(`--scopes: ${error.message}`)
+      }
+      const { entry, token } = createEntry(argument, scopes, parseExpiry(values.expires))
+      await writeTokenFile(tokensFile, [...tokens, entry])
+      printCreated(entry, token)
+      return
+    }
+
+    case 'list': {
+      const usage = await readTokenUsage(tokensFile)
+      if (tokens.length === 0) {
+        console.log(`Sin tokens en ${tokensFile}`)
+        return
+      }
+      for (const entry of tokens) {
+        const state = entry.revokedAt ? 'revocado' : entry.expiresAt && entry.expiresAt <= Date.now() ? 'vencido' : 'activo'
+        console.log(`${entry.id}  ${entry.name}  [${state}]`)
+        console.log(`  scopes: ${entry.scopes.join(', ')}`)
+        console.log(`  creado: ${formatTime(entry.createdAt)}  vence: ${formatTime(entry.expiresAt)}  ultimo uso: ${formatTime(usage[entry.id])}`)
+      }
+      return
+    }
+
+    case 'rotate': {
+      const previous = findToken(tokens, argument)
+      if (previous.revokedAt) {
+        fail(`El token "${previous.id}" esta revocado`)
+      }
+      const graceMs = parseDuration(values.grace ?? DEFAULT_ROTATION_GRACE)
+      if (graceMs === null) {
+        fail(`Duracion invalida "${values.grace}"`)
+      }
+      const graceEnd = Date.now() + graceMs
+      const { entry, token } = createEntry(previous.name, previous.scopes, rotatedExpiry(values.expires, previous))
+      const updated = tokens.map(candidate => candidate.id === previous.id
+        ? { ...candidate, expiresAt: Math.min(candidate.expiresAt ?? graceEnd, graceEnd) }
+        : candidate)
+      await writeTokenFile(tokensFile, [...updated, entry])
+      printCreated(entry, token)
+      console.log(`El token anterior (${previous.id}) vence: ${formatTime(Math.min(previous.expiresAt ?? graceEnd, graceEnd))}`)
+      return
+    }
+
+    case 'revoke': {
+      const entry = findToken(tokens, argument)
+      if (entry.revokedAt) {
+        console.log(`El token "${entry.id}" ya estaba revocado`)
+        return
+      }
+      await writeTokenFile(tokensFile, tokens.map(candidate => candidate.id === entry.id
+        ? { ...candidate, revokedAt: Date.now() }
+        : candidate))
+      console.log(`Token ${entry.id} (${entry.name}) revocado`)
+      return
+    }
+
+    default:
+      fail(`Comando desconocido "${command}"\n\n${USAGE}`)
+  }
+}
+
+run().catch(error => {
+  fail(error instanceof Error ? error.message : String(error))
+})
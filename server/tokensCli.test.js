@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict'
+import { execFile } from 'node:child_process'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { after, before, test } from 'node:test'
+import { fileURLToPath } from 'node:url'
+import { promisify } from 'node:util'
+import { readTokenFile } from './apiTokens.js'
+
+const CLI = fileURLToPath(new URL('./tokensCli.js', import.meta.url))
+const DAY_MS = 24 * 60 * 60 * 1000
+
+let directory
+let tokensFile
+
+// Corre el CLI contra el archivo de tokens temporal
+function runCli(...args) {
+  return promisify(execFile)(process.execPath, [CLI, ...args], {
+    env: { ...process.env, API_TOKENS_FILE: tokensFile }
+  })
+}
+
+// createdAt y expiresAt salen de Date.now() distintos: unos ms de diferencia
+function assertLifetime(entry, expectedMs) {
+  assert.ok(Math.abs(entry.expiresAt - entry.createdAt - expectedMs) < 1000, `vida util ${entry.expiresAt - entry.createdAt} ms`)
+}
+
+before(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'monitor-tokens-test-'))
+  tokensFile = path.join(directory, 'api-tokens.json')
+})
+
+after(async () => {
+  await fs.rm(directory, { recursive: true, force: true })
+})
+
+test('rotate sin --expires conserva la vida util del token anterior', async () => {
+  await runCli('create', 'grafana', '--scopes', 'metrics:read', '--expires', '90d')
+  const [previous] = await readTokenFile(tokensFile)
+  assertLifetime(previous, 90 * DAY_MS)
+
+  await runCli('rotate', previous.id, '--grace', '1h')
+  const tokens = await readTokenFile(tokensFile)
+  const replacement = tokens.find(entry => entry.id !== previous.id)
+  assert.equal(replacement.name, 'grafana')
+  assert.deepEqual(replacement.scopes, ['metrics:read'])
+  assertLifetime(replacement, 90 * DAY_MS)
+})
+
+test('rotate con --expires usa la duracion indicada y sin vencimiento sigue sin vencer', async () => {
+  await runCli('create', 'ci', '--scopes', '*')
+  const previous = (await readTokenFile(tokensFile)).find(entry => entry.name === 'ci')
+  assert.equal(previous.expiresAt, null)
+
+  await runCli('rotate', previous.id)
+  const unbounded = (await readTokenFile(tokensFile)).find(entry => entry.name === 'ci' && entry.id !== previous.id)
+  assert.equal(unbounded.expiresAt, null)
+
+  await runCli('rotate', unbounded.id, '--expires', '7d')
+  const bounded = (await readTokenFile(tokensFile))
+    .find(entry => entry.name === 'ci' && entry.id !== previous.id && entry.id !== unbounded.id)
+  assertLifetime(bounded, 7 * DAY_MS)
+})
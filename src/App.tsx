@@ -1,9 +1,12 @@
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { useThemeClasses } from "@/lib/useThemeClasses"
 import { Button } from "@/components/ui/button"
 import { Separator } from "@/components/ui/separator"
 import { ResourceMonitor } from "@/components/ResourceMonitor"
 import { LogViewer } from "@/components/LogViewer"
+import { AuditViewer } from "@/components/AuditViewer"
+import { RouterLink } from "@/components/RouterLink"
+import { logsPath, matchRoute, navigate, useLocation } from "@/lib/router"
 import {
   Moon,
   Sun,
@@ -26,6 +29,18 @@ import {
  */
 function App() {
   const [theme, setTheme] = useState<'light' | 'dark'>('dark')
+  const location = useLocation()
+  const route = useMemo(() => matchRoute(location), [location])
+
+  // Enlaces viejos /logs?source=x -> /logs/x
+  useEffect(() => {
+    if (route.page !== 'logs' || !route.source || !location.params.has('source')) {
+      return
+    }
+    const params = new URLSearchParams(location.params)
+    params.delete('source')
+    navigate(logsPath(route.source, params), { replace: true })
+  }, [route, location])
 
   useEffect(() => {
     const savedTheme = (localStorage.getItem('portal_theme') as 'light' | 'dark') || 'dark'
@@ -85,7 +100,8 @@ function App() {
 
   const themeClasses = useThemeClasses(theme)
   const isDark = theme === 'dark'
-  const isLogView = typeof window !== 'undefined' && window.location.pathname.includes('/logs')
+  const isLogView = route.page === 'logs'
+  const isAuditView = route.page === 'audit'
 
   return (
     <div className={`min-h-screen gradient-background relative`}>
@@ -135,20 +151,26 @@ function App() {
               <div className={`text-sm ${themeClasses.textMuted} flex items-center gap-2 animate-fade-in`}>
                 <a href="/" className="hover:underline">Portal</a>
                 <span>/</span>
-                <span>Monitor</span>
+                {route.page === 'dashboard'
+                  ? <span>Monitor</span>
+                  : <RouterLink to="/" className="hover:underline">Monitor</RouterLink>}
               </div>
               <h1 className={`text-4xl font-bold tracking-tight ${themeClasses.text} mt-2 animate-fade-in`}>
-                {isLogView ? 'Logs del Sistema' : 'Monitor de Recursos'}
+                {isAuditView ? 'Auditoría de Accesos' : isLogView ? 'Logs del Sistema' : 'Monitor de Recursos'}
               </h1>
               <p className={`text-base mt-2 ${themeClasses.textSubtle} animate-fade-in`} style={{ animationDelay: '0.1s' }}>
-                {isLogView ? 'Consulta de logs con paginado desde el final.' : 'Monitoreo en tiempo real del servidor'}
+                {isAuditView
+                  ? 'Quién consultó logs, métricas y exportaciones.'
+                  : isLogView ? 'Consulta de logs con paginado desde el final.' : 'Monitoreo en tiempo real del servidor'}
               </p>
             </div>
 
             <Separator className="mb-8 opacity-50 animate-fade-in" style={{ animationDelay: '0.2s' }} />
 
             {/* Main Content */}
-            {isLogView ? <LogViewer theme={theme} /> : <ResourceMonitor theme={theme} />}
+            {isAuditView
+              ? <AuditViewer theme={theme} />
+              : route.page === 'logs' ? <LogViewer theme={theme} source={route.source} /> : <ResourceMonitor theme={theme} />}
 
             {/* Footer Separator */}
             <Separator className="mt-8 mb-4 opacity-50 animate-fade-in" style={{ animationDelay: '0.8s' }} />
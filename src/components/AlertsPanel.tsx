@@ -0,0 +1,222 @@
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { useThemeClasses } from "@/lib/useThemeClasses"
+import { API_URL, apiFetch, getApiHeaders } from "@/lib/api"
+import { BellRing, Check } from "lucide-react"
+
+const ALERTS_REFRESH_MS = 15000
+
+type AlertSeverity = 'warning' | 'critical'
+
+interface Alert {
+  id: string
+  ruleId: string
+  expr: string
+  severity: AlertSeverity
+  description: string | null
+  threshold: number
+  value: number
+  state: 'firing' | 'resolved'
+  startedAt: number
+  firedAt: number
+  resolvedAt: number | null
+  acknowledgedAt: number | null
+  acknowledgedBy: string | null
+}
+
+interface AlertRuleStatus {
+  id: string
+  expr: string
+  severity: AlertSeverity
+  description: string | null
+  phase: 'inactive' | 'pending' | 'firing'
+  since: number | null
+}
+
+interface AlertsResponse {
+  rules: AlertRuleStatus[]
+  active: Alert[]
+  history: Alert[]
+}
+
+const formatAlertTime = (t: number) => new Date(t).toLocaleString('es-ES', {
+  day: '2-digit',
+  month: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit'
+})
+
+interface AlertsPanelProps {
+  theme: 'light' | 'dark'
+  isVisible: boolean
+}
+
+// Sección oculta si no hay reglas configuradas ni alertas registradas
+export function AlertsPanel({ theme, isVisible }: AlertsPanelProps) {
+  const themeClasses = useThemeClasses(theme)
+  const isDark = theme === 'dark'
+  const [data, setData] = useState<AlertsResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+  const [acknowledging, setAcknowledging] = useState<string | null>(null)
+
+  const fetchAlerts = useCallback(async (abortSignal?: AbortSignal) => {
+    try {
+      const response = await apiFetch(`${API_URL}/api/alerts`, {
+        signal: abortSignal,
+        headers: getApiHeaders(),
+        cache: 'no-store'
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+
+      setData(await response.json())
+      setError(null)
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        return
+      }
+      setError(err instanceof Error ? err.message : 'Error de conexión')
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!isVisible) return
+
+    const abortController = new AbortController()
+    fetchAlerts(abortController.signal)
+
+    const intervalId = setInterval(() => {
+      fetchAlerts(abortController.signal)
+    }, ALERTS_REFRESH_MS)
+
+    return () => {
+      abortController.abort()
+      clearInterval(intervalId)
+    }
+  }, [isVisible, fetchAlerts])
+
+  const handleAcknowledge = async (id: string) => {
+    setAcknowledging(id)
+    try {
+      const response = await apiFetch(`${API_URL}/api/alerts/${encodeURIComponent(id)}/ack`, {
+        method: 'POST',
+        headers: getApiHeaders()
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+
+      await fetchAlerts()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error de conexión')
+    } finally {
+      setAcknowledging(null)
+    }
+  }
+
+  if (!error && (!data || (data.rules.length === 0 && data.active.length === 0 && data.history.length === 0))) {
+    return null
+  }
+
+  const active = data?.active ?? []
+  const history = data?.history ?? []
+  const pending = (data?.rules ?? []).filter(rule => rule.phase === 'pending')
+
+  const severityClass = (severity: AlertSeverity) => (
+    severity === 'critical'
+      ? (isDark ? 'text-red-400 bg-red-500/20' : 'text-red-700 bg-red-100')
+      : (isDark ? 'text-yellow-400 bg-yellow-500/20' : 'text-yellow-700 bg-yellow-100')
+  )
+
+  const renderAlert = (alert: Alert) => (
+    <li
+      key={alert.id}
+      className={`flex flex-col sm:flex-row sm:items-center justify-between gap-2 border-b ${themeClasses.border} py-2 last:border-b-0`}
+    >
+      <div className="min-w-0 text-xs">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={`font-bold uppercase rounded px-1.5 py-0.5 text-[11px] ${severityClass(alert.severity)}`}>
+            {alert.severity}
+          </span>
+          <span className={`font-semibold ${themeClasses.text}`}>{alert.ruleId}</span>
+          <span className={`font-mono ${themeClasses.textMuted}`}>{alert.expr}</span>
+        </div>
+        {alert.description && <p className={`mt-1 ${themeClasses.text}`}>{alert.description}</p>}
+        <p className={`mt-1 ${themeClasses.textMuted}`}>
+          Valor {alert.value} · disparada {formatAlertTime(alert.firedAt)}
+          {alert.resolvedAt !== null && ` · resuelta ${formatAlertTime(alert.resolvedAt)}`}
+          {alert.acknowledgedAt !== null && ` · reconocida ${formatAlertTime(alert.acknowledgedAt)}${alert.acknowledgedBy ? ` por ${alert.acknowledgedBy}` : ''}`}
+        </p>
+      </div>
+      {alert.state === 'firing' && alert.acknowledgedAt === null && (
+        <Button
+          onClick={() => handleAcknowledge(alert.id)}
+          variant="outline"
+          size="sm"
+          disabled={acknowledging === alert.id}
+          className={`${themeClasses.bgCard} ${themeClasses.text} border-2 ${themeClasses.border} hover:opacity-80 font-semibold gap-1 shrink-0`}
+        >
+          <Check className="w-3 h-3" />
+          Reconocer
+        </Button>
+      )}
+    </li>
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <BellRing className={`w-4 h-4 ${active.length > 0 ? (isDark ? 'text-red-400' : 'text-red-600') : themeClasses.textMuted}`} />
+          <h3 className={`text-sm font-semibold ${themeClasses.text}`}>
+            Alertas{active.length > 0 && ` (${active.length} activas)`}
+          </h3>
+        </div>
+        <Button
+          onClick={() => setShowHistory(prev => !prev)}
+          variant="outline"
+          size="sm"
+          className={`${showHistory ? themeClasses.resultBg : themeClasses.bgCard} ${themeClasses.text} border-2 ${themeClasses.border} hover:opacity-80 font-semibold`}
+          aria-pressed={showHistory}
+        >
+          Historial ({history.length})
+        </Button>
+      </div>
+
+      {error && (
+        <p className={`text-xs ${isDark ? 'text-red-400' : 'text-red-600'}`}>
+          No se pudieron cargar las alertas: {error}
+        </p>
+      )}
+
+      <div className={`${themeClasses.bgCard} rounded-md border-2 ${themeClasses.border} px-4 py-2`}>
+        {active.length === 0 ? (
+          <p className={`py-2 text-xs ${themeClasses.textMuted}`}>
+            Sin alertas activas ({data?.rules.length ?? 0} reglas).
+          </p>
+        ) : (
+          <ul>{active.map(renderAlert)}</ul>
+        )}
+        {pending.length > 0 && (
+          <p className={`py-2 text-xs ${themeClasses.textMuted}`}>
+            Pendientes: {pending.map(rule => `${rule.id} (desde ${formatAlertTime(rule.since ?? Date.now())})`).join(', ')}
+          </p>
+        )}
+      </div>
+
+      {showHistory && (
+        <div className={`${themeClasses.bgCard} rounded-md border-2 ${themeClasses.border} px-4 py-2`}>
+          {history.length === 0 ? (
+            <p className={`py-2 text-xs ${themeClasses.textMuted}`}>Sin alertas resueltas.</p>
+          ) : (
+            <ul>{history.map(renderAlert)}</ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,247 @@
+import { useCallback, useEffect, useMemo, useState, type FormEvent } from "react"
+import { Button } from "@/components/ui/button"
+import { useThemeClasses } from "@/lib/useThemeClasses"
+import { API_URL, apiFetch, getApiHeaders } from "@/lib/api"
+import { buildPath, navigate, useLocation } from "@/lib/router"
+import { ScrollText } from "lucide-react"
+
+const AUDIT_PAGE_SIZE = 100
+
+const VIA_LABELS: Record<string, string> = {
+  proxy: 'proxy',
+  token: 'token',
+  'api-token': 'token global',
+  local: 'local'
+}
+
+interface AuditEntry {
+  t: number
+  user: string
+  via: string
+  ip: string | null
+  method: string
+  route: string | null
+  path: string
+  source: string | null
+  query: Record<string, string>
+  status: number
+  completed: boolean
+  durationMs: number
+}
+
+interface AuditResponse {
+  entries: AuditEntry[]
+  next: string | null
+}
+
+interface AuditFilters {
+  user: string
+  source: string
+  route: string
+  status: string
+}
+
+const FILTER_FIELDS: Array<{ key: keyof AuditFilters; label: string; placeholder: string }> = [
+  { key: 'user', label: 'Usuario', placeholder: 'usuario o token' },
+  { key: 'source', label: 'Fuente', placeholder: 'nginx' },
+  { key: 'route', label: 'Ruta', placeholder: '/api/logs/:source' },
+  { key: 'status', label: 'Estado', placeholder: '403 o 4xx' }
+]
+
+const formatQuery = (query: Record<string, string>) => (
+  Object.entries(query).map(([key, value]) => `${key}=${value}`).join(' ')
+)
+
+interface AuditViewerProps {
+  theme: 'light' | 'dark'
+}
+
+// Auditoría de la API: quién consultó qué (logs, métricas, exportaciones).
+// Los filtros aplicados viven en la URL (/audit?user=...&status=4xx)
+export function AuditViewer({ theme }: AuditViewerProps) {
+  const themeClasses = useThemeClasses(theme)
+  const isDark = theme === 'dark'
+  const { params } = useLocation()
+  const filters = useMemo<AuditFilters>(() => ({
+    user: params.get('user') ?? '',
+    source: params.get('source') ?? '',
+    route: params.get('route') ?? '',
+    status: params.get('status') ?? ''
+  }), [params])
+  const [draft, setDraft] = useState<AuditFilters>(filters)
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [next, setNext] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [loaded, setLoaded] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Sin `before` trae la primera página; con el cursor agrega las anteriores
+  const fetchPage = useCallback(async (before: string | null, abortSignal?: AbortSignal) => {
+    const params = new URLSearchParams({ limit: String(AUDIT_PAGE_SIZE) })
+    for (const [key, value] of Object.entries(filters)) {
+      if (value.trim()) {
+        params.set(key, value.trim())
+      }
+    }
+    if (before) {
+      params.set('before', before)
+    }
+
+    setLoading(true)
+    try {
+      const response = await apiFetch(`${API_URL}/api/audit?${params}`, {
+        signal: abortSignal,
+        headers: getApiHeaders(),
+        cache: 'no-store'
+      })
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        throw new Error(body?.message ?? `HTTP ${response.status}: ${response.statusText}`)
+      }
+
+      const data: AuditResponse = await response.json()
+      setEntries(prev => before ? [...prev, ...data.entries] : data.entries)
+      setNext(data.next)
+      setError(null)
+      setLoaded(true)
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        return
+      }
+      setError(err instanceof Error ? err.message : 'Error de conexión')
+    } finally {
+      setLoading(false)
+    }
+  }, [filters])
+
+  useEffect(() => {
+    const abortController = new AbortController()
+    fetchPage(null, abortController.signal)
+    return () => abortController.abort()
+  }, [fetchPage])
+
+  // Sincronizar el formulario si los filtros cambian desde la URL (atrás/adelante)
+  useEffect(() => {
+    setDraft(filters)
+  }, [filters])
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    const nextParams = new URLSearchParams()
+    for (const [key, value] of Object.entries(draft)) {
+      if (value.trim()) {
+        nextParams.set(key, value.trim())
+      }
+    }
+    navigate(buildPath('/audit', nextParams))
+  }
+
+  const statusClass = (status: number) => {
+    if (status >= 500) return isDark ? 'text-red-400' : 'text-red-600'
+    if (status >= 400) return isDark ? 'text-amber-400' : 'text-amber-600'
+    return isDark ? 'text-green-400' : 'text-green-700'
+  }
+
+  const buttonClass = `${themeClasses.bgCard} ${themeClasses.text} border-2 ${themeClasses.border} hover:opacity-80 font-semibold h-8`
+  const headerClass = `py-1 pr-3 font-semibold ${themeClasses.textMuted}`
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-2">
+        {FILTER_FIELDS.map(field => (
+          <label key={field.key} className="flex flex-col gap-1">
+            <span className={`text-xs ${themeClasses.textMuted}`}>{field.label}</span>
+            <input
+              type="search"
+              value={draft[field.key]}
+              onChange={event => setDraft(prev => ({ ...prev, [field.key]: event.target.value }))}
+              placeholder={field.placeholder}
+              className={`rounded-md border-2 ${themeClasses.border} ${themeClasses.inputBg} ${themeClasses.text} h-8 px-2 text-sm font-mono w-40`}
+            />
+          </label>
+        ))}
+        <Button type="submit" variant="outline" className={buttonClass} disabled={loading}>
+          Filtrar
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          className={buttonClass}
+          disabled={loading}
+          onClick={() => fetchPage(null)}
+        >
+          Actualizar
+        </Button>
+      </form>
+
+      {error && (
+        <p className={`text-xs ${isDark ? 'text-red-400' : 'text-red-600'}`}>
+          No se pudo cargar la auditoría: {error}
+        </p>
+      )}
+
+      <div className={`${themeClasses.bgCard} rounded-md border-2 ${themeClasses.border} p-4 overflow-x-auto`}>
+        <div className="flex items-center gap-2 mb-3">
+          <ScrollText className={`w-4 h-4 ${themeClasses.textMuted}`} />
+          <h3 className={`text-sm font-semibold ${themeClasses.text}`}>Pedidos a la API</h3>
+          <span className={`text-xs ${themeClasses.textMuted}`}>(más reciente primero)</span>
+        </div>
+        {entries.length === 0 ? (
+          <p className={`text-xs ${themeClasses.textMuted}`}>
+            {loaded ? 'No hay pedidos que coincidan con los filtros.' : 'Cargando auditoría...'}
+          </p>
+        ) : (
+          <table className={`w-full text-xs ${themeClasses.text}`}>
+            <thead>
+              <tr className={`border-b ${themeClasses.border} text-left`}>
+                <th className={headerClass}>Fecha</th>
+                <th className={headerClass}>Usuario</th>
+                <th className={headerClass}>IP</th>
+                <th className={headerClass}>Pedido</th>
+                <th className={headerClass}>Fuente</th>
+                <th className={headerClass}>Parámetros</th>
+                <th className={`${headerClass} text-right`}>Estado</th>
+                <th className={`${headerClass} text-right`}>Duración</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry, index) => (
+                <tr key={`${entry.t}-${index}`} className={`border-b ${themeClasses.border}`}>
+                  <td className="py-1 pr-3 whitespace-nowrap tabular-nums">
+                    {new Date(entry.t).toLocaleString('es-ES')}
+                  </td>
+                  <td className="py-1 pr-3">
+                    <div className="font-semibold">{entry.user}</div>
+                    <div className={themeClasses.textMuted}>{VIA_LABELS[entry.via] ?? entry.via}</div>
+                  </td>
+                  <td className="py-1 pr-3 font-mono">{entry.ip ?? '-'}</td>
+                  <td className="py-1 pr-3 font-mono whitespace-nowrap">{entry.method} {entry.path}</td>
+                  <td className="py-1 pr-3">{entry.source ?? '-'}</td>
+                  <td className={`py-1 pr-3 font-mono max-w-xs truncate ${themeClasses.textMuted}`} title={formatQuery(entry.query)}>
+                    {formatQuery(entry.query) || '-'}
+                  </td>
+                  <td className={`py-1 pr-3 text-right tabular-nums font-semibold ${statusClass(entry.status)}`}>
+                    {entry.status}{!entry.completed && ' (cortado)'}
+                  </td>
+                  <td className="py-1 text-right tabular-nums whitespace-nowrap">{entry.durationMs} ms</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {next && entries.length > 0 && (
+          <Button
+            onClick={() => fetchPage(next)}
+            variant="outline"
+            size="sm"
+            disabled={loading}
+            className={`${buttonClass} mt-3`}
+          >
+            {loading ? 'Cargando...' : 'Cargar anteriores'}
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { useThemeClasses } from "@/lib/useThemeClasses"
+import { HISTORY_EXPORT_FORMATS, type HistoryExportFormat } from "@/lib/historyExport"
+import { Download } from "lucide-react"
+
+interface ChartExportButtonProps {
+  theme: 'light' | 'dark'
+  onExport: (format: HistoryExportFormat) => Promise<void>
+}
+
+// Acción "Exportar" del encabezado de un gráfico: elige formato y descarga
+export function ChartExportButton({ theme, onExport }: ChartExportButtonProps) {
+  const themeClasses = useThemeClasses(theme)
+  const isDark = theme === 'dark'
+  const [open, setOpen] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleExport = async (format: HistoryExportFormat) => {
+    setExporting(true)
+    setError(null)
+    try {
+      await onExport(format)
+      setOpen(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error de conexión')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const buttonClass = `${themeClasses.bgCard} ${themeClasses.text} border-2 ${themeClasses.border} hover:opacity-80 font-semibold h-7 px-2 text-xs gap-1`
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex items-center gap-1">
+        {open && HISTORY_EXPORT_FORMATS.map(format => (
+          <Button
+            key={format}
+            onClick={() => handleExport(format)}
+            variant="outline"
+            size="sm"
+            disabled={exporting}
+            className={buttonClass}
+          >
+            {format.toUpperCase()}
+          </Button>
+        ))}
+        <Button
+          onClick={() => setOpen(prev => !prev)}
+          variant="outline"
+          size="sm"
+          className={buttonClass}
+          aria-expanded={open}
+          title="Descargar los datos de la ventana mostrada"
+        >
+          <Download className="w-3 h-3" />
+          Exportar
+        </Button>
+      </div>
+      {error && (
+        <p className={`text-xs ${isDark ? 'text-red-400' : 'text-red-600'}`}>
+          No se pudo exportar: {error}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useState } from "react"
+import { useThemeClasses } from "@/lib/useThemeClasses"
+import { getUsageColorClass } from "@/lib/usageColors"
+import { API_URL, apiFetch, getApiHeaders } from "@/lib/api"
+import { formatBytes } from "@/lib/format"
+import { Container } from "lucide-react"
+
+// El servidor cachea la consulta a Docker 10 s
+const CONTAINERS_REFRESH_MS = 10000
+
+interface ContainerStats {
+  id: string
+  name: string
+  image: string
+  state: string
+  status: string
+  // null si no se pudo leer el detalle (ver error)
+  restartCount: number | null
+  // null si el contenedor no está corriendo
+  cpuPercent: number | null
+  memoryUsedBytes: number | null
+  memoryLimitBytes: number | null
+  memoryPercent: number | null
+  network: { rxBytes: number; txBytes: number } | null
+  blockIO: { readBytes: number; writeBytes: number } | null
+  // Falla al leer el detalle o las estadísticas de este contenedor
+  error: string | null
+}
+
+interface ContainersResponse {
+  enabled: boolean
+  containers: ContainerStats[]
+}
+
+interface ContainersPanelProps {
+  theme: 'light' | 'dark'
+  isVisible: boolean
+}
+
+// Sección oculta mientras el servidor no tenga acceso al socket de Docker
+export function ContainersPanel({ theme, isVisible }: ContainersPanelProps) {
+  const themeClasses = useThemeClasses(theme)
+  const isDark = theme === 'dark'
+  const [result, setResult] = useState<ContainersResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchContainers = useCallback(async (abortSignal?: AbortSignal) => {
+    try {
+      const response = await apiFetch(`${API_URL}/api/containers`, {
+        signal: abortSignal,
+        headers: getApiHeaders(),
+        cache: 'no-store'
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+
+      setResult(await response.json())
+      setError(null)
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        return
+      }
+      setError(err instanceof Error ? err.message : 'Error de conexión')
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!isVisible) return
+
+    const abortController = new AbortController()
+    fetchContainers(abortController.signal)
+
+    const intervalId = setInterval(() => {
+      fetchContainers(abortController.signal)
+    }, CONTAINERS_REFRESH_MS)
+
+    return () => {
+      abortController.abort()
+      clearInterval(intervalId)
+    }
+  }, [isVisible, fetchContainers])
+
+  if (!error && !result?.enabled) {
+    return null
+  }
+
+  const containers = result?.containers ?? []
+  const headerClass = `py-1 pr-3 font-semibold ${themeClasses.textMuted}`
+  const stateColor = (state: string) => {
+    if (state === 'running') return isDark ? 'text-green-400' : 'text-green-600'
+    if (state === 'restarting' || state === 'paused') return isDark ? 'text-yellow-400' : 'text-yellow-600'
+    return isDark ? 'text-red-400' : 'text-red-600'
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Container className={`w-4 h-4 ${themeClasses.textMuted}`} />
+        <h3 className={`text-sm font-semibold ${themeClasses.text}`}>Contenedores</h3>
+      </div>
+
+      {error && (
+        <p className={`text-xs ${isDark ? 'text-red-400' : 'text-red-600'}`}>
+          No se pudo cargar la lista de contenedores: {error}
+        </p>
+      )}
+
+      <div className={`${themeClasses.bgCard} rounded-md border-2 ${themeClasses.border} p-4 overflow-x-auto`}>
+        {containers.length === 0 ? (
+          <p className={`text-xs ${themeClasses.textMuted}`}>Sin contenedores.</p>
+        ) : (
+          <table className={`w-full text-xs ${themeClasses.text}`}>
+            <thead>
+              <tr className={`border-b ${themeClasses.border} text-left`}>
+                <th className={headerClass}>Contenedor</th>
+                <th className={headerClass}>Estado</th>
+                <th className={`${headerClass} text-right`}>CPU</th>
+                <th className={`${headerClass} text-right`}>Memoria</th>
+                <th className={`${headerClass} text-right`}>Red ↓/↑</th>
+                <th className={`${headerClass} text-right`}>Disco R/W</th>
+                <th className={`${headerClass} text-right`}>Reinicios</th>
+              </tr>
+            </thead>
+            <tbody>
+              {containers.map(item => (
+                <tr key={item.id} className={`border-b ${themeClasses.border}`}>
+                  <td className="py-1 pr-3">
+                    <div className="font-mono font-semibold">{item.name}</div>
+                    <div className={`font-mono ${themeClasses.textMuted}`}>{item.image}</div>
+                  </td>
+                  <td className="py-1 pr-3">
+                    <div className={`font-semibold ${stateColor(item.state)}`}>{item.state}</div>
+                    <div className={themeClasses.textMuted}>{item.status}</div>
+                    {item.error && (
+                      <div className={isDark ? 'text-red-400' : 'text-red-600'}>{item.error}</div>
+                    )}
+                  </td>
+                  <td className={`py-1 pr-3 text-right tabular-nums font-semibold ${item.cpuPercent === null ? themeClasses.textMuted : getUsageColorClass(item.cpuPercent, isDark).text}`}>
+                    {item.cpuPercent === null ? '-' : `${item.cpuPercent}%`}
+                  </td>
+                  <td className="py-1 pr-3 text-right tabular-nums whitespace-nowrap">
+                    {item.memoryUsedBytes === null ? '-' : formatBytes(item.memoryUsedBytes)}
+                    {item.memoryLimitBytes !== null && (
+                      <div className={themeClasses.textMuted}>
+                        de {formatBytes(item.memoryLimitBytes)}{item.memoryPercent !== null && ` (${item.memoryPercent}%)`}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-1 pr-3 text-right tabular-nums whitespace-nowrap">
+                    {item.network ? `${formatBytes(item.network.rxBytes)} / ${formatBytes(item.network.txBytes)}` : '-'}
+                  </td>
+                  <td className="py-1 pr-3 text-right tabular-nums whitespace-nowrap">
+                    {item.blockIO ? `${formatBytes(item.blockIO.readBytes)} / ${formatBytes(item.blockIO.writeBytes)}` : '-'}
+                  </td>
+                  <td className={`py-1 text-right tabular-nums ${item.restartCount ? (isDark ? 'text-yellow-400' : 'text-yellow-600') : ''}`}>
+                    {item.restartCount ?? '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,133 @@
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { useThemeClasses } from "@/lib/useThemeClasses"
+import type { HistoryExportFormat } from "@/lib/historyExport"
+import { ChartExportButton } from "./ChartExportButton"
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  CartesianGrid
+} from "recharts"
+
+export interface CpuBreakdownPoint {
+  t: number
+  time: string
+  user: number
+  system: number
+  iowait: number
+  steal: number
+}
+
+// Orden de apilado: lo que consume la aplicación abajo, esperas arriba
+const SERIES = [
+  { key: 'user', label: 'user', color: '#22c55e' },
+  { key: 'system', label: 'system', color: '#3b82f6' },
+  { key: 'iowait', label: 'iowait', color: '#f59e0b' },
+  { key: 'steal', label: 'steal', color: '#ef4444' }
+] as const
+
+interface CpuBreakdownChartProps {
+  data: CpuBreakdownPoint[]
+  theme: 'light' | 'dark'
+  onExport?: (format: HistoryExportFormat) => Promise<void>
+}
+
+export function CpuBreakdownChart({ data, theme, onExport }: CpuBreakdownChartProps) {
+  const themeClasses = useThemeClasses(theme)
+  const isDark = theme === 'dark'
+
+  const axisColor = isDark ? '#71717a' : '#a1a1aa'
+  const gridColor = isDark ? '#27272a' : '#e4e4e7'
+  const tooltipBg = isDark ? '#18181b' : '#ffffff'
+  const tooltipText = isDark ? '#fafafa' : '#09090b'
+  const tooltipBorder = isDark ? '#3f3f46' : '#d4d4d8'
+
+  return (
+    <Card className={`${themeClasses.bgCard} ${themeClasses.border} border-2 animate-fade-in-up hover:shadow-lg transition-shadow duration-300`}>
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-2">
+          <CardTitle className={`text-sm font-semibold ${themeClasses.text}`}>
+            Tiempo de CPU
+          </CardTitle>
+          {onExport && <ChartExportButton theme={theme} onExport={onExport} />}
+        </div>
+      </CardHeader>
+      <CardContent className="px-4 pb-4">
+        <ResponsiveContainer width="100%" height={180}>
+          <AreaChart
+            data={data}
+            margin={{ top: 5, right: 15, left: 0, bottom: 0 }}
+          >
+            <CartesianGrid
+              stroke={gridColor}
+              strokeWidth={0.5}
+              strokeDasharray="4 4"
+              horizontal={true}
+              vertical={false}
+              opacity={0.3}
+            />
+
+            <XAxis
+              dataKey="time"
+              tick={{ fill: axisColor, fontSize: 10 }}
+              stroke="none"
+              axisLine={false}
+              tickLine={false}
+              interval="preserveStartEnd"
+              tickFormatter={(value) => {
+                const parts = value.split(':')
+                return `${parts[0]}:${parts[1]}`
+              }}
+            />
+
+            <YAxis
+              tick={{ fill: axisColor, fontSize: 11, fontWeight: 500 }}
+              axisLine={false}
+              tickLine={false}
+              domain={[0, 100]}
+              ticks={[0, 25, 50, 75, 100]}
+              tickFormatter={(value) => `${value}%`}
+              width={35}
+              tickMargin={8}
+            />
+
+            <Tooltip
+              contentStyle={{
+                backgroundColor: tooltipBg,
+                border: `1px solid ${tooltipBorder}`,
+                borderRadius: '12px',
+                padding: '12px',
+                color: tooltipText
+              }}
+              formatter={(value: number | undefined, name: string | undefined) => [`${value ?? 0}%`, name]}
+              labelStyle={{ color: axisColor, fontSize: '11px', fontWeight: 500 }}
+              animationDuration={200}
+            />
+
+            <Legend wrapperStyle={{ fontSize: '11px', color: axisColor }} iconSize={8} />
+
+            {SERIES.map(series => (
+              <Area
+                key={series.key}
+                type="monotone"
+                dataKey={series.key}
+                name={series.label}
+                stackId="cpu"
+                stroke={series.color}
+                fill={series.color}
+                fillOpacity={0.35}
+                strokeWidth={1.5}
+                isAnimationActive={false}
+                dot={false}
+              />
+            ))}
+          </AreaChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,67 @@
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { useThemeClasses } from "@/lib/useThemeClasses"
+
+export interface LoadAverage {
+  load1: number
+  load5: number
+  load15: number
+}
+
+interface CpuCoresCardProps {
+  cores: number[]
+  loadAverage?: LoadAverage
+  theme: 'light' | 'dark'
+}
+
+// Intensidad del mapa de calor: del verde (libre) al rojo (saturado)
+const getHeatColor = (load: number) => {
+  const hue = 120 - Math.min(Math.max(load, 0), 100) * 1.2
+  return `hsl(${hue}, 70%, 45%)`
+}
+
+export function CpuCoresCard({ cores, loadAverage, theme }: CpuCoresCardProps) {
+  const themeClasses = useThemeClasses(theme)
+  // Load average relativo a la cantidad de cores (1.0 = todos ocupados)
+  const saturation = loadAverage && cores.length > 0 ? loadAverage.load1 / cores.length : null
+
+  return (
+    <Card className={`${themeClasses.bgCard} ${themeClasses.border} border-2 animate-fade-in-up hover:shadow-lg transition-shadow duration-300`}>
+      <CardHeader className="pb-2">
+        <CardTitle className={`text-sm font-semibold ${themeClasses.text}`}>
+          CPU por core
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 pb-4 space-y-3">
+        {cores.length === 0 ? (
+          <p className={`text-sm ${themeClasses.textMuted}`}>Sin datos por core.</p>
+        ) : (
+          <div className="grid grid-cols-[repeat(auto-fill,minmax(3rem,1fr))] gap-1.5">
+            {cores.map((load, index) => (
+              <div
+                key={index}
+                className="rounded-md px-1 py-2 text-center text-white transition-colors duration-500"
+                style={{ backgroundColor: getHeatColor(load) }}
+                title={`Core ${index}: ${load}%`}
+              >
+                <div className="text-[10px] opacity-80">#{index}</div>
+                <div className="text-xs font-semibold">{load}%</div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {loadAverage && (
+          <div className={`flex flex-wrap items-baseline gap-x-4 gap-y-1 text-xs ${themeClasses.textMuted}`}>
+            <span>Load average</span>
+            <span><span className={`font-semibold ${themeClasses.text}`}>{loadAverage.load1.toFixed(2)}</span> 1m</span>
+            <span><span className={`font-semibold ${themeClasses.text}`}>{loadAverage.load5.toFixed(2)}</span> 5m</span>
+            <span><span className={`font-semibold ${themeClasses.text}`}>{loadAverage.load15.toFixed(2)}</span> 15m</span>
+            {saturation !== null && (
+              <span>({saturation.toFixed(2)} por core)</span>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
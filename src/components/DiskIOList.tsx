@@ -0,0 +1,49 @@
+import { useThemeClasses } from "@/lib/useThemeClasses"
+import { formatByteRate } from "@/lib/format"
+
+// utilization y awaitMs son null cuando el servidor no puede leer /proc/diskstats
+export interface DiskIOStats {
+  device: string
+  readBytesPerSec: number
+  writeBytesPerSec: number
+  readIops: number
+  writeIops: number
+  utilization: number | null
+  awaitMs: number | null
+}
+
+interface DiskIOListProps {
+  devices: DiskIOStats[]
+  theme: 'light' | 'dark'
+}
+
+export function DiskIOList({ devices, theme }: DiskIOListProps) {
+  const themeClasses = useThemeClasses(theme)
+  const isDark = theme === 'dark'
+  const readColor = isDark ? 'text-teal-400' : 'text-teal-600'
+  const writeColor = isDark ? 'text-orange-400' : 'text-orange-600'
+
+  if (devices.length === 0) {
+    return <p className={`mt-3 text-xs ${themeClasses.textMuted}`}>Midiendo E/S...</p>
+  }
+
+  return (
+    <ul className="mt-3 space-y-1.5 text-xs">
+      {devices.map(item => (
+        <li key={item.device} className="flex flex-wrap justify-between gap-x-3">
+          <span className={`font-mono font-semibold ${themeClasses.text}`}>{item.device}</span>
+          <span>
+            <span className={readColor}>R {formatByteRate(item.readBytesPerSec)}</span>
+            {' '}
+            <span className={writeColor}>W {formatByteRate(item.writeBytesPerSec)}</span>
+          </span>
+          <span className={`w-full text-[11px] ${themeClasses.textMuted}`}>
+            {Math.round(item.readIops + item.writeIops)} IOPS
+            {item.utilization !== null && ` · ${item.utilization}% ocupado`}
+            {item.awaitMs !== null && ` · ${item.awaitMs} ms/op`}
+          </span>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,97 @@
+import { HardDrive } from "lucide-react"
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { useThemeClasses } from "@/lib/useThemeClasses"
+import { getUsageColorClass } from "@/lib/usageColors"
+
+export interface DiskUsage {
+  mount: string
+  device: string
+  type: string
+  size: number
+  used: number
+  available: number
+  use: number
+  inodes: { total: number; used: number; free: number; use: number } | null
+}
+
+interface DiskUsageCardProps {
+  disks: DiskUsage[]
+  selectedMount: string | null
+  onSelect: (mount: string) => void
+  theme: 'light' | 'dark'
+  delayClass?: string
+}
+
+const formatGB = (bytes: number) => (bytes / (1024 ** 3)).toFixed(1)
+
+export function DiskUsageCard({
+  disks,
+  selectedMount,
+  onSelect,
+  theme,
+  delayClass = ''
+}: DiskUsageCardProps) {
+  const themeClasses = useThemeClasses(theme)
+  const isDark = theme === 'dark'
+  // El ícono toma el color del montaje más lleno
+  const fullest = disks.reduce((max, disk) => Math.max(max, disk.use), 0)
+  const headerColors = getUsageColorClass(fullest, isDark)
+
+  return (
+    <Card className={`animate-fade-in-up ${delayClass} ${themeClasses.bgCard} ${themeClasses.border} border-2 hover:shadow-lg transition-all duration-300 hover:-translate-y-1`}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className={`text-sm font-semibold ${themeClasses.text}`}>
+            Discos
+          </CardTitle>
+          <div className={`p-2 rounded-lg ${headerColors.bg} transition-all duration-300`}>
+            <HardDrive className={`w-4 h-4 ${headerColors.text}`} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {disks.length === 0 ? (
+          <p className={`text-sm ${themeClasses.textMuted}`}>Sin datos de discos.</p>
+        ) : (
+          <ul className="space-y-3 max-h-64 overflow-auto pr-1">
+            {disks.map(disk => {
+              const colors = getUsageColorClass(disk.use, isDark)
+              const selected = disk.mount === selectedMount
+
+              return (
+                <li key={disk.mount}>
+                  <button
+                    type="button"
+                    onClick={() => onSelect(disk.mount)}
+                    className={`w-full text-left rounded-md p-1 -m-1 ${selected ? themeClasses.resultBg : ''} ${themeClasses.bgHover}`}
+                    aria-pressed={selected}
+                    title="Ver historial de este montaje"
+                  >
+                    <div className="flex justify-between gap-2 text-xs">
+                      <span className={`font-mono font-semibold truncate ${themeClasses.text}`}>{disk.mount}</span>
+                      <span className={`font-semibold ${colors.text}`}>{Math.round(disk.use)}%</span>
+                    </div>
+                    <div className={`w-full h-2 mt-1 rounded-full overflow-hidden ${isDark ? 'bg-zinc-800/50' : 'bg-gray-200'}`}>
+                      <div
+                        className={`h-full rounded-full ${colors.bgBar} transition-all duration-700 ease-out`}
+                        style={{ width: `${Math.min(disk.use, 100)}%` }}
+                      />
+                    </div>
+                    <div className={`flex justify-between gap-2 mt-1 text-[11px] ${themeClasses.textMuted}`}>
+                      <span>{formatGB(disk.used)} GB / {formatGB(disk.size)} GB · {disk.type}</span>
+                      {disk.inodes && (
+                        <span className={disk.inodes.use >= 80 ? getUsageColorClass(disk.inodes.use, isDark).text : ''}>
+                          inodos {Math.round(disk.inodes.use)}%
+                        </span>
+                      )}
+                    </div>
+                  </button>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { useThemeClasses } from "@/lib/useThemeClasses"
+import { getUsageColorClass } from "@/lib/usageColors"
+import { API_URL, apiFetch, getApiHeaders } from "@/lib/api"
+import { Server } from "lucide-react"
+
+const HOSTS_REFRESH_MS = 10000
+
+// Id del propio servidor en /api/hosts
+export const LOCAL_HOST_ID = 'local'
+
+type HostStatus = 'ok' | 'pending' | 'unreachable'
+
+interface HostSummary {
+  cpu: number
+  memory: number
+  disk: number
+  uptime: string
+  timestamp: number
+}
+
+export interface HostInfo {
+  id: string
+  label: string
+  mode: 'local' | 'pull' | 'push'
+  status: HostStatus
+  error: string | null
+  lastSeen: number | null
+  // Última muestra conocida (se conserva aunque el agente esté caído)
+  summary: HostSummary | null
+}
+
+interface HostsResponse {
+  mode: 'standalone' | 'agent' | 'aggregator'
+  hosts: HostInfo[]
+}
+
+const formatLastSeen = (t: number) => new Date(t).toLocaleString('es-ES', {
+  day: '2-digit',
+  month: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit'
+})
+
+interface HostsOverviewProps {
+  theme: 'light' | 'dark'
+  isVisible: boolean
+  selectedHost: string
+  onSelect: (host: HostInfo) => void
+}
+
+// Selector y grilla de hosts; oculto salvo en modo agregador
+export function HostsOverview({ theme, isVisible, selectedHost, onSelect }: HostsOverviewProps) {
+  const themeClasses = useThemeClasses(theme)
+  const isDark = theme === 'dark'
+  const [data, setData] = useState<HostsResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchHosts = useCallback(async (abortSignal?: AbortSignal) => {
+    try {
+      const response = await apiFetch(`${API_URL}/api/hosts`, {
+        signal: abortSignal,
+        headers: getApiHeaders(),
+        cache: 'no-store'
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+
+      setData(await response.json())
+      setError(null)
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        return
+      }
+      setError(err instanceof Error ? err.message : 'Error de conexión')
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!isVisible) return
+
+    const abortController = new AbortController()
+    fetchHosts(abortController.signal)
+
+    const intervalId = setInterval(() => {
+      fetchHosts(abortController.signal)
+    }, HOSTS_REFRESH_MS)
+
+    return () => {
+      abortController.abort()
+      clearInterval(intervalId)
+    }
+  }, [isVisible, fetchHosts])
+
+  // Si el host elegido se quitó de la configuración, volver al local
+  useEffect(() => {
+    const current = data?.hosts ?? []
+    const local = current.find(host => host.id === LOCAL_HOST_ID)
+    if (local && !current.some(host => host.id === selectedHost)) {
+      onSelect(local)
+    }
+  }, [data, selectedHost, onSelect])
+
+  if (data?.mode !== 'aggregator') {
+    return null
+  }
+
+  const hosts = data.hosts
+
+  const statusBadge = (status: HostStatus) => {
+    if (status === 'ok') {
+      return { label: 'OK', className: isDark ? 'text-green-400 bg-green-500/20' : 'text-green-700 bg-green-100' }
+    }
+    if (status === 'unreachable') {
+      return { label: 'Sin conexión', className: isDark ? 'text-red-400 bg-red-500/20' : 'text-red-700 bg-red-100' }
+    }
+    return { label: 'Pendiente', className: `${themeClasses.textMuted} ${isDark ? 'bg-zinc-800' : 'bg-gray-100'}` }
+  }
+
+  const renderUsage = (label: string, value: number) => (
+    <span>
+      {label} <span className={`font-semibold ${getUsageColorClass(value, isDark).text}`}>{value}%</span>
+    </span>
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Server className={`w-4 h-4 ${themeClasses.textMuted}`} />
+          <h3 className={`text-sm font-semibold ${themeClasses.text}`}>Hosts</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={`text-xs ${themeClasses.textMuted}`}>Host:</span>
+          {hosts.map(host => (
+            <Button
+              key={host.id}
+              onClick={() => onSelect(host)}
+              variant="outline"
+              size="sm"
+              className={`${host.id === selectedHost ? themeClasses.resultBg : themeClasses.bgCard} ${themeClasses.text} border-2 ${themeClasses.border} hover:opacity-80 font-semibold`}
+              aria-pressed={host.id === selectedHost}
+            >
+              {host.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <p className={`text-xs ${isDark ? 'text-red-400' : 'text-red-600'}`}>
+          No se pudo actualizar la lista de hosts: {error}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {hosts.map(host => {
+          const badge = statusBadge(host.status)
+          const isSelected = host.id === selectedHost
+
+          return (
+            <button
+              key={host.id}
+              type="button"
+              onClick={() => onSelect(host)}
+              className={`${themeClasses.bgCard} rounded-md border-2 ${isSelected ? (isDark ? 'border-blue-400' : 'border-blue-500') : themeClasses.border} p-4 space-y-2 text-left hover:opacity-90`}
+              aria-pressed={isSelected}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className={`text-sm font-semibold truncate ${themeClasses.text}`}>{host.label}</div>
+                  <div className={`text-[11px] ${themeClasses.textMuted}`}>
+                    {host.mode === 'local' ? 'este servidor' : `agente ${host.mode}`}
+                  </div>
+                </div>
+                <span className={`text-[11px] font-bold rounded px-1.5 py-0.5 shrink-0 ${badge.className}`}>{badge.label}</span>
+              </div>
+
+              {host.summary ? (
+                <div className={`flex flex-wrap gap-x-3 text-xs ${themeClasses.textMuted} ${host.status === 'unreachable' ? 'opacity-60' : ''}`}>
+                  {renderUsage('CPU', host.summary.cpu)}
+                  {renderUsage('Mem', host.summary.memory)}
+                  {renderUsage('Disco', host.summary.disk)}
+                </div>
+              ) : (
+                <p className={`text-xs ${themeClasses.textMuted}`}>Sin datos todavía.</p>
+              )}
+
+              {host.status === 'unreachable' && (
+                <p className={`text-[11px] break-words ${isDark ? 'text-red-400' : 'text-red-600'}`}>
+                  {host.error}
+                  {host.lastSeen !== null && ` · última muestra ${formatLastSeen(host.lastSeen)}`}
+                </p>
+              )}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
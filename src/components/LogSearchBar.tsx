@@ -0,0 +1,125 @@
+import { useEffect, useState, type FormEvent } from "react"
+import { Button } from "@/components/ui/button"
+import { useThemeClasses } from "@/lib/useThemeClasses"
+import { EMPTY_LOG_SEARCH, isSearchActive, type LogSearch } from "@/lib/logSearch"
+
+interface LogSearchBarProps {
+  value: LogSearch
+  onSearch: (search: LogSearch) => void
+  theme: 'light' | 'dark'
+  disabled?: boolean
+}
+
+export function LogSearchBar({ value, onSearch, theme, disabled = false }: LogSearchBarProps) {
+  const themeClasses = useThemeClasses(theme)
+  const [draft, setDraft] = useState<LogSearch>(value)
+
+  // Sincronizar si la búsqueda activa cambia desde afuera
+  useEffect(() => {
+    setDraft(value)
+  }, [value])
+
+  const update = <K extends keyof LogSearch>(key: K, fieldValue: LogSearch[K]) => {
+    setDraft(prev => ({ ...prev, [key]: fieldValue }))
+  }
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    onSearch(draft)
+  }
+
+  const handleClear = () => {
+    setDraft(EMPTY_LOG_SEARCH)
+    onSearch(EMPTY_LOG_SEARCH)
+  }
+
+  const handleRemoveField = (name: string) => {
+    onSearch({ ...value, fields: value.fields.filter(field => field.name !== name) })
+  }
+
+  const inputClass = `rounded-md border-2 ${themeClasses.border} ${themeClasses.inputBg} ${themeClasses.text} h-8 px-2 text-sm`
+  const checkboxLabelClass = `flex items-center gap-1 text-xs ${themeClasses.textMuted} select-none`
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="search"
+          value={draft.query}
+          onChange={event => update('query', event.target.value)}
+          placeholder={draft.regex ? 'Expresión regular...' : 'Buscar en el log...'}
+          className={`${inputClass} flex-1 font-mono`}
+          aria-label="Buscar en el log"
+        />
+        <Button
+          type="submit"
+          variant="outline"
+          className={`${themeClasses.bgCard} ${themeClasses.text} border-2 ${themeClasses.border} hover:opacity-80 font-semibold h-8`}
+          disabled={disabled}
+        >
+          Buscar
+        </Button>
+        <Button
+          type="button"
+          onClick={handleClear}
+          variant="outline"
+          className={`${themeClasses.bgCard} ${themeClasses.text} border-2 ${themeClasses.border} hover:opacity-80 font-semibold h-8`}
+          disabled={disabled || (!isSearchActive(value) && !isSearchActive(draft))}
+        >
+          Limpiar
+        </Button>
+      </div>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <label className={checkboxLabelClass}>
+          <input type="checkbox" checked={draft.regex} onChange={event => update('regex', event.target.checked)} />
+          Regex
+        </label>
+        <label className={checkboxLabelClass}>
+          <input type="checkbox" checked={draft.caseSensitive} onChange={event => update('caseSensitive', event.target.checked)} />
+          Distinguir mayúsculas
+        </label>
+        <label className={checkboxLabelClass}>
+          <input type="checkbox" checked={draft.invert} onChange={event => update('invert', event.target.checked)} />
+          Invertir (no coincide)
+        </label>
+        <label className={checkboxLabelClass}>
+          Desde
+          <input
+            type="datetime-local"
+            step={1}
+            value={draft.from}
+            onChange={event => update('from', event.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className={checkboxLabelClass}>
+          Hasta
+          <input
+            type="datetime-local"
+            step={1}
+            value={draft.to}
+            onChange={event => update('to', event.target.value)}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      {value.fields.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={`text-xs ${themeClasses.textMuted}`}>Filtros:</span>
+          {value.fields.map(field => (
+            <button
+              key={field.name}
+              type="button"
+              onClick={() => handleRemoveField(field.name)}
+              className={`rounded-md px-2 py-0.5 text-xs font-mono ${themeClasses.badge} hover:opacity-80`}
+              title="Quitar filtro"
+              disabled={disabled}
+            >
+              {field.name} = {field.value} ✕
+            </button>
+          ))}
+        </div>
+      )}
+    </form>
+  )
+}
@@ -0,0 +1,175 @@
+import { useMemo, useState } from "react"
+import { useThemeClasses } from "@/lib/useThemeClasses"
+
+export type LogFormat = 'nginx-access' | 'nginx-error' | 'text'
+
+export type LogFieldValue = string | number | null
+
+export interface LogEntry {
+  line: string
+  fields: Record<string, LogFieldValue> | null
+  // Separador visual (rotación/truncado), no es una línea del archivo
+  marker?: boolean
+}
+
+interface LogColumn {
+  key: string
+  label: string
+  filterable: boolean
+  className?: string
+  format?: (value: LogFieldValue) => string
+}
+
+const formatTime = (value: LogFieldValue) => (
+  typeof value === 'number' ? new Date(value).toLocaleString('es-ES') : '-'
+)
+
+const formatRequestTime = (value: LogFieldValue) => (
+  typeof value === 'number' ? `${Math.round(value * 1000)} ms` : '-'
+)
+
+const LOG_COLUMNS: Record<Exclude<LogFormat, 'text'>, LogColumn[]> = {
+  'nginx-access': [
+    { key: 'time', label: 'Fecha', filterable: false, format: formatTime, className: 'whitespace-nowrap' },
+    { key: 'ip', label: 'IP', filterable: true, className: 'whitespace-nowrap' },
+    { key: 'method', label: 'Método', filterable: true },
+    { key: 'path', label: 'Ruta', filterable: true, className: 'break-all' },
+    { key: 'status', label: 'Estado', filterable: true },
+    { key: 'bytes', label: 'Bytes', filterable: false },
+    { key: 'requestTime', label: 'Tiempo', filterable: false, format: formatRequestTime, className: 'whitespace-nowrap' },
+    { key: 'referer', label: 'Referer', filterable: true, className: 'break-all' },
+    { key: 'userAgent', label: 'User agent', filterable: true, className: 'break-all' }
+  ],
+  'nginx-error': [
+    { key: 'time', label: 'Fecha', filterable: false, format: formatTime, className: 'whitespace-nowrap' },
+    { key: 'level', label: 'Nivel', filterable: true },
+    { key: 'pid', label: 'PID', filterable: true },
+    { key: 'message', label: 'Mensaje', filterable: false, className: 'break-all' }
+  ]
+}
+
+const getStatusClass = (status: LogFieldValue, isDark: boolean) => {
+  if (typeof status !== 'number') return ''
+  if (status >= 500) return isDark ? 'text-red-400' : 'text-red-600'
+  if (status >= 400) return isDark ? 'text-yellow-400' : 'text-yellow-600'
+  if (status >= 300) return isDark ? 'text-blue-400' : 'text-blue-600'
+  return isDark ? 'text-green-400' : 'text-green-600'
+}
+
+const getLevelClass = (level: LogFieldValue, isDark: boolean) => {
+  if (level === 'emerg' || level === 'alert' || level === 'crit' || level === 'error') {
+    return isDark ? 'text-red-400' : 'text-red-600'
+  }
+  if (level === 'warn') return isDark ? 'text-yellow-400' : 'text-yellow-600'
+  return ''
+}
+
+const compareValues = (a: LogFieldValue, b: LogFieldValue) => {
+  // Valores vacíos siempre al final
+  if (a === null || a === undefined) return b === null || b === undefined ? 0 : 1
+  if (b === null || b === undefined) return -1
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  return String(a).localeCompare(String(b))
+}
+
+interface LogTableProps {
+  format: Exclude<LogFormat, 'text'>
+  entries: LogEntry[]
+  // Posición de cada entrada desde la más nueva (data-line) y la marcada como ancla
+  positions: Array<number | null>
+  anchor: number | null
+  theme: 'light' | 'dark'
+  onFilter: (field: string, value: string) => void
+}
+
+export function LogTable({ format, entries, positions, anchor, theme, onFilter }: LogTableProps) {
+  const themeClasses = useThemeClasses(theme)
+  const isDark = theme === 'dark'
+  const columns = LOG_COLUMNS[format]
+  const [sort, setSort] = useState<{ key: string; direction: 'asc' | 'desc' } | null>(null)
+
+  // El orden se aplica sobre las filas cargadas; sin orden se respeta el del archivo
+  // Cada fila conserva su índice en `entries` para ubicar su posición
+  const rows = useMemo(() => {
+    const indexed = entries.map((entry, index) => ({ entry, index }))
+    if (!sort) {
+      return indexed
+    }
+    const sorted = indexed.filter(({ entry }) => entry.fields && !entry.marker)
+    sorted.sort((a, b) => {
+      const result = compareValues(a.entry.fields?.[sort.key] ?? null, b.entry.fields?.[sort.key] ?? null)
+      return sort.direction === 'asc' ? result : -result
+    })
+    return sorted
+  }, [entries, sort])
+
+  const handleSort = (key: string) => {
+    setSort(prev => {
+      if (!prev || prev.key !== key) return { key, direction: 'asc' }
+      if (prev.direction === 'asc') return { key, direction: 'desc' }
+      return null
+    })
+  }
+
+  const getCellClass = (key: string, value: LogFieldValue) => {
+    if (key === 'status') return getStatusClass(value, isDark)
+    if (key === 'level') return getLevelClass(value, isDark)
+    return ''
+  }
+
+  return (
+    <table className="w-full text-left border-collapse">
+      <thead>
+        <tr className={`border-b ${themeClasses.border}`}>
+          {columns.map(column => (
+            <th key={column.key} className="py-1 pr-3 font-semibold whitespace-nowrap">
+              <button
+                type="button"
+                onClick={() => handleSort(column.key)}
+                className="hover:underline"
+                aria-sort={sort?.key === column.key ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+              >
+                {column.label}
+                {sort?.key === column.key ? (sort.direction === 'asc' ? ' ▲' : ' ▼') : ''}
+              </button>
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(({ entry, index }) => (
+          <tr
+            key={index}
+            data-line={positions[index] ?? undefined}
+            className={`border-b ${themeClasses.border} align-top ${anchor !== null && positions[index] === anchor ? (isDark ? 'bg-blue-500/25' : 'bg-blue-100') : ''}`}
+          >
+            {!entry.fields ? (
+              <td colSpan={columns.length} className={`py-1 font-mono break-all ${entry.marker ? themeClasses.textMuted : ''}`}>
+                {entry.line}
+              </td>
+            ) : columns.map(column => {
+              const value = entry.fields?.[column.key] ?? null
+              const text = column.format ? column.format(value) : (value === null ? '-' : String(value))
+              const cellClass = `py-1 pr-3 font-mono ${column.className ?? ''} ${getCellClass(column.key, value)}`
+
+              return (
+                <td key={column.key} className={cellClass}>
+                  {column.filterable && value !== null ? (
+                    <button
+                      type="button"
+                      onClick={() => onFilter(column.key, String(value))}
+                      className="text-left hover:underline"
+                      title="Filtrar por este valor"
+                    >
+                      {text}
+                    </button>
+                  ) : text}
+                </td>
+              )
+            })}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
@@ -1,74 +1,197 @@
-import { useEffect, useMemo, useState } from "react"
+import { Fragment, useEffect, useLayoutEffect, useMemo, useRef, useState, type MouseEvent, type ReactNode } from "react"
 import { Button } from "@/components/ui/button"
 import { Separator } from "@/components/ui/separator"
 import { useThemeClasses } from "@/lib/useThemeClasses"
+import { API_URL, apiFetch, getApiHeaders } from "@/lib/api"
+import { subscribeEventStream } from "@/lib/eventStream"
+import {
+  appendSearchParams,
+  buildHighlighter,
+  isSearchActive,
+  parseLogSearch,
+  type LogSearch
+} from "@/lib/logSearch"
+import { formatBytes } from "@/lib/format"
+import { LogSearchBar } from "./LogSearchBar"
+import { LogTable, type LogEntry } from "./LogTable"
+import { groupLogSources, useLogSources } from "@/lib/useLogSources"
+import { buildPath, logsPath, navigate, updateQuery, useLocation } from "@/lib/router"
 
 const DEFAULT_LIMIT = 300
+// Máximo de líneas en pantalla en modo seguimiento (se descartan las más viejas)
+const MAX_FOLLOW_LINES = 5000
+// Distancia al final (px) a partir de la cual se considera que el usuario subió
+const SCROLL_BOTTOM_THRESHOLD = 24
+// Ancla más lejana que se carga de una vez (MAX_LOG_LIMIT del servidor)
+const MAX_ANCHOR_LINE = 2000
 
-const LOG_SOURCES = {
-  nginx: "Nginx",
-  'nginx-error': "Nginx (error)",
-  reportespiolis: "Reportespiolis"
-} as const
+const RESET_LABELS: Record<string, string> = {
+  rotated: 'log rotado',
+  truncated: 'log truncado',
+  created: 'log creado'
+}
 
-type LogSource = keyof typeof LOG_SOURCES
+type ViewMode = 'text' | 'table'
 
-const getApiBaseUrl = (): string => {
-  if (import.meta.env.VITE_API_URL) {
-    return import.meta.env.VITE_API_URL
-  }
+// Ancla de la URL (?line=): posición contando desde el resultado más nuevo
+// (1 = el último). No se usa en modo seguimiento
+const parseAnchor = (value: string | null): number | null => {
+  const line = Number.parseInt(value ?? '', 10)
+  return Number.isInteger(line) && line > 0 ? Math.min(line, MAX_ANCHOR_LINE) : null
+}
+
+// Tramo de la página que viene de un mismo archivo (actual o rotado)
+interface LogSegment {
+  file: string
+  rotatedAt: number | null
+  start: number
+  count: number
+  endsGeneration: boolean
+}
+
+interface LogResponse {
+  lines?: string[]
+  entries?: LogEntry[]
+  segments?: LogSegment[]
+  hasMore: boolean
+  limit: number
+  offset: number
+  nextOffset: number
+  source: string
+  filtered?: boolean
+  // Coincidencias desde el final hasta esta página (no el total del archivo)
+  matchesThroughPage?: number
+  scannedBytes?: number
+  truncated?: boolean
+  // Datos sensibles enmascarados por el servidor para este usuario
+  redacted?: boolean
+}
+
+interface SearchSummary {
+  matchCount: number
+  scannedBytes: number
+  truncated: boolean
+}
+
+const highlightLine = (line: string, highlighter: RegExp, markClass: string): ReactNode => {
+  const parts: ReactNode[] = []
+  let lastIndex = 0
 
-  if (typeof window !== 'undefined') {
-    const path = window.location.pathname
-    if (path.startsWith('/monitor')) {
-      return '/monitor'
+  for (const match of line.matchAll(highlighter)) {
+    const start = match.index ?? 0
+    if (!match[0]) {
+      continue
     }
+    if (start > lastIndex) {
+      parts.push(line.slice(lastIndex, start))
+    }
+    parts.push(<mark key={start} className={markClass}>{match[0]}</mark>)
+    lastIndex = start + match[0].length
   }
 
-  return '.'
+  if (parts.length === 0) {
+    return line
+  }
+  if (lastIndex < line.length) {
+    parts.push(line.slice(lastIndex))
+  }
+  return parts
 }
 
-const API_URL: string = getApiBaseUrl()
+interface LogStreamLines {
+  lines?: string[]
+  entries?: LogEntry[]
+}
 
-const resolveSource = (): LogSource => {
-  if (typeof window === 'undefined') {
-    return 'nginx'
-  }
+const toEntries = (payload: { lines?: string[]; entries?: LogEntry[] }): LogEntry[] => (
+  payload.entries ?? (payload.lines ?? []).map(line => ({ line, fields: null }))
+)
 
-  const params = new URLSearchParams(window.location.search)
-  const source = params.get('source')
-  if (source === 'reportespiolis' || source === 'nginx-error') {
-    return source
+// Separador después de la línea más nueva de cada generación rotada
+// (la página viene en orden ascendente)
+const withRotationDividers = (entries: LogEntry[], segments: LogSegment[] = []): LogEntry[] => {
+  if (!segments.some(segment => segment.endsGeneration)) {
+    return entries
   }
-  return 'nginx'
+
+  return segments.flatMap(segment => {
+    const segmentEntries = entries.slice(segment.start, segment.start + segment.count)
+    if (!segment.endsGeneration) {
+      return segmentEntries
+    }
+    const rotatedAt = segment.rotatedAt ? new Date(segment.rotatedAt).toLocaleString('es-ES') : 'fecha desconocida'
+    return [
+      ...segmentEntries,
+      { line: `──── log rotado el ${rotatedAt} (${segment.file}) ────`, fields: null, marker: true }
+    ]
+  })
 }
 
-interface LogResponse {
-  lines: string[]
-  hasMore: boolean
-  limit: number
-  offset: number
-  nextOffset: number
-  source: string
+interface LogStreamReset {
+  reason: string
+}
+
+interface LogStreamFailure {
+  message: string
 }
 
 interface LogViewerProps {
   theme: 'light' | 'dark'
+  // Fuente de la ruta (/logs/:source); sin ella se usa la primera configurada
+  source: string | null
 }
 
-export function LogViewer({ theme }: LogViewerProps) {
+/**
+ * Visor de logs. La búsqueda, la vista, el seguimiento y el ancla viven en la
+ * URL (/logs/<fuente>?q=...&view=table&line=12): un enlace reproduce lo que
+ * se estaba viendo y atrás/adelante recorre las búsquedas.
+ */
+export function LogViewer({ theme, source: requestedSource }: LogViewerProps) {
   const themeClasses = useThemeClasses(theme)
-  const source = useMemo(resolveSource, [])
-  const [lines, setLines] = useState<string[]>([])
+  const { sources, loading: sourcesLoading, error: sourcesError } = useLogSources()
+  const { params } = useLocation()
+  const source = requestedSource ?? sources[0]?.id ?? null
+  const sourceInfo = sources.find(item => item.id === source)
+  const [entries, setEntries] = useState<LogEntry[]>([])
   const [offset, setOffset] = useState(0)
   const [hasMore, setHasMore] = useState(false)
   const [loading, setLoading] = useState(true)
   const [loadingMore, setLoadingMore] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [pendingEntries, setPendingEntries] = useState<LogEntry[]>([])
+  const [streamError, setStreamError] = useState<string | null>(null)
+  const [searchSummary, setSearchSummary] = useState<SearchSummary | null>(null)
+  const [redacted, setRedacted] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+  // Si el usuario está al final del log; al subir se pausa el auto-scroll
+  const atBottomRef = useRef(true)
+
+  // Búsqueda normalizada (mismos parámetros que la API): cambia solo si
+  // cambian los criterios, no con el ancla u otros parámetros de la vista
+  const searchKey = useMemo(() => {
+    const searchParams = new URLSearchParams()
+    appendSearchParams(searchParams, parseLogSearch(params))
+    return searchParams.toString()
+  }, [params])
+  const search = useMemo(() => parseLogSearch(new URLSearchParams(searchKey)), [searchKey])
+  const viewMode: ViewMode = params.get('view') === 'table' ? 'table' : 'text'
+  const follow = params.get('follow') === '1'
+  const anchor = follow ? null : parseAnchor(params.get('line'))
+  const anchorRef = useRef(anchor)
+  anchorRef.current = anchor
 
-  const sourceLabel = LOG_SOURCES[source] ?? source
+  const sourceLabel = sourceInfo?.label ?? source ?? ''
+  const sourceFormat = sourceInfo?.format ?? 'text'
+  const markClass = theme === 'dark' ? 'bg-yellow-500/40 text-inherit rounded-sm' : 'bg-yellow-200 text-inherit rounded-sm'
+  const anchorClass = theme === 'dark' ? 'bg-blue-500/25' : 'bg-blue-100'
+
+  const highlighter = useMemo(() => buildHighlighter(search), [search])
 
   const fetchPage = async (nextOffset = 0, append = false) => {
+    if (!source) {
+      return
+    }
+
     const isInitial = !append
     if (isInitial) {
       setLoading(true)
@@ -79,38 +202,54 @@ export function LogViewer({ theme }: LogViewerProps) {
     setError(null)
 
     try {
-      const headers: Record<string, string> = {
-        Accept: 'application/json'
-      }
-      const devToken = import.meta.env.DEV ? import.meta.env.VITE_MONITOR_API_TOKEN : ''
-      if (devToken) {
-        headers['X-Api-Token'] = devToken
-        headers['Authorization'] = `Bearer ${devToken}`
+      // La primera página llega hasta el ancla si está más atrás
+      const limit = isInitial && anchorRef.current ? Math.max(DEFAULT_LIMIT, anchorRef.current) : DEFAULT_LIMIT
+      const requestParams = new URLSearchParams({
+        limit: String(limit),
+        offset: String(nextOffset),
+        order: 'asc'
+      })
+      appendSearchParams(requestParams, search)
+      if (viewMode === 'table') {
+        requestParams.set('format', 'json')
       }
 
-      const response = await fetch(
-        `${API_URL}/api/logs/${source}?limit=${DEFAULT_LIMIT}&offset=${nextOffset}&order=asc`,
+      const response = await apiFetch(
+        `${API_URL}/api/logs/${source}?${requestParams}`,
         {
-          headers,
+          headers: getApiHeaders(),
           cache: 'no-store'
         }
       )
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+        // Los 400 traen el motivo (p.ej. regex inválida)
+        const failure = await response.json().catch(() => null) as { message?: string } | null
+        throw new Error(failure?.message || `HTTP ${response.status}: ${response.statusText}`)
       }
 
       const payload: LogResponse = await response.json()
-      const newLines = payload.lines || []
+      const newEntries = withRotationDividers(toEntries(payload), payload.segments)
 
-      setLines(prev => {
+      setEntries(prev => {
         if (!append) {
-          return newLines
+          return newEntries
         }
-        return [...newLines, ...prev]
+        return [...newEntries, ...prev]
       })
-      setOffset(payload.nextOffset ?? nextOffset + newLines.length)
+      setOffset(payload.nextOffset ?? nextOffset + (payload.entries ?? payload.lines ?? []).length)
       setHasMore(Boolean(payload.hasMore))
+      setRedacted(Boolean(payload.redacted))
+      if (!append) {
+        setPendingEntries([])
+      }
+      setSearchSummary(payload.filtered
+        ? {
+          matchCount: payload.matchesThroughPage ?? newEntries.length,
+          scannedBytes: payload.scannedBytes ?? 0,
+          truncated: Boolean(payload.truncated)
+        }
+        : null)
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Error desconocido'
       setError(message)
@@ -123,7 +262,208 @@ export function LogViewer({ theme }: LogViewerProps) {
   useEffect(() => {
     fetchPage(0, false)
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [source])
+  }, [source, searchKey, viewMode])
+
+  useEffect(() => {
+    if (!sourcesLoading && !source) {
+      setLoading(false)
+    }
+  }, [sourcesLoading, source])
+
+  // Agregar líneas al final; `fileLines` son las que existen en el archivo
+  // (los separadores de rotación no cuentan para el offset de "Cargar más")
+  const appendEntries = (newEntries: LogEntry[], fileLines: number) => {
+    setEntries(prev => [...prev, ...newEntries])
+    setOffset(current => current + fileLines)
+  }
+
+  // En modo seguimiento se descartan las líneas más viejas para acotar memoria;
+  // vuelven a estar disponibles con "Cargar más"
+  useEffect(() => {
+    const overflow = entries.length - MAX_FOLLOW_LINES
+    if (!follow || overflow <= 0) {
+      return
+    }
+    setEntries(prev => prev.slice(overflow))
+    setOffset(current => Math.max(0, current - overflow))
+    setHasMore(true)
+  }, [entries, follow])
+
+  // El stream aplica los mismos filtros que la búsqueda (salvo el rango de tiempo)
+  const streamUrl = useMemo(() => {
+    const params = new URLSearchParams()
+    appendSearchParams(params, search, false)
+    if (viewMode === 'table') {
+      params.set('format', 'json')
+    }
+    const query = params.toString()
+    return `${API_URL}/api/logs/${source}/stream${query ? `?${query}` : ''}`
+  }, [source, search, viewMode])
+
+  useEffect(() => {
+    if (!follow || !source) {
+      return
+    }
+
+    const unsubscribe = subscribeEventStream(streamUrl, {
+      onOpen: () => setStreamError(null),
+      onError: (streamFailure) => setStreamError(streamFailure.message),
+      onMessage: (message) => {
+        let incoming: LogEntry[] = []
+        let fileLines = 0
+
+        try {
+          if (message.event === 'lines') {
+            incoming = toEntries(JSON.parse(message.data) as LogStreamLines)
+            fileLines = incoming.length
+          } else if (message.event === 'reset') {
+            const { reason } = JSON.parse(message.data) as LogStreamReset
+            incoming = [{ line: `──── ${RESET_LABELS[reason] ?? reason} ────`, fields: null, marker: true }]
+          } else if (message.event === 'failure') {
+            setStreamError((JSON.parse(message.data) as LogStreamFailure).message)
+            return
+          }
+        } catch {
+          return
+        }
+
+        if (incoming.length === 0) {
+          return
+        }
+
+        if (atBottomRef.current) {
+          appendEntries(incoming, fileLines)
+        } else {
+          setPendingEntries(prev => [...prev, ...incoming])
+          setOffset(current => current + fileLines)
+        }
+      }
+    })
+
+    return () => {
+      unsubscribe()
+      setStreamError(null)
+    }
+  }, [follow, source, streamUrl])
+
+  // Mantener el scroll al final mientras se sigue el log
+  useLayoutEffect(() => {
+    const container = containerRef.current
+    if (follow && container && atBottomRef.current) {
+      container.scrollTop = container.scrollHeight
+    }
+  }, [entries, follow])
+
+  // Posición de cada línea contando desde la más nueva (como `line` en la
+  // URL); los separadores de rotación no cuentan
+  const linePositions = useMemo(() => {
+    const positions: Array<number | null> = new Array(entries.length).fill(null)
+    let position = 0
+    for (let index = entries.length - 1; index >= 0; index--) {
+      if (!entries[index].marker) {
+        positions[index] = ++position
+      }
+    }
+    return positions
+  }, [entries])
+
+  // Llevar el ancla a la vista al terminar cada carga
+  useLayoutEffect(() => {
+    if (loading || !anchorRef.current) {
+      return
+    }
+    containerRef.current
+      ?.querySelector(`[data-line="${anchorRef.current}"]`)
+      ?.scrollIntoView({ block: 'center' })
+  }, [loading])
+
+  // Click en una línea: marcarla como ancla (o desmarcarla). No cuenta si se
+  // está seleccionando texto o se hizo click en un filtro de la tabla
+  const handleLineClick = (event: MouseEvent<HTMLDivElement>) => {
+    const target = event.target as HTMLElement
+    const line = target.closest<HTMLElement>('[data-line]')
+    if (!line || follow || target.closest('button') || window.getSelection()?.toString()) {
+      return
+    }
+    const position = line.dataset.line ?? null
+    updateQuery({ line: position === String(anchor) ? null : position }, { replace: true })
+  }
+
+  const flushPendingEntries = () => {
+    atBottomRef.current = true
+    if (pendingEntries.length > 0) {
+      appendEntries(pendingEntries, 0)
+      setPendingEntries([])
+    }
+    const container = containerRef.current
+    if (container) {
+      container.scrollTop = container.scrollHeight
+    }
+  }
+
+  const handleScroll = () => {
+    const container = containerRef.current
+    if (!container || !follow) {
+      return
+    }
+
+    const distance = container.scrollHeight - container.scrollTop - container.clientHeight
+    const atBottom = distance <= SCROLL_BOTTOM_THRESHOLD
+    atBottomRef.current = atBottom
+    if (atBottom && pendingEntries.length > 0) {
+      flushPendingEntries()
+    }
+  }
+
+  const handleToggleFollow = () => {
+    if (follow && pendingEntries.length > 0) {
+      appendEntries(pendingEntries, 0)
+      setPendingEntries([])
+    }
+    atBottomRef.current = true
+    updateQuery({ follow: follow ? null : '1', line: null }, { replace: true })
+  }
+
+  // Nueva búsqueda: reemplaza los criterios de la URL y descarta el ancla
+  const handleSearch = (nextSearch: LogSearch) => {
+    const nextParams = new URLSearchParams(params)
+    for (const key of ['q', 'regex', 'case', 'invert', 'from', 'to', 'field', 'line']) {
+      nextParams.delete(key)
+    }
+    appendSearchParams(nextParams, nextSearch)
+    navigate(buildPath(source ? logsPath(source) : '/logs', nextParams))
+  }
+
+  // Click sobre un valor de la tabla: filtrar por ese campo
+  const handleFieldFilter = (name: string, value: string) => {
+    handleSearch({
+      ...search,
+      fields: [...search.fields.filter(field => field.name !== name), { name, value }]
+    })
+  }
+
+  const handleViewMode = (mode: ViewMode) => {
+    if (mode === viewMode) {
+      return
+    }
+    updateQuery({ view: mode === 'table' ? 'table' : null, line: null })
+  }
+
+  // Cambiar de fuente: los filtros por campo y la vista tabla dependen del
+  // formato; el texto buscado y el rango de tiempo se conservan
+  const handleSourceChange = (nextSource: string) => {
+    if (nextSource === source) {
+      return
+    }
+    const nextFormat = sources.find(item => item.id === nextSource)?.format ?? 'text'
+    const nextParams = new URLSearchParams(params)
+    nextParams.delete('field')
+    nextParams.delete('line')
+    if (nextFormat === 'text') {
+      nextParams.delete('view')
+    }
+    navigate(logsPath(nextSource, nextParams))
+  }
 
   const handleRefresh = () => fetchPage(0, false)
   const handleLoadMore = () => fetchPage(offset, true)
@@ -132,12 +472,60 @@ export function LogViewer({ theme }: LogViewerProps) {
     <div className={`animate-fade-in-up ${themeClasses.bgCard} rounded-md border-2 ${themeClasses.border} p-4`}>
       <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
         <div>
-          <h2 className={`text-lg font-semibold ${themeClasses.text}`}>Log: {sourceLabel}</h2>
+          <div className="flex flex-wrap items-center gap-2">
+            <h2 className={`text-lg font-semibold ${themeClasses.text}`}>Log:</h2>
+            {sources.length > 0 ? (
+              <select
+                value={source ?? ''}
+                onChange={event => handleSourceChange(event.target.value)}
+                className={`rounded-md border-2 ${themeClasses.border} ${themeClasses.inputBg} ${themeClasses.text} h-8 px-2 text-sm font-semibold`}
+                aria-label="Fuente de log"
+              >
+                {!sourceInfo && source && <option value={source}>{source}</option>}
+                {groupLogSources(sources).map(({ group, sources: items }) => {
+                  const options = items.map(item => (
+                    <option key={item.id} value={item.id}>{item.label}</option>
+                  ))
+                  return group
+                    ? <optgroup key={group} label={group}>{options}</optgroup>
+                    : <Fragment key="">{options}</Fragment>
+                })}
+              </select>
+            ) : (
+              <h2 className={`text-lg font-semibold ${themeClasses.text}`}>{sourceLabel}</h2>
+            )}
+          </div>
           <p className={`text-xs mt-1 ${themeClasses.textMuted}`}>
             Mostrando del más viejo al más nuevo (lo más reciente queda abajo).
+            {!follow && ' Click en una línea para marcarla: el enlace de la página la incluye.'}
           </p>
+          {follow && streamError && (
+            <p className={`text-xs mt-1 ${theme === 'dark' ? 'text-red-400' : 'text-red-600'}`}>
+              Seguimiento interrumpido: {streamError}. Reintentando...
+            </p>
+          )}
         </div>
         <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+          {sourceFormat !== 'text' && (
+            <Button
+              onClick={() => handleViewMode(viewMode === 'table' ? 'text' : 'table')}
+              variant="outline"
+              className={`${viewMode === 'table' ? themeClasses.resultBg : themeClasses.bgCard} ${themeClasses.text} border-2 ${themeClasses.border} hover:opacity-80 font-semibold h-8`}
+              aria-pressed={viewMode === 'table'}
+              disabled={loading}
+            >
+              {viewMode === 'table' ? 'Ver texto' : 'Ver tabla'}
+            </Button>
+          )}
+          <Button
+            onClick={handleToggleFollow}
+            variant="outline"
+            className={`${follow ? themeClasses.resultBg : themeClasses.bgCard} ${themeClasses.text} border-2 ${themeClasses.border} hover:opacity-80 font-semibold h-8`}
+            aria-pressed={follow}
+            disabled={loading}
+          >
+            {follow ? 'Siguiendo' : 'Seguir'}
+          </Button>
           <Button
             onClick={handleRefresh}
             variant="outline"
@@ -159,14 +547,75 @@ export function LogViewer({ theme }: LogViewerProps) {
 
       <Separator className={`my-4 opacity-50 ${themeClasses.border}`} />
 
-      {error ? (
+      <div className="mb-3">
+        <LogSearchBar value={search} onSearch={handleSearch} theme={theme} disabled={loading} />
+
+        {searchSummary && !error && (
+          <p className={`text-xs mt-2 ${themeClasses.textMuted}`}>
+            {searchSummary.matchCount} {searchSummary.matchCount === 1 ? 'coincidencia' : 'coincidencias'}
+            {hasMore ? '+' : ''} en {formatBytes(searchSummary.scannedBytes)} escaneados
+            {searchSummary.truncated ? ' (búsqueda cortada por límite de lectura, acote el texto o el rango de tiempo)' : ''}
+          </p>
+        )}
+        {redacted && !error && (
+          <p className={`text-xs mt-2 ${themeClasses.textMuted}`}>
+            Algunos datos (IPs, correos, tokens) se muestran enmascarados; la búsqueda se aplica sobre el texto enmascarado.
+          </p>
+        )}
+      </div>
+
+      {!source && !sourcesLoading ? (
+        <div className={`text-sm ${themeClasses.textMuted}`}>
+          {sourcesError ? `Error: ${sourcesError}` : 'No hay fuentes de log configuradas.'}
+        </div>
+      ) : error ? (
         <div className={`text-sm ${themeClasses.textMuted}`}>Error: {error}</div>
       ) : (
-        <div className={`rounded-md border ${themeClasses.border} ${themeClasses.inputBg} p-3 text-xs ${themeClasses.text} max-h-[70vh] overflow-auto`}>
-          {loading ? (
-            <div className={themeClasses.textMuted}>Cargando log...</div>
-          ) : (
-            <pre className="whitespace-pre-wrap break-words">{lines.join('\n')}</pre>
+        <div className="relative">
+          <div
+            ref={containerRef}
+            onScroll={handleScroll}
+            onClick={handleLineClick}
+            className={`rounded-md border ${themeClasses.border} ${themeClasses.inputBg} p-3 text-xs ${themeClasses.text} max-h-[70vh] overflow-auto`}
+          >
+            {loading ? (
+              <div className={themeClasses.textMuted}>Cargando log...</div>
+            ) : entries.length === 0 ? (
+              <div className={themeClasses.textMuted}>
+                {isSearchActive(search) ? 'Sin coincidencias para la búsqueda.' : 'El log está vacío.'}
+              </div>
+            ) : viewMode === 'table' && sourceFormat !== 'text' ? (
+              <LogTable
+                format={sourceFormat}
+                entries={entries}
+                positions={linePositions}
+                anchor={anchor}
+                theme={theme}
+                onFilter={handleFieldFilter}
+              />
+            ) : (
+              <pre className="whitespace-pre-wrap break-words">
+                {entries.map((entry, index) => (
+                  <span
+                    key={index}
+                    data-line={linePositions[index] ?? undefined}
+                    className={anchor !== null && linePositions[index] === anchor ? anchorClass : undefined}
+                  >
+                    {highlighter ? highlightLine(entry.line, highlighter, markClass) : entry.line}
+                    {'\n'}
+                  </span>
+                ))}
+              </pre>
+            )}
+          </div>
+          {follow && pendingEntries.length > 0 && (
+            <Button
+              onClick={flushPendingEntries}
+              size="sm"
+              className={`absolute bottom-3 left-1/2 -translate-x-1/2 shadow-lg ${themeClasses.badge} hover:opacity-90 font-semibold`}
+            >
+              {pendingEntries.length} {pendingEntries.length === 1 ? 'línea nueva' : 'líneas nuevas'} ↓
+            </Button>
           )}
         </div>
       )}
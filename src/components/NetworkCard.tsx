@@ -0,0 +1,121 @@
+import { Network } from "lucide-react"
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { useThemeClasses } from "@/lib/useThemeClasses"
+import { formatByteRate } from "@/lib/format"
+
+export interface NetworkInterfaceStats {
+  iface: string
+  operstate: string
+  rxBytesPerSec: number
+  txBytesPerSec: number
+  rxPacketsPerSec: number | null
+  txPacketsPerSec: number | null
+  rxErrorsPerSec: number
+  txErrorsPerSec: number
+  rxDroppedPerSec: number
+  txDroppedPerSec: number
+}
+
+interface NetworkCardProps {
+  interfaces: NetworkInterfaceStats[]
+  // null = total de todas las interfaces
+  selectedInterface: string | null
+  onSelect: (iface: string | null) => void
+  theme: 'light' | 'dark'
+}
+
+const formatPackets = (value: number | null) => (value === null ? '-' : `${Math.round(value)} pkt/s`)
+
+export function NetworkCard({ interfaces, selectedInterface, onSelect, theme }: NetworkCardProps) {
+  const themeClasses = useThemeClasses(theme)
+  const isDark = theme === 'dark'
+  const rxColor = isDark ? 'text-sky-400' : 'text-sky-600'
+  const txColor = isDark ? 'text-violet-400' : 'text-violet-600'
+  const errorColor = isDark ? 'text-red-400' : 'text-red-600'
+
+  const totalRx = interfaces.reduce((sum, item) => sum + item.rxBytesPerSec, 0)
+  const totalTx = interfaces.reduce((sum, item) => sum + item.txBytesPerSec, 0)
+
+  const rowClass = (selected: boolean) => (
+    `w-full text-left rounded-md p-1 -m-1 ${selected ? themeClasses.resultBg : ''} ${themeClasses.bgHover}`
+  )
+
+  return (
+    <Card className={`${themeClasses.bgCard} ${themeClasses.border} border-2 animate-fade-in-up hover:shadow-lg transition-shadow duration-300`}>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className={`text-sm font-semibold ${themeClasses.text}`}>
+            Red
+          </CardTitle>
+          <div className={`p-2 rounded-lg ${isDark ? 'bg-sky-400/20' : 'bg-sky-100'}`}>
+            <Network className={`w-4 h-4 ${rxColor}`} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="px-4 pb-4">
+        {interfaces.length === 0 ? (
+          <p className={`text-sm ${themeClasses.textMuted}`}>Midiendo tráfico...</p>
+        ) : (
+          <ul className="space-y-3 text-xs">
+            <li>
+              <button
+                type="button"
+                onClick={() => onSelect(null)}
+                className={rowClass(selectedInterface === null)}
+                aria-pressed={selectedInterface === null}
+              >
+                <div className="flex justify-between gap-2">
+                  <span className={`font-semibold ${themeClasses.text}`}>Total</span>
+                  <span>
+                    <span className={rxColor}>↓ {formatByteRate(totalRx)}</span>
+                    {' '}
+                    <span className={txColor}>↑ {formatByteRate(totalTx)}</span>
+                  </span>
+                </div>
+              </button>
+            </li>
+            {interfaces.map(item => {
+              const errors = item.rxErrorsPerSec + item.txErrorsPerSec
+              const dropped = item.rxDroppedPerSec + item.txDroppedPerSec
+              const selected = item.iface === selectedInterface
+
+              return (
+                <li key={item.iface}>
+                  <button
+                    type="button"
+                    onClick={() => onSelect(item.iface)}
+                    className={rowClass(selected)}
+                    aria-pressed={selected}
+                    title="Ver historial de esta interfaz"
+                  >
+                    <div className="flex justify-between gap-2">
+                      <span className={`font-mono font-semibold ${themeClasses.text}`}>
+                        {item.iface}
+                        {item.operstate !== 'up' && item.operstate !== 'unknown' && (
+                          <span className={`ml-1 font-normal ${themeClasses.textMuted}`}>({item.operstate})</span>
+                        )}
+                      </span>
+                      <span>
+                        <span className={rxColor}>↓ {formatByteRate(item.rxBytesPerSec)}</span>
+                        {' '}
+                        <span className={txColor}>↑ {formatByteRate(item.txBytesPerSec)}</span>
+                      </span>
+                    </div>
+                    <div className={`flex justify-between gap-2 mt-0.5 text-[11px] ${themeClasses.textMuted}`}>
+                      <span>{formatPackets(item.rxPacketsPerSec)} / {formatPackets(item.txPacketsPerSec)}</span>
+                      {(errors > 0 || dropped > 0) && (
+                        <span className={errorColor}>
+                          {errors > 0 ? `${errors} err/s` : ''}{errors > 0 && dropped > 0 ? ' · ' : ''}{dropped > 0 ? `${dropped} drop/s` : ''}
+                        </span>
+                      )}
+                    </div>
+                  </button>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,176 @@
+import { useCallback, useEffect, useState } from "react"
+import { useThemeClasses } from "@/lib/useThemeClasses"
+import { API_URL, apiFetch, getApiHeaders } from "@/lib/api"
+import { HeartPulse } from "lucide-react"
+import { LineChart, Line, YAxis, ResponsiveContainer } from "recharts"
+
+const PROBES_REFRESH_MS = 15000
+
+interface ProbeStatus {
+  id: string
+  label: string
+  group: string | null
+  type: 'http' | 'tcp'
+  target: string
+  intervalSeconds: number
+  // null mientras no haya ningún chequeo
+  up: boolean | null
+  lastCheck: number | null
+  latencyMs: number | null
+  lastFailure: { t: number; reason: string } | null
+  uptime: { '24h': number | null; '7d': number | null }
+  // ms es null en los chequeos fallidos (cortan la línea del sparkline)
+  latency: Array<{ t: number; ms: number | null }>
+}
+
+interface ProbesResponse {
+  probes: ProbeStatus[]
+}
+
+const formatUptime = (value: number | null) => (value === null ? '-' : `${value}%`)
+
+const formatCheckTime = (t: number) => new Date(t).toLocaleString('es-ES', {
+  day: '2-digit',
+  month: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit'
+})
+
+interface ProbesPanelProps {
+  theme: 'light' | 'dark'
+  isVisible: boolean
+}
+
+// Sección oculta si el servidor no tiene probes configurados
+export function ProbesPanel({ theme, isVisible }: ProbesPanelProps) {
+  const themeClasses = useThemeClasses(theme)
+  const isDark = theme === 'dark'
+  const [probes, setProbes] = useState<ProbeStatus[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchProbes = useCallback(async (abortSignal?: AbortSignal) => {
+    try {
+      const response = await apiFetch(`${API_URL}/api/probes`, {
+        signal: abortSignal,
+        headers: getApiHeaders(),
+        cache: 'no-store'
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+
+      const data: ProbesResponse = await response.json()
+      setProbes(data.probes)
+      setError(null)
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        return
+      }
+      setError(err instanceof Error ? err.message : 'Error de conexión')
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!isVisible) return
+
+    const abortController = new AbortController()
+    fetchProbes(abortController.signal)
+
+    const intervalId = setInterval(() => {
+      fetchProbes(abortController.signal)
+    }, PROBES_REFRESH_MS)
+
+    return () => {
+      abortController.abort()
+      clearInterval(intervalId)
+    }
+  }, [isVisible, fetchProbes])
+
+  if (!error && (!probes || probes.length === 0)) {
+    return null
+  }
+
+  const statusBadge = (up: boolean | null) => {
+    if (up === null) {
+      return { label: 'Pendiente', className: `${themeClasses.textMuted} ${isDark ? 'bg-zinc-800' : 'bg-gray-100'}` }
+    }
+    return up
+      ? { label: 'UP', className: isDark ? 'text-green-400 bg-green-500/20' : 'text-green-700 bg-green-100' }
+      : { label: 'DOWN', className: isDark ? 'text-red-400 bg-red-500/20' : 'text-red-700 bg-red-100' }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <HeartPulse className={`w-4 h-4 ${themeClasses.textMuted}`} />
+        <h3 className={`text-sm font-semibold ${themeClasses.text}`}>Servicios</h3>
+      </div>
+
+      {error && (
+        <p className={`text-xs ${isDark ? 'text-red-400' : 'text-red-600'}`}>
+          No se pudo cargar el estado de los servicios: {error}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {(probes ?? []).map(probe => {
+          const badge = statusBadge(probe.up)
+          const lineColor = probe.up === false ? '#ef4444' : '#22c55e'
+
+          return (
+            <div
+              key={probe.id}
+              className={`${themeClasses.bgCard} rounded-md border-2 ${themeClasses.border} p-4 space-y-2`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className={`text-sm font-semibold truncate ${themeClasses.text}`}>{probe.label}</div>
+                  <div className={`text-[11px] font-mono truncate ${themeClasses.textMuted}`} title={probe.target}>
+                    {probe.type.toUpperCase()} {probe.target}
+                  </div>
+                </div>
+                <span className={`text-[11px] font-bold rounded px-1.5 py-0.5 ${badge.className}`}>{badge.label}</span>
+              </div>
+
+              <ResponsiveContainer width="100%" height={40}>
+                <LineChart data={probe.latency} margin={{ top: 2, right: 0, left: 0, bottom: 2 }}>
+                  <YAxis hide domain={[0, 'auto']} />
+                  <Line
+                    type="monotone"
+                    dataKey="ms"
+                    stroke={lineColor}
+                    strokeWidth={1.5}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+
+              <div className={`flex flex-wrap justify-between gap-x-3 text-xs ${themeClasses.textMuted}`}>
+                <span>
+                  Latencia{' '}
+                  <span className={`font-semibold ${themeClasses.text}`}>
+                    {probe.latencyMs === null ? '-' : `${probe.latencyMs} ms`}
+                  </span>
+                </span>
+                <span>
+                  24 h <span className={`font-semibold ${themeClasses.text}`}>{formatUptime(probe.uptime['24h'])}</span>
+                  {' · '}
+                  7 d <span className={`font-semibold ${themeClasses.text}`}>{formatUptime(probe.uptime['7d'])}</span>
+                </span>
+              </div>
+
+              {probe.lastFailure && (
+                <p className={`text-[11px] break-words ${probe.up === false ? (isDark ? 'text-red-400' : 'text-red-600') : themeClasses.textMuted}`}>
+                  Última falla ({formatCheckTime(probe.lastFailure.t)}): {probe.lastFailure.reason}
+                </p>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { useThemeClasses } from "@/lib/useThemeClasses"
+import { getUsageColorClass } from "@/lib/usageColors"
+import { API_URL, apiFetch, getApiHeaders } from "@/lib/api"
+import { formatBytes } from "@/lib/format"
+import { ListTree } from "lucide-react"
+
+const PROCESS_REFRESH_MS = 5000
+const PROCESS_LIMIT = 25
+// Espera tras la última tecla antes de pedir el filtro al servidor
+const FILTER_DEBOUNCE_MS = 300
+
+const PROCESS_SORTS = {
+  cpu: { label: 'CPU' },
+  memory: { label: 'Memoria' }
+} as const
+
+type ProcessSort = keyof typeof PROCESS_SORTS
+
+interface ProcessInfo {
+  pid: number
+  name: string
+  command: string
+  user: string
+  cpu: number
+  memory: number
+  rssBytes: number
+  state: string
+  startedAt: number | null
+}
+
+interface ProcessesResponse {
+  total: number
+  processes: ProcessInfo[]
+}
+
+const formatStarted = (startedAt: number | null) => (
+  startedAt === null
+    ? '-'
+    : new Date(startedAt).toLocaleString('es-ES', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })
+)
+
+interface ProcessPanelProps {
+  theme: 'light' | 'dark'
+  isVisible: boolean
+}
+
+export function ProcessPanel({ theme, isVisible }: ProcessPanelProps) {
+  const themeClasses = useThemeClasses(theme)
+  const isDark = theme === 'dark'
+  const [sort, setSort] = useState<ProcessSort>('cpu')
+  const [filterDraft, setFilterDraft] = useState('')
+  const [filter, setFilter] = useState('')
+  const [result, setResult] = useState<ProcessesResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setFilter(filterDraft.trim()), FILTER_DEBOUNCE_MS)
+    return () => clearTimeout(timeoutId)
+  }, [filterDraft])
+
+  const fetchProcesses = useCallback(async (abortSignal?: AbortSignal) => {
+    const params = new URLSearchParams({ sort, limit: String(PROCESS_LIMIT) })
+    if (filter) {
+      params.set('q', filter)
+    }
+
+    try {
+      const response = await apiFetch(`${API_URL}/api/processes?${params}`, {
+        signal: abortSignal,
+        headers: getApiHeaders(),
+        cache: 'no-store'
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+
+      setResult(await response.json())
+      setError(null)
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        return
+      }
+      setError(err instanceof Error ? err.message : 'Error de conexión')
+    }
+  }, [sort, filter])
+
+  useEffect(() => {
+    if (!isVisible) return
+
+    const abortController = new AbortController()
+    fetchProcesses(abortController.signal)
+
+    const intervalId = setInterval(() => {
+      fetchProcesses(abortController.signal)
+    }, PROCESS_REFRESH_MS)
+
+    return () => {
+      abortController.abort()
+      clearInterval(intervalId)
+    }
+  }, [isVisible, fetchProcesses])
+
+  const processes = result?.processes ?? []
+  const headerClass = `py-1 pr-3 font-semibold ${themeClasses.textMuted}`
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <ListTree className={`w-4 h-4 ${themeClasses.textMuted}`} />
+          <h3 className={`text-sm font-semibold ${themeClasses.text}`}>Procesos</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="search"
+            value={filterDraft}
+            onChange={event => setFilterDraft(event.target.value)}
+            placeholder="Filtrar por nombre..."
+            className={`rounded-md border-2 ${themeClasses.border} ${themeClasses.inputBg} ${themeClasses.text} h-8 px-2 text-sm font-mono`}
+            aria-label="Filtrar procesos por nombre"
+          />
+          <span className={`text-xs ${themeClasses.textMuted}`}>Ordenar por:</span>
+          {(Object.keys(PROCESS_SORTS) as ProcessSort[]).map(key => (
+            <Button
+              key={key}
+              onClick={() => setSort(key)}
+              variant="outline"
+              size="sm"
+              className={`${key === sort ? themeClasses.resultBg : themeClasses.bgCard} ${themeClasses.text} border-2 ${themeClasses.border} hover:opacity-80 font-semibold`}
+              aria-pressed={key === sort}
+            >
+              {PROCESS_SORTS[key].label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <p className={`text-xs ${isDark ? 'text-red-400' : 'text-red-600'}`}>
+          No se pudo cargar la lista de procesos: {error}
+        </p>
+      )}
+
+      <div className={`${themeClasses.bgCard} rounded-md border-2 ${themeClasses.border} p-4 overflow-x-auto`}>
+        {processes.length === 0 ? (
+          <p className={`text-xs ${themeClasses.textMuted}`}>
+            {result ? 'Ningún proceso coincide con el filtro.' : 'Cargando procesos...'}
+          </p>
+        ) : (
+          <table className={`w-full text-xs ${themeClasses.text}`}>
+            <thead>
+              <tr className={`border-b ${themeClasses.border} text-left`}>
+                <th className={headerClass}>PID</th>
+                <th className={headerClass}>Proceso</th>
+                <th className={headerClass}>Usuario</th>
+                <th className={`${headerClass} text-right`}>CPU</th>
+                <th className={`${headerClass} text-right`}>Mem</th>
+                <th className={`${headerClass} text-right`}>RSS</th>
+                <th className={headerClass}>Estado</th>
+                <th className={headerClass}>Inicio</th>
+              </tr>
+            </thead>
+            <tbody>
+              {processes.map(item => (
+                <tr key={item.pid} className={`border-b ${themeClasses.border}`}>
+                  <td className="py-1 pr-3 tabular-nums">{item.pid}</td>
+                  <td className="py-1 pr-3 max-w-xs">
+                    <div className="font-mono font-semibold">{item.name}</div>
+                    <div className={`font-mono truncate ${themeClasses.textMuted}`} title={item.command}>
+                      {item.command}
+                    </div>
+                  </td>
+                  <td className="py-1 pr-3">{item.user}</td>
+                  <td className={`py-1 pr-3 text-right tabular-nums font-semibold ${getUsageColorClass(item.cpu, isDark).text}`}>
+                    {item.cpu}%
+                  </td>
+                  <td className="py-1 pr-3 text-right tabular-nums">{item.memory}%</td>
+                  <td className="py-1 pr-3 text-right tabular-nums whitespace-nowrap">{formatBytes(item.rssBytes)}</td>
+                  <td className="py-1 pr-3">{item.state}</td>
+                  <td className="py-1 whitespace-nowrap">{formatStarted(item.startedAt)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {result && result.total > processes.length && (
+          <p className={`mt-2 text-xs ${themeClasses.textMuted}`}>
+            Mostrando {processes.length} de {result.total} procesos.
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
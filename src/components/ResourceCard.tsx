@@ -1,6 +1,7 @@
 import { LucideIcon } from "lucide-react"
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
 import { useThemeClasses } from "@/lib/useThemeClasses"
+import { getUsageColorClass } from "@/lib/usageColors"
 
 interface ResourceCardProps {
   title: string
@@ -12,27 +13,6 @@ interface ResourceCardProps {
   delayClass?: string
 }
 
-const getColorClass = (percentage: number, isDark: boolean) => {
-  if (percentage >= 80) return {
-    text: isDark ? 'text-red-400' : 'text-red-600',
-    bg: isDark ? 'bg-red-500/20' : 'bg-red-100',
-    bgBar: 'bg-gradient-to-r from-red-500 to-red-400',
-    indicator: '⚠️'
-  }
-  if (percentage >= 60) return {
-    text: isDark ? 'text-yellow-400' : 'text-yellow-600',
-    bg: isDark ? 'bg-yellow-500/20' : 'bg-yellow-100',
-    bgBar: 'bg-gradient-to-r from-yellow-500 to-yellow-400',
-    indicator: '⚡'
-  }
-  return {
-    text: isDark ? 'text-green-400' : 'text-green-600',
-    bg: isDark ? 'bg-green-500/20' : 'bg-green-100',
-    bgBar: 'bg-gradient-to-r from-green-500 to-green-400',
-    indicator: '✓'
-  }
-}
-
 export function ResourceCard({
   title,
   value,
@@ -44,7 +24,7 @@ export function ResourceCard({
 }: ResourceCardProps) {
   const themeClasses = useThemeClasses(theme)
   const isDark = theme === 'dark'
-  const colors = getColorClass(percentage, isDark)
+  const colors = getUsageColorClass(percentage, isDark)
 
   return (
     <Card className={`animate-fade-in-up ${delayClass} ${themeClasses.bgCard} ${themeClasses.border} border-2 hover:shadow-lg transition-all duration-300 hover:-translate-y-1`}>
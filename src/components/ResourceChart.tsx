@@ -1,5 +1,8 @@
+import type { ReactNode } from "react"
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
 import { useThemeClasses } from "@/lib/useThemeClasses"
+import type { HistoryExportFormat } from "@/lib/historyExport"
+import { ChartExportButton } from "./ChartExportButton"
 import {
   AreaChart,
   Area,
@@ -10,12 +13,30 @@ import {
   CartesianGrid
 } from "recharts"
 
+export interface ChartSeries {
+  key: string
+  label: string
+  color: string
+}
+
 interface ResourceChartProps {
   title: string
-  data: Array<{ time: string; value: number }>
+  // Cada punto trae `time` y un valor numérico por serie (por defecto `value`)
+  data: Array<{ time: string }>
   color: string
   unit: string
   theme: 'light' | 'dark'
+  // 'percent' fija el eje en 0-100; 'auto' lo ajusta al máximo de las series
+  scale?: 'percent' | 'auto'
+  valueLabel?: string
+  // Varias series en el mismo gráfico (p.ej. rx/tx); reemplaza a color/valueLabel
+  series?: ChartSeries[]
+  // Formato de valores en el eje y el tooltip (p.ej. bytes/s); reemplaza a unit
+  formatValue?: (value: number) => string
+  // Contenido debajo del gráfico (p.ej. detalle por dispositivo)
+  footer?: ReactNode
+  // Descarga de los datos de la ventana mostrada (sin esto no hay "Exportar")
+  onExport?: (format: HistoryExportFormat) => Promise<void>
 }
 
 export function ResourceChart({
@@ -23,7 +44,13 @@ export function ResourceChart({
   data,
   color,
   unit,
-  theme
+  theme,
+  scale = 'percent',
+  valueLabel = 'Uso',
+  series,
+  formatValue,
+  footer,
+  onExport
 }: ResourceChartProps) {
   const themeClasses = useThemeClasses(theme)
   const isDark = theme === 'dark'
@@ -35,13 +62,23 @@ export function ResourceChart({
   const tooltipBorder = isDark ? '#3f3f46' : '#d4d4d8'
 
   const baseColor = color
+  const chartSeries = series ?? [{ key: 'value', label: valueLabel, color: baseColor }]
+  // El título puede traer espacios, barras o paréntesis (p.ej. montajes)
+  const gradientPrefix = `gradient-${title.replace(/[^a-z0-9_-]/gi, '-')}`
+  const formatTick = (value: number) => {
+    if (formatValue) return formatValue(value)
+    return scale === 'percent' ? `${value}%` : `${value}`
+  }
 
   return (
     <Card className={`${themeClasses.bgCard} ${themeClasses.border} border-2 animate-fade-in-up hover:shadow-lg transition-shadow duration-300`}>
       <CardHeader className="pb-2">
-        <CardTitle className={`text-sm font-semibold ${themeClasses.text}`}>
-          {title}
-        </CardTitle>
+        <div className="flex items-start justify-between gap-2">
+          <CardTitle className={`text-sm font-semibold ${themeClasses.text}`}>
+            {title}
+          </CardTitle>
+          {onExport && <ChartExportButton theme={theme} onExport={onExport} />}
+        </div>
       </CardHeader>
       <CardContent className="px-4 pb-4">
         <ResponsiveContainer width="100%" height={160}>
@@ -50,11 +87,13 @@ export function ResourceChart({
             margin={{ top: 5, right: 15, left: 0, bottom: 0 }}
           >
             <defs>
-              <linearGradient id={`gradient-${title}`} x1="0" y1="0" x2="0" y2="1">
-                <stop offset="0%" stopColor={baseColor} stopOpacity={0.4} />
-                <stop offset="50%" stopColor={baseColor} stopOpacity={0.15} />
-                <stop offset="100%" stopColor={baseColor} stopOpacity={0} />
-              </linearGradient>
+              {chartSeries.map(item => (
+                <linearGradient key={item.key} id={`${gradientPrefix}-${item.key}`} x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="0%" stopColor={item.color} stopOpacity={0.4} />
+                  <stop offset="50%" stopColor={item.color} stopOpacity={0.15} />
+                  <stop offset="100%" stopColor={item.color} stopOpacity={0} />
+                </linearGradient>
+              ))}
             </defs>
 
             {/* Grid horizontal sutil */}
@@ -81,17 +120,18 @@ export function ResourceChart({
               }}
             />
 
-            {/* Eje Y - porcentaje */}
+            {/* Eje Y - porcentaje o escala automática */}
             <YAxis
               tick={{ fill: axisColor, fontSize: 11, fontWeight: 500 }}
               stroke={axisColor}
               strokeWidth={0.5}
               axisLine={false}
               tickLine={false}
-              domain={[0, 100]}
-              ticks={[0, 25, 50, 75, 100]}
-              tickFormatter={(value) => `${value}%`}
-              width={35}
+              domain={scale === 'percent' ? [0, 100] : [0, 'auto']}
+              ticks={scale === 'percent' ? [0, 25, 50, 75, 100] : undefined}
+              allowDecimals={scale === 'percent'}
+              tickFormatter={formatTick}
+              width={formatValue ? 60 : 35}
               tickMargin={8}
             />
 
@@ -107,12 +147,15 @@ export function ResourceChart({
                   : '0 4px 20px rgba(0, 0, 0, 0.1)',
                 color: tooltipText
               }}
-              formatter={(value: number | undefined) => [
-                <span style={{ color: baseColor, fontWeight: 600, fontSize: '14px' }}>
-                  {value ?? 0}{unit}
-                </span>,
-                <span style={{ color: axisColor, fontSize: '12px' }}>Uso</span>
-              ]}
+              formatter={(value: number | undefined, name: string | undefined) => {
+                const item = chartSeries.find(candidate => candidate.label === name) ?? chartSeries[0]
+                return [
+                  <span style={{ color: item.color, fontWeight: 600, fontSize: '14px' }}>
+                    {formatValue ? formatValue(value ?? 0) : `${value ?? 0}${unit}`}
+                  </span>,
+                  <span style={{ color: axisColor, fontSize: '12px' }}>{item.label}</span>
+                ]
+              }}
               labelStyle={{ color: axisColor, fontSize: '11px', fontWeight: 500 }}
               cursor={{
                 stroke: baseColor,
@@ -123,25 +166,30 @@ export function ResourceChart({
               animationDuration={200}
             />
 
-            {/* Área */}
-            <Area
-              type="natural"
-              dataKey="value"
-              stroke={baseColor}
-              strokeWidth={2.5}
-              fill={`url(#gradient-${title})`}
-              animationBegin={0}
-              animationDuration={1000}
-              activeDot={{
-                r: 5,
-                fill: baseColor,
-                stroke: isDark ? '#fff' : '#fff',
-                strokeWidth: 2
-              }}
-              dot={false}
-            />
+            {/* Áreas */}
+            {chartSeries.map(item => (
+              <Area
+                key={item.key}
+                type="natural"
+                dataKey={item.key}
+                name={item.label}
+                stroke={item.color}
+                strokeWidth={2.5}
+                fill={`url(#${gradientPrefix}-${item.key})`}
+                animationBegin={0}
+                animationDuration={1000}
+                activeDot={{
+                  r: 5,
+                  fill: item.color,
+                  stroke: isDark ? '#fff' : '#fff',
+                  strokeWidth: 2
+                }}
+                dot={false}
+              />
+            ))}
           </AreaChart>
         </ResponsiveContainer>
+        {footer}
       </CardContent>
     </Card>
   )
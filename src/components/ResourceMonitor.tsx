@@ -1,79 +1,179 @@
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useRef } from "react"
 import { ResourceCard } from "./ResourceCard"
 import { ResourceChart } from "./ResourceChart"
+import { DiskUsageCard, type DiskUsage } from "./DiskUsageCard"
+import { CpuCoresCard, type LoadAverage } from "./CpuCoresCard"
+import { CpuBreakdownChart, type CpuBreakdownPoint } from "./CpuBreakdownChart"
+import { NetworkCard, type NetworkInterfaceStats } from "./NetworkCard"
+import { DiskIOList, type DiskIOStats } from "./DiskIOList"
+import { TrafficPanel } from "./TrafficPanel"
+import { ProcessPanel } from "./ProcessPanel"
+import { ContainersPanel } from "./ContainersPanel"
+import { ProbesPanel } from "./ProbesPanel"
+import { AlertsPanel } from "./AlertsPanel"
+import { HostsOverview, LOCAL_HOST_ID, type HostInfo } from "./HostsOverview"
+import { RouterLink } from "./RouterLink"
 import { Separator } from "@/components/ui/separator"
 import { Button } from "@/components/ui/button"
 import { useThemeClasses } from "@/lib/useThemeClasses"
+import { API_URL, apiFetch, getApiHeaders } from "@/lib/api"
+import { subscribeEventStream } from "@/lib/eventStream"
+import { groupLogSources, useLogSources } from "@/lib/useLogSources"
+import { useAccess } from "@/lib/useAccess"
+import { formatByteRate } from "@/lib/format"
+import { downloadHistoryExport, type HistoryExportFormat } from "@/lib/historyExport"
+import { logsPath, updateQuery, useLocation } from "@/lib/router"
 import {
   Cpu,
   MemoryStick,
-  HardDrive,
   Clock,
   Activity,
   AlertCircle
 } from "lucide-react"
 
 // Constantes de configuración
-const HISTORY_LENGTH = 20
+// El polling solo se usa como respaldo mientras el stream SSE no está conectado
 const POLL_INTERVAL_MS = 5000
-const UPDATE_INTERVAL_MS = 5000
-
-// Detectar automáticamente la ruta base de la aplicación
-// - En desarrollo: podría ser http://localhost:3001 (si se accede directo al backend)
-// - En producción con Docker: usar ruta relativa para que el navegador la resuelva correctamente
-const getApiBaseUrl = (): string => {
-  // Si hay una variable de entorno configurada, usarla
-  if (import.meta.env.VITE_API_URL) {
-    return import.meta.env.VITE_API_URL
-  }
+const HISTORY_REFRESH_MS = 60000
+
+// Ventanas de tiempo disponibles para los gráficos. La más corta se actualiza
+// en vivo con cada muestra; las demás se recargan desde el historial del servidor.
+const HISTORY_RANGES = {
+  '15m': { label: '15 min', ms: 15 * 60 * 1000 },
+  '1h': { label: '1 h', ms: 60 * 60 * 1000 },
+  '6h': { label: '6 h', ms: 6 * 60 * 60 * 1000 },
+  '24h': { label: '24 h', ms: 24 * 60 * 60 * 1000 },
+  '7d': { label: '7 días', ms: 7 * 24 * 60 * 60 * 1000 }
+} as const
+
+type HistoryRange = keyof typeof HISTORY_RANGES
+
+interface CpuBreakdown {
+  user: number
+  system: number
+  iowait: number | null
+  steal: number
+  irq: number
+}
 
-  if (typeof window !== 'undefined') {
-    const path = window.location.pathname
-    if (path.startsWith('/monitor')) {
-      return '/monitor'
-    }
-  }
+// Campos del historial para el gráfico apilado de tiempo de CPU
+const CPU_BREAKDOWN_FIELDS = ['user', 'system', 'iowait', 'steal'] as const
 
-  // Usar ruta relativa (./) para que el navegador la resuelva relativa a la ubicación actual
-  // Si estamos en /monitor/, ./api/metrics se resolverá como /monitor/api/metrics
-  return '.'
-}
+const LIVE_RANGE: HistoryRange = '15m'
 
-const API_URL: string = getApiBaseUrl()
+// Ventana de la URL (?range=); sin ella o inválida, la en vivo
+const parseHistoryRange = (value: string | null): HistoryRange => (
+  value !== null && value in HISTORY_RANGES ? value as HistoryRange : LIVE_RANGE
+)
 
 interface ResourceData {
   cpu: number
   cpuLoad?: string
+  cpuPerCore?: number[]
+  cpuBreakdown?: CpuBreakdown | null
+  loadAverage?: LoadAverage
   memory: number
   memoryUsed?: string
   memoryTotal?: string
   disk: number
   diskUsed?: string
   diskTotal?: string
+  disks?: DiskUsage[]
+  network?: NetworkInterfaceStats[]
+  diskIO?: DiskIOStats[]
   uptime: string
+  timestamp?: number
+}
+
+interface HistoryPoint {
+  t: number
+  time: string
+  value: number
+}
+
+interface NetworkPoint {
+  t: number
+  time: string
+  rx: number
+  tx: number
 }
 
+interface DiskIOPoint {
+  t: number
+  time: string
+  read: number
+  write: number
+}
+
+const DISK_IO_SERIES = [
+  { key: 'read', label: 'Lectura', color: '#14b8a6' },
+  { key: 'write', label: 'Escritura', color: '#f97316' }
+]
+
+const NETWORK_SERIES = [
+  { key: 'rx', label: 'Recibido', color: '#0ea5e9' },
+  { key: 'tx', label: 'Enviado', color: '#8b5cf6' }
+]
+
 interface HistoryData {
-  cpu: Array<{ time: string; value: number }>
-  memory: Array<{ time: string; value: number }>
-  disk: Array<{ time: string; value: number }>
+  cpu: HistoryPoint[]
+  memory: HistoryPoint[]
+  disk: HistoryPoint[]
+  // Uso por punto de montaje (campos "disk:<mount>" del historial)
+  disks: Record<string, HistoryPoint[]>
+  cpuBreakdown: CpuBreakdownPoint[]
+  // Tráfico total (campos net:rx/net:tx) y por interfaz (net:<iface>:rx/tx)
+  networkTotal: NetworkPoint[]
+  networks: Record<string, NetworkPoint[]>
+  // E/S total de disco (campos io:read/io:write, bytes/s)
+  diskIO: DiskIOPoint[]
+}
+
+interface HistorySeriesPoint {
+  t: number
+  avg: number
+  min: number
+  max: number
+}
+
+interface HistoryResponse {
+  from: number
+  to: number
+  step: number
+  resolution: string
+  series: Record<string, HistorySeriesPoint[] | undefined>
 }
 
 interface ApiResponse {
   cpu: number
   cpuLoad?: string
+  cpuPerCore?: number[]
+  cpuBreakdown?: CpuBreakdown | null
+  loadAverage?: LoadAverage
   memory: number
   memoryUsed?: string
   memoryTotal?: string
   disk: number
   diskUsed?: string
   diskTotal?: string
+  disks?: DiskUsage[]
+  network?: NetworkInterfaceStats[]
+  diskIO?: DiskIOStats[]
   uptime: string
   timestamp: number
 }
 
-// Función helper para formatear tiempo
-const formatTimeLabel = (date: Date): string => {
+// Función helper para formatear tiempo (con fecha en ventanas de un día o más)
+const formatTimeLabel = (date: Date, range: HistoryRange = LIVE_RANGE): string => {
+  if (HISTORY_RANGES[range].ms >= HISTORY_RANGES['24h'].ms) {
+    return date.toLocaleString('es-ES', {
+      day: '2-digit',
+      month: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
   return date.toLocaleTimeString('es-ES', {
     hour: '2-digit',
     minute: '2-digit',
@@ -81,21 +181,55 @@ const formatTimeLabel = (date: Date): string => {
   })
 }
 
+const toResourceData = (data: ApiResponse): ResourceData => ({
+  cpu: data.cpu,
+  cpuLoad: data.cpuLoad,
+  cpuPerCore: data.cpuPerCore,
+  cpuBreakdown: data.cpuBreakdown,
+  loadAverage: data.loadAverage,
+  memory: data.memory,
+  memoryUsed: data.memoryUsed,
+  memoryTotal: data.memoryTotal,
+  disk: data.disk,
+  diskUsed: data.diskUsed,
+  diskTotal: data.diskTotal,
+  disks: data.disks,
+  network: data.network,
+  diskIO: data.diskIO,
+  uptime: data.uptime,
+  timestamp: data.timestamp
+})
+
 // Generar datos iniciales vacíos para el historial
 const generateEmptyHistory = (): HistoryData => {
   return {
     cpu: [],
     memory: [],
-    disk: []
+    disk: [],
+    disks: {},
+    cpuBreakdown: [],
+    networkTotal: [],
+    networks: {},
+    diskIO: []
   }
 }
 
-interface ResourceMonitorProps {
+interface HostDashboardProps {
   theme: 'light' | 'dark'
+  // LOCAL_HOST_ID o el id de un agente (modo agregador)
+  host: string
+  isVisible: boolean
 }
 
-export function ResourceMonitor({ theme }: ResourceMonitorProps) {
+// Tablero de un host. Los hosts remotos se leen vía /api/hosts/:id por
+// polling (sin stream) y solo muestran métricas: logs, procesos, contenedores,
+// alertas y probes son del servidor local.
+function HostDashboard({ theme, host, isVisible }: HostDashboardProps) {
   const themeClasses = useThemeClasses(theme)
+  const isLocal = host === LOCAL_HOST_ID
+  const metricsUrl = isLocal
+    ? `${API_URL}/api/metrics`
+    : `${API_URL}/api/hosts/${encodeURIComponent(host)}/metrics`
   const [resources, setResources] = useState<ResourceData>({
     cpu: 0,
     memory: 0,
@@ -103,43 +237,31 @@ export function ResourceMonitor({ theme }: ResourceMonitorProps) {
     uptime: '--'
   })
   const [history, setHistory] = useState<HistoryData>(generateEmptyHistory())
+  const { params } = useLocation()
+  const historyRange = parseHistoryRange(params.get('range'))
+  const [selectedMount, setSelectedMount] = useState<string | null>(null)
+  // Montajes conocidos, para pedir su historial sin depender del render
+  const mountsRef = useRef<string[]>([])
+  const interfacesRef = useRef<string[]>([])
+  const [selectedInterface, setSelectedInterface] = useState<string | null>(null)
+  // Ref para que cambiar de ventana no reinicie la suscripción al stream
+  const historyRangeRef = useRef(historyRange)
+  historyRangeRef.current = historyRange
+  // Rango pedido en la última carga del historial (lo que muestran los gráficos)
+  const historyWindowRef = useRef<{ from: number; to: number } | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [isVisible, setIsVisible] = useState(() => (
-    typeof document === 'undefined' ? true : !document.hidden
-  ))
-
-  useEffect(() => {
-    if (typeof document === 'undefined') {
-      return
-    }
-
-    const handleVisibilityChange = () => {
-      setIsVisible(!document.hidden)
-    }
-
-    document.addEventListener('visibilitychange', handleVisibilityChange)
-
-    return () => {
-      document.removeEventListener('visibilitychange', handleVisibilityChange)
-    }
-  }, [])
+  const [streamConnected, setStreamConnected] = useState(false)
+  const { sources: logSources, error: logSourcesError } = useLogSources()
+  // Secciones según los grupos del usuario (el servidor igual las restringe)
+  const { canAccess } = useAccess()
 
   // Función para obtener datos de la API - envuelta en useCallback
   const fetchMetrics = useCallback(async (abortSignal?: AbortSignal): Promise<ResourceData | null> => {
     try {
-      const headers: Record<string, string> = {
-        Accept: 'application/json'
-      }
-      const devToken = import.meta.env.DEV ? import.meta.env.VITE_MONITOR_API_TOKEN : ''
-      if (devToken) {
-        headers['X-Api-Token'] = devToken
-        headers['Authorization'] = `Bearer ${devToken}`
-      }
-
-      const response = await fetch(`${API_URL}/api/metrics`, {
+      const response = await apiFetch(metricsUrl, {
         signal: abortSignal,
-        headers,
+        headers: getApiHeaders(),
         cache: 'no-store'
       })
 
@@ -152,6 +274,12 @@ export function ResourceMonitor({ theme }: ResourceMonitorProps) {
           throw new Error('Límite de peticiones alcanzado. Reintente en unos segundos.')
         }
 
+        // Agente caído o sin muestras: el agregador explica el motivo
+        if (!isLocal && response.status === 503) {
+          const body = await response.json().catch(() => null)
+          throw new Error(body?.message ?? 'El host no responde')
+        }
+
         throw new Error(`HTTP ${response.status}: ${response.statusText}`)
       }
 
@@ -162,17 +290,7 @@ export function ResourceMonitor({ theme }: ResourceMonitorProps) {
 
       const data: ApiResponse = await response.json()
 
-      return {
-        cpu: data.cpu,
-        cpuLoad: data.cpuLoad,
-        memory: data.memory,
-        memoryUsed: data.memoryUsed,
-        memoryTotal: data.memoryTotal,
-        disk: data.disk,
-        diskUsed: data.diskUsed,
-        diskTotal: data.diskTotal,
-        uptime: data.uptime
-      }
+      return toResourceData(data)
     } catch (error) {
       // No lanzar error si la petición fue abortada
       if (error instanceof Error && error.name === 'AbortError') {
@@ -188,6 +306,110 @@ export function ResourceMonitor({ theme }: ResourceMonitorProps) {
         throw new Error(`Error al conectar: ${errorMessage}${suffix}`)
 
     }
+  }, [metricsUrl, isLocal])
+
+  // Aplicar una muestra nueva (del stream o del polling de respaldo)
+  const applyMetrics = useCallback((newData: ResourceData) => {
+    setResources(newData)
+    setError(null)
+    mountsRef.current = (newData.disks ?? []).map(disk => disk.mount)
+    if (newData.network && newData.network.length > 0) {
+      interfacesRef.current = newData.network.map(item => item.iface)
+    }
+
+    // Actualizar historial en vivo (solo en la ventana corta)
+    if (historyRangeRef.current !== LIVE_RANGE) {
+      return
+    }
+
+    const sampleTime = newData.timestamp ?? Date.now()
+    const cutoff = sampleTime - HISTORY_RANGES[LIVE_RANGE].ms
+    const timeLabel = formatTimeLabel(new Date(sampleTime))
+    const append = (points: HistoryPoint[], value: number) => {
+      // Ignorar muestras repetidas (reenvíos tras reconectar el stream)
+      const last = points[points.length - 1]
+      if (last && last.t >= sampleTime) {
+        return points
+      }
+      return [
+        ...points.filter(point => point.t >= cutoff),
+        { t: sampleTime, time: timeLabel, value }
+      ]
+    }
+
+    const breakdown = newData.cpuBreakdown
+    const appendBreakdown = (points: CpuBreakdownPoint[]) => {
+      const last = points[points.length - 1]
+      if (!breakdown || (last && last.t >= sampleTime)) {
+        return points
+      }
+      return [
+        ...points.filter(point => point.t >= cutoff),
+        {
+          t: sampleTime,
+          time: timeLabel,
+          user: breakdown.user,
+          system: breakdown.system,
+          iowait: breakdown.iowait ?? 0,
+          steal: breakdown.steal
+        }
+      ]
+    }
+
+    const network = newData.network ?? []
+    const appendNetwork = (points: NetworkPoint[], rx: number, tx: number) => {
+      const last = points[points.length - 1]
+      if (last && last.t >= sampleTime) {
+        return points
+      }
+      return [...points.filter(point => point.t >= cutoff), { t: sampleTime, time: timeLabel, rx, tx }]
+    }
+
+    const diskIO = newData.diskIO ?? []
+    const appendDiskIO = (points: DiskIOPoint[]) => {
+      const last = points[points.length - 1]
+      if (diskIO.length === 0 || (last && last.t >= sampleTime)) {
+        return points
+      }
+      return [
+        ...points.filter(point => point.t >= cutoff),
+        {
+          t: sampleTime,
+          time: timeLabel,
+          read: diskIO.reduce((sum, item) => sum + item.readBytesPerSec, 0),
+          write: diskIO.reduce((sum, item) => sum + item.writeBytesPerSec, 0)
+        }
+      ]
+    }
+
+    setHistory(prev => {
+      const networks: Record<string, NetworkPoint[]> = {}
+      for (const item of network) {
+        networks[item.iface] = appendNetwork(prev.networks[item.iface] ?? [], item.rxBytesPerSec, item.txBytesPerSec)
+      }
+      const networkTotal = network.length > 0
+        ? appendNetwork(
+          prev.networkTotal,
+          network.reduce((sum, item) => sum + item.rxBytesPerSec, 0),
+          network.reduce((sum, item) => sum + item.txBytesPerSec, 0)
+        )
+        : prev.networkTotal
+
+      const disks: Record<string, HistoryPoint[]> = {}
+      for (const disk of newData.disks ?? []) {
+        disks[disk.mount] = append(prev.disks[disk.mount] ?? [], Math.round(disk.use))
+      }
+      return {
+        cpu: append(prev.cpu, newData.cpu),
+        memory: append(prev.memory, newData.memory),
+        disk: append(prev.disk, newData.disk),
+        disks,
+        cpuBreakdown: appendBreakdown(prev.cpuBreakdown),
+        networkTotal,
+        networks: network.length > 0 ? networks : prev.networks,
+        diskIO: appendDiskIO(prev.diskIO)
+      }
+    })
   }, [])
 
   const refreshMetrics = useCallback(async (abortSignal?: AbortSignal) => {
@@ -198,22 +420,122 @@ export function ResourceMonitor({ theme }: ResourceMonitorProps) {
         return
       }
 
-      setResources(newData)
-      setError(null)
+      applyMetrics(newData)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error de conexión')
+    }
+  }, [fetchMetrics, applyMetrics])
+
+  // Obtener el historial persistido para la ventana seleccionada
+  const fetchHistory = useCallback(async (range: HistoryRange, abortSignal?: AbortSignal): Promise<HistoryData | null> => {
+    const to = Date.now()
+    const from = to - HISTORY_RANGES[range].ms
+    const diskFields = mountsRef.current.map(mount => `disk:${mount}`)
+    const cpuFields = CPU_BREAKDOWN_FIELDS.map(field => `cpu:${field}`)
+    const networkFields = ['net', ...interfacesRef.current.map(iface => `net:${iface}`)]
+      .flatMap(prefix => [`${prefix}:rx`, `${prefix}:tx`])
+    const params = new URLSearchParams({
+      from: String(from),
+      to: String(to),
+      fields: ['cpu', 'memory', 'disk', ...diskFields, ...cpuFields, ...networkFields, 'io:read', 'io:write'].join(',')
+    })
+
+    try {
+      const response = await apiFetch(`${metricsUrl}/history?${params}`, {
+        signal: abortSignal,
+        headers: getApiHeaders(),
+        cache: 'no-store'
+      })
 
-      // Actualizar historial
-      const now = new Date()
-      const timeLabel = formatTimeLabel(now)
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
 
-      setHistory(prev => ({
-        cpu: [...prev.cpu.slice(1), { time: timeLabel, value: newData.cpu }],
-        memory: [...prev.memory.slice(1), { time: timeLabel, value: newData.memory }],
-        disk: [...prev.disk.slice(1), { time: timeLabel, value: newData.disk }]
+      const data: HistoryResponse = await response.json()
+      historyWindowRef.current = { from, to }
+      const toPoints = (points: HistorySeriesPoint[] = []): HistoryPoint[] => points.map(point => ({
+        t: point.t,
+        time: formatTimeLabel(new Date(point.t), range),
+        value: Math.round(point.avg)
       }))
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Error de conexión')
+
+      const disks: Record<string, HistoryPoint[]> = {}
+      for (const mount of mountsRef.current) {
+        disks[mount] = toPoints(data.series[`disk:${mount}`])
+      }
+
+      // Unir las series cpu:<campo> por timestamp para el gráfico apilado
+      const breakdownByTime = new Map<number, CpuBreakdownPoint>()
+      for (const field of CPU_BREAKDOWN_FIELDS) {
+        for (const point of data.series[`cpu:${field}`] ?? []) {
+          const entry = breakdownByTime.get(point.t) ?? {
+            t: point.t,
+            time: formatTimeLabel(new Date(point.t), range),
+            user: 0,
+            system: 0,
+            iowait: 0,
+            steal: 0
+          }
+          entry[field] = Math.round(point.avg * 10) / 10
+          breakdownByTime.set(point.t, entry)
+        }
+      }
+
+      // rx y tx vienen en series separadas: se unen por timestamp
+      const toNetworkPoints = (prefix: string): NetworkPoint[] => {
+        const byTime = new Map<number, NetworkPoint>()
+        for (const key of ['rx', 'tx'] as const) {
+          for (const point of data.series[`${prefix}:${key}`] ?? []) {
+            const entry = byTime.get(point.t) ?? {
+              t: point.t,
+              time: formatTimeLabel(new Date(point.t), range),
+              rx: 0,
+              tx: 0
+            }
+            entry[key] = Math.round(point.avg)
+            byTime.set(point.t, entry)
+          }
+        }
+        return [...byTime.values()].sort((a, b) => a.t - b.t)
+      }
+      const diskIOByTime = new Map<number, DiskIOPoint>()
+      for (const key of ['read', 'write'] as const) {
+        for (const point of data.series[`io:${key}`] ?? []) {
+          const entry = diskIOByTime.get(point.t) ?? {
+            t: point.t,
+            time: formatTimeLabel(new Date(point.t), range),
+            read: 0,
+            write: 0
+          }
+          entry[key] = Math.round(point.avg)
+          diskIOByTime.set(point.t, entry)
+        }
+      }
+      const networks: Record<string, NetworkPoint[]> = {}
+      for (const iface of interfacesRef.current) {
+        networks[iface] = toNetworkPoints(`net:${iface}`)
+      }
+
+      return {
+        cpu: toPoints(data.series.cpu),
+        memory: toPoints(data.series.memory),
+        disk: toPoints(data.series.disk),
+        disks,
+        cpuBreakdown: [...breakdownByTime.values()].sort((a, b) => a.t - b.t),
+        networkTotal: toNetworkPoints('net'),
+        networks,
+        diskIO: [...diskIOByTime.values()].sort((a, b) => a.t - b.t)
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        return null
+      }
+
+      // El historial es complementario: si falla, los gráficos arrancan vacíos
+      console.error('Error fetching history:', error instanceof Error ? error.message : error)
+      return generateEmptyHistory()
     }
-  }, [fetchMetrics])
+  }, [metricsUrl])
 
   // Cargar datos iniciales
   useEffect(() => {
@@ -228,24 +550,8 @@ export function ResourceMonitor({ theme }: ResourceMonitorProps) {
 
         if (data) {
           setResources(data)
-
-          // Inicializar historial con datos reales
-          const now = new Date()
-
-          setHistory({
-            cpu: Array(HISTORY_LENGTH).fill(null).map((_, i) => ({
-              time: formatTimeLabel(new Date(now.getTime() - (HISTORY_LENGTH - 1 - i) * UPDATE_INTERVAL_MS)),
-              value: i === HISTORY_LENGTH - 1 ? data.cpu : 0
-            })),
-            memory: Array(HISTORY_LENGTH).fill(null).map((_, i) => ({
-              time: formatTimeLabel(new Date(now.getTime() - (HISTORY_LENGTH - 1 - i) * UPDATE_INTERVAL_MS)),
-              value: i === HISTORY_LENGTH - 1 ? data.memory : 0
-            })),
-            disk: Array(HISTORY_LENGTH).fill(null).map((_, i) => ({
-              time: formatTimeLabel(new Date(now.getTime() - (HISTORY_LENGTH - 1 - i) * UPDATE_INTERVAL_MS)),
-              value: i === HISTORY_LENGTH - 1 ? data.disk : 0
-            }))
-          })
+          mountsRef.current = (data.disks ?? []).map(disk => disk.mount)
+          interfacesRef.current = (data.network ?? []).map(item => item.iface)
         } else {
           setError('No se pudo conectar al servidor de métricas')
         }
@@ -263,9 +569,37 @@ export function ResourceMonitor({ theme }: ResourceMonitorProps) {
     }
   }, [fetchMetrics])
 
-  // Actualizar datos periódicamente
+  // Recibir cada muestra del sampler del servidor vía SSE (solo host local)
   useEffect(() => {
-    if (loading || !isVisible) return
+    if (loading || !isVisible || !isLocal) return
+
+    const unsubscribe = subscribeEventStream(`${API_URL}/api/metrics/stream`, {
+      onOpen: () => setStreamConnected(true),
+      onError: (streamError) => {
+        console.error('Error en stream de métricas:', streamError.message)
+        setStreamConnected(false)
+      },
+      onMessage: (message) => {
+        if (message.event !== 'metrics') {
+          return
+        }
+        try {
+          applyMetrics(toResourceData(JSON.parse(message.data) as ApiResponse))
+        } catch {
+          // Evento malformado: se espera al siguiente
+        }
+      }
+    })
+
+    return () => {
+      unsubscribe()
+      setStreamConnected(false)
+    }
+  }, [loading, isVisible, isLocal, applyMetrics])
+
+  // Polling de respaldo mientras el stream no está disponible
+  useEffect(() => {
+    if (loading || !isVisible || streamConnected) return
 
     const abortController = new AbortController()
     refreshMetrics(abortController.signal)
@@ -278,18 +612,65 @@ export function ResourceMonitor({ theme }: ResourceMonitorProps) {
       abortController.abort()
       clearInterval(intervalId)
     }
-  }, [loading, isVisible, refreshMetrics])
+  }, [loading, isVisible, streamConnected, refreshMetrics])
 
-  const isDark = theme === 'dark'
-  const handleOpenLogs = (source: 'nginx' | 'nginx-error' | 'reportespiolis') => {
-    if (typeof window === 'undefined') {
-      return
+  // Cargar el historial al cambiar de ventana y recargarlo periódicamente
+  // en las ventanas largas (la corta se alimenta con cada muestra)
+  useEffect(() => {
+    if (loading || !isVisible) return
+
+    const abortController = new AbortController()
+    const loadHistory = async () => {
+      const data = await fetchHistory(historyRange, abortController.signal)
+      if (data) {
+        setHistory(data)
+      }
+    }
+
+    loadHistory()
+
+    const intervalId = historyRange === LIVE_RANGE
+      ? undefined
+      : setInterval(loadHistory, HISTORY_REFRESH_MS)
+
+    return () => {
+      abortController.abort()
+      clearInterval(intervalId)
     }
+  }, [loading, isVisible, historyRange, fetchHistory])
 
-    const path = window.location.pathname || ''
-    const basePath = path.startsWith('/monitor') ? '/monitor' : ''
-    const url = `${basePath}/logs?source=${source}`
-    window.open(url, '_blank', 'noopener,noreferrer')
+  const isDark = theme === 'dark'
+  const disks = resources.disks ?? []
+  // Montaje del gráfico de disco: el elegido, o / si existe
+  const activeMount = disks.some(disk => disk.mount === selectedMount)
+    ? selectedMount
+    : (disks.find(disk => disk.mount === '/') ?? disks[0])?.mount ?? null
+  const networkInterfaces = resources.network ?? []
+  const activeInterface = networkInterfaces.some(item => item.iface === selectedInterface)
+    ? selectedInterface
+    : null
+  const accessLogSource = logSources.find(source => source.format === 'nginx-access')
+  // Exportar un gráfico: la ventana en vivo avanza con cada muestra, así que
+  // se toma hasta ahora; las demás, el rango de la última carga. Sin permiso
+  // de exportación los gráficos no muestran la acción
+  const exportHistory = (name: string, fields: string[]) => canAccess('export') ? (format: HistoryExportFormat) => {
+    const now = Date.now()
+    const span = HISTORY_RANGES[historyRange].ms
+    const loaded = historyWindowRef.current
+    const shown = historyRange !== LIVE_RANGE && loaded && loaded.to - loaded.from === span
+      ? loaded
+      : { from: now - span, to: now }
+    return downloadHistoryExport({
+      metricsUrl,
+      ...shown,
+      fields,
+      format,
+      name: isLocal ? name : `${host}-${name}`
+    })
+  } : undefined
+  // La ventana queda en la URL para que un enlace muestre el mismo rango
+  const handleHistoryRange = (range: HistoryRange) => {
+    updateQuery({ range: range === LIVE_RANGE ? null : range })
   }
 
   if (loading) {
@@ -308,13 +689,15 @@ export function ResourceMonitor({ theme }: ResourceMonitorProps) {
           <AlertCircle className="w-6 h-6 text-red-500" />
           <div>
             <h3 className={`font-semibold ${isDark ? 'text-red-400' : 'text-red-700'}`}>
-              Error de conexión
+              {isLocal ? 'Error de conexión' : 'Host sin conexión'}
             </h3>
             <p className={`text-sm mt-1 ${isDark ? 'text-red-300' : 'text-red-600'}`}>
               {error}
             </p>
             <p className={`text-xs mt-2 ${isDark ? 'text-red-300/70' : 'text-red-600/70'}`}>
-              Verifica que el servicio de métricas esté disponible.
+              {isLocal
+                ? 'Verifica que el servicio de métricas esté disponible.'
+                : 'El agregador sigue reintentando; los datos vuelven a mostrarse cuando el agente responda.'}
             </p>
           </div>
         </div>
@@ -344,12 +727,10 @@ export function ResourceMonitor({ theme }: ResourceMonitorProps) {
           theme={theme}
           delayClass="stagger-2"
         />
-        <ResourceCard
-          title="Disco"
-          value={`${resources.disk}%`}
-          percentage={resources.disk}
-          icon={HardDrive}
-          details={`${resources.diskUsed} GB / ${resources.diskTotal} GB`}
+        <DiskUsageCard
+          disks={disks}
+          selectedMount={activeMount}
+          onSelect={setSelectedMount}
           theme={theme}
           delayClass="stagger-3"
         />
@@ -369,50 +750,83 @@ export function ResourceMonitor({ theme }: ResourceMonitorProps) {
         </div>
       </div>
 
-      <Separator className={`opacity-50 ${themeClasses.border}`} />
+      {isLocal && (
+        <>
+          {canAccess('alerts') && <AlertsPanel theme={theme} isVisible={isVisible} />}
+
+          {canAccess('probes') && <ProbesPanel theme={theme} isVisible={isVisible} />}
+
+          <Separator className={`opacity-50 ${themeClasses.border}`} />
+        </>
+      )}
 
       {/* Logs */}
-      <div className={`animate-fade-in-up ${themeClasses.bgCard} rounded-md border-2 ${themeClasses.border} p-4`}>
+      {isLocal && <div className={`animate-fade-in-up ${themeClasses.bgCard} rounded-md border-2 ${themeClasses.border} p-4`}>
         <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
           <div>
             <h3 className={`text-sm font-semibold ${themeClasses.text}`}>Logs</h3>
             <p className={`text-xs mt-1 ${themeClasses.textMuted}`}>
-              Abrir el log completo en una nueva pestaña (más reciente primero).
+              Abrir el log completo (más reciente primero).
             </p>
+            {canAccess('audit') && (
+              <Button
+                asChild
+                variant="outline"
+                size="sm"
+                className={`${themeClasses.bgCard} ${themeClasses.text} border-2 ${themeClasses.border} hover:opacity-80 font-semibold mt-2`}
+              >
+                <RouterLink to="/audit">Ver auditoría de accesos</RouterLink>
+              </Button>
+            )}
           </div>
-          <div className="flex flex-col sm:flex-row sm:items-center gap-2">
-            <Button
-              onClick={() => handleOpenLogs('nginx')}
-              variant="outline"
-              className={`${themeClasses.bgCard} ${themeClasses.text} border-2 ${themeClasses.border} hover:opacity-80 font-semibold h-8`}
-            >
-              Abrir log Nginx
-            </Button>
-            <Button
-              onClick={() => handleOpenLogs('nginx-error')}
-              variant="outline"
-              className={`${themeClasses.bgCard} ${themeClasses.text} border-2 ${themeClasses.border} hover:opacity-80 font-semibold h-8`}
-            >
-              Abrir log Nginx error
-            </Button>
-            <Button
-              onClick={() => handleOpenLogs('reportespiolis')}
-              variant="outline"
-              className={`${themeClasses.bgCard} ${themeClasses.text} border-2 ${themeClasses.border} hover:opacity-80 font-semibold h-8`}
-            >
-              Abrir log Reportespiolis
-            </Button>
+          <div className="flex flex-col gap-2 md:items-end">
+            {logSourcesError && (
+              <p className={`text-xs ${isDark ? 'text-red-400' : 'text-red-600'}`}>
+                No se pudo cargar la lista de logs: {logSourcesError}
+              </p>
+            )}
+            {groupLogSources(logSources).map(({ group, sources }) => (
+              <div key={group ?? ''} className="flex flex-col sm:flex-row sm:flex-wrap sm:items-center gap-2">
+                {group && <span className={`text-xs ${themeClasses.textMuted}`}>{group}:</span>}
+                {sources.map(source => (
+                  <Button
+                    key={source.id}
+                    asChild
+                    variant="outline"
+                    className={`${themeClasses.bgCard} ${themeClasses.text} border-2 ${themeClasses.border} hover:opacity-80 font-semibold h-8`}
+                  >
+                    <RouterLink to={logsPath(source.id)}>Abrir log {source.label}</RouterLink>
+                  </Button>
+                ))}
+              </div>
+            ))}
           </div>
         </div>
-      </div>
+      </div>}
 
       {/* Charts */}
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <span className={`text-xs ${themeClasses.textMuted}`}>Ventana:</span>
+        {(Object.keys(HISTORY_RANGES) as HistoryRange[]).map(range => (
+          <Button
+            key={range}
+            onClick={() => handleHistoryRange(range)}
+            variant="outline"
+            size="sm"
+            className={`${range === historyRange ? themeClasses.resultBg : themeClasses.bgCard} ${themeClasses.text} border-2 ${themeClasses.border} hover:opacity-80 font-semibold`}
+            aria-pressed={range === historyRange}
+          >
+            {HISTORY_RANGES[range].label}
+          </Button>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
         <ResourceChart
           title="Historial CPU"
           data={history.cpu}
           color="#22c55e"
           unit="%"
+          onExport={exportHistory('cpu', ['cpu'])}
           theme={theme}
         />
         <ResourceChart
@@ -420,16 +834,124 @@ export function ResourceMonitor({ theme }: ResourceMonitorProps) {
           data={history.memory}
           color="#3b82f6"
           unit="%"
+          onExport={exportHistory('memoria', ['memory'])}
           theme={theme}
         />
         <ResourceChart
-          title="Historial Disco"
-          data={history.disk}
+          title={activeMount ? `Historial Disco (${activeMount})` : 'Historial Disco'}
+          data={activeMount ? history.disks[activeMount] ?? [] : history.disk}
           color="#f59e0b"
           unit="%"
+          onExport={exportHistory('disco', [activeMount ? `disk:${activeMount}` : 'disk'])}
+          theme={theme}
+        />
+        <ResourceChart
+          title="E/S de disco"
+          data={history.diskIO}
+          color="#14b8a6"
+          unit="B/s"
+          scale="auto"
+          series={DISK_IO_SERIES}
+          formatValue={formatByteRate}
+          footer={<DiskIOList devices={resources.diskIO ?? []} theme={theme} />}
+          onExport={exportHistory('disco-es', ['io:read', 'io:write'])}
           theme={theme}
         />
       </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <CpuCoresCard
+          cores={resources.cpuPerCore ?? []}
+          loadAverage={resources.loadAverage}
+          theme={theme}
+        />
+        <CpuBreakdownChart
+          data={history.cpuBreakdown}
+          onExport={exportHistory('cpu-tiempo', CPU_BREAKDOWN_FIELDS.map(field => `cpu:${field}`))}
+          theme={theme}
+        />
+      </div>
+
+      {isLocal && canAccess('processes') && <ProcessPanel theme={theme} isVisible={isVisible} />}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <NetworkCard
+          interfaces={networkInterfaces}
+          selectedInterface={activeInterface}
+          onSelect={setSelectedInterface}
+          theme={theme}
+        />
+        <ResourceChart
+          title={activeInterface ? `Tráfico de red (${activeInterface})` : 'Tráfico de red'}
+          data={activeInterface ? history.networks[activeInterface] ?? [] : history.networkTotal}
+          color="#0ea5e9"
+          unit="B/s"
+          scale="auto"
+          series={NETWORK_SERIES}
+          formatValue={formatByteRate}
+          onExport={exportHistory(
+            activeInterface ? `red-${activeInterface}` : 'red',
+            activeInterface ? [`net:${activeInterface}:rx`, `net:${activeInterface}:tx`] : ['net:rx', 'net:tx']
+          )}
+          theme={theme}
+        />
+      </div>
+
+      {isLocal && canAccess('containers') && <ContainersPanel theme={theme} isVisible={isVisible} />}
+
+      {/* Tráfico nginx (solo si hay un access log configurado) */}
+      {isLocal && accessLogSource && canAccess('analytics') && (
+        <>
+          <Separator className={`opacity-50 ${themeClasses.border}`} />
+          <TrafficPanel theme={theme} isVisible={isVisible} source={accessLogSource.id} />
+        </>
+      )}
+    </div>
+  )
+}
+
+interface ResourceMonitorProps {
+  theme: 'light' | 'dark'
+}
+
+export function ResourceMonitor({ theme }: ResourceMonitorProps) {
+  const { params } = useLocation()
+  // Host elegido en la URL (?host=); sin él, el servidor local
+  const selectedHost = params.get('host') || LOCAL_HOST_ID
+  const [isVisible, setIsVisible] = useState(() => (
+    typeof document === 'undefined' ? true : !document.hidden
+  ))
+
+  useEffect(() => {
+    if (typeof document === 'undefined') {
+      return
+    }
+
+    const handleVisibilityChange = () => {
+      setIsVisible(!document.hidden)
+    }
+
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+    }
+  }, [])
+
+  const handleSelectHost = useCallback((host: HostInfo) => {
+    updateQuery({ host: host.id === LOCAL_HOST_ID ? null : host.id })
+  }, [])
+
+  return (
+    <div className="space-y-6">
+      <HostsOverview
+        theme={theme}
+        isVisible={isVisible}
+        selectedHost={selectedHost}
+        onSelect={handleSelectHost}
+      />
+      {/* key: cambiar de host reinicia muestras, historial y selecciones */}
+      <HostDashboard key={selectedHost} theme={theme} host={selectedHost} isVisible={isVisible} />
     </div>
   )
 }
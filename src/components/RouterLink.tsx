@@ -0,0 +1,27 @@
+import type { AnchorHTMLAttributes, MouseEvent } from "react"
+import { navigate, routeHref } from "@/lib/router"
+
+interface RouterLinkProps extends Omit<AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> {
+  // Ruta de la aplicación, sin la base (p.ej. /logs/nginx)
+  to: string
+}
+
+// Enlace interno: navega sin recargar; con Ctrl/Cmd o botón del medio el
+// navegador lo abre en otra pestaña como cualquier <a>
+export function RouterLink({ to, onClick, target, ...props }: RouterLinkProps) {
+  const handleClick = (event: MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(event)
+    if (
+      event.defaultPrevented ||
+      event.button !== 0 ||
+      event.metaKey || event.ctrlKey || event.shiftKey || event.altKey ||
+      (target && target !== '_self')
+    ) {
+      return
+    }
+    event.preventDefault()
+    navigate(to)
+  }
+
+  return <a href={routeHref(to)} target={target} onClick={handleClick} {...props} />
+}
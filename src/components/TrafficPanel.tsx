@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useState } from "react"
+import { ResourceChart } from "./ResourceChart"
+import { Button } from "@/components/ui/button"
+import { useThemeClasses } from "@/lib/useThemeClasses"
+import { API_URL, apiFetch, getApiHeaders } from "@/lib/api"
+import { formatBytes } from "@/lib/format"
+import { Globe } from "lucide-react"
+
+const TRAFFIC_REFRESH_MS = 60000
+const TOP_N = 10
+
+// Ventanas de análisis del access log (el servidor admite hasta 24 h)
+const TRAFFIC_WINDOWS = {
+  '15m': { label: '15 min' },
+  '1h': { label: '1 h' },
+  '6h': { label: '6 h' },
+  '24h': { label: '24 h' }
+} as const
+
+type TrafficWindow = keyof typeof TRAFFIC_WINDOWS
+
+type StatusClass = '2xx' | '3xx' | '4xx' | '5xx' | 'other'
+
+interface TopEntry {
+  value: string
+  count: number
+}
+
+interface TrafficResponse {
+  from: number
+  to: number
+  totalRequests: number
+  bytes: number
+  statusClasses: Record<StatusClass, number>
+  requestsPerMinute: Array<{ t: number; count: number }>
+  topPaths: TopEntry[]
+  topIps: TopEntry[]
+  latency: { samples: number; p50: number; p90: number; p95: number; p99: number } | null
+  truncated: boolean
+}
+
+const STATUS_LABELS: Record<StatusClass, string> = {
+  '2xx': '2xx',
+  '3xx': '3xx',
+  '4xx': '4xx',
+  '5xx': '5xx',
+  other: 'Otros'
+}
+
+const formatMs = (seconds: number) => `${Math.round(seconds * 1000)} ms`
+
+const formatMinuteLabel = (t: number, range: TrafficWindow) => {
+  const date = new Date(t)
+  if (range === '24h') {
+    return date.toLocaleString('es-ES', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })
+  }
+  return date.toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+interface TrafficPanelProps {
+  theme: 'light' | 'dark'
+  isVisible: boolean
+  // Fuente con formato nginx-access
+  source: string
+}
+
+export function TrafficPanel({ theme, isVisible, source }: TrafficPanelProps) {
+  const themeClasses = useThemeClasses(theme)
+  const isDark = theme === 'dark'
+  const [trafficWindow, setTrafficWindow] = useState<TrafficWindow>('1h')
+  const [traffic, setTraffic] = useState<TrafficResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchTraffic = useCallback(async (range: TrafficWindow, abortSignal?: AbortSignal) => {
+    const params = new URLSearchParams({ source, window: range, top: String(TOP_N) })
+
+    try {
+      const response = await apiFetch(`${API_URL}/api/analytics/nginx?${params}`, {
+        signal: abortSignal,
+        headers: getApiHeaders(),
+        cache: 'no-store'
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+
+      setTraffic(await response.json())
+      setError(null)
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        return
+      }
+      setError(err instanceof Error ? err.message : 'Error de conexión')
+    }
+  }, [source])
+
+  useEffect(() => {
+    if (!isVisible) return
+
+    const abortController = new AbortController()
+    fetchTraffic(trafficWindow, abortController.signal)
+
+    const intervalId = setInterval(() => {
+      fetchTraffic(trafficWindow, abortController.signal)
+    }, TRAFFIC_REFRESH_MS)
+
+    return () => {
+      abortController.abort()
+      clearInterval(intervalId)
+    }
+  }, [isVisible, trafficWindow, fetchTraffic])
+
+  const chartData = (traffic?.requestsPerMinute ?? []).map(point => ({
+    time: formatMinuteLabel(point.t, trafficWindow),
+    value: point.count
+  }))
+
+  const statusColor = (statusClass: StatusClass) => {
+    if (statusClass === '5xx') return isDark ? 'text-red-400' : 'text-red-600'
+    if (statusClass === '4xx') return isDark ? 'text-yellow-400' : 'text-yellow-600'
+    if (statusClass === '3xx') return isDark ? 'text-blue-400' : 'text-blue-600'
+    if (statusClass === '2xx') return isDark ? 'text-green-400' : 'text-green-600'
+    return themeClasses.textMuted
+  }
+
+  const renderTopTable = (title: string, entries: TopEntry[]) => (
+    <div className={`${themeClasses.bgCard} rounded-md border-2 ${themeClasses.border} p-4`}>
+      <h4 className={`text-sm font-semibold ${themeClasses.text} mb-2`}>{title}</h4>
+      {entries.length === 0 ? (
+        <p className={`text-xs ${themeClasses.textMuted}`}>Sin datos en la ventana.</p>
+      ) : (
+        <table className={`w-full text-xs ${themeClasses.text}`}>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={entry.value} className={`border-b ${themeClasses.border}`}>
+                <td className="py-1 pr-2 font-mono break-all">{entry.value}</td>
+                <td className="py-1 text-right tabular-nums">{entry.count}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Globe className={`w-4 h-4 ${themeClasses.textMuted}`} />
+          <h3 className={`text-sm font-semibold ${themeClasses.text}`}>Tráfico Nginx</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {(Object.keys(TRAFFIC_WINDOWS) as TrafficWindow[]).map(range => (
+            <Button
+              key={range}
+              onClick={() => setTrafficWindow(range)}
+              variant="outline"
+              size="sm"
+              className={`${range === trafficWindow ? themeClasses.resultBg : themeClasses.bgCard} ${themeClasses.text} border-2 ${themeClasses.border} hover:opacity-80 font-semibold`}
+              aria-pressed={range === trafficWindow}
+            >
+              {TRAFFIC_WINDOWS[range].label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <p className={`text-xs ${isDark ? 'text-red-400' : 'text-red-600'}`}>
+          No se pudo cargar el tráfico: {error}
+        </p>
+      )}
+
+      {traffic && (
+        <div className={`flex flex-wrap gap-x-6 gap-y-1 text-xs ${themeClasses.textMuted}`}>
+          <span>
+            <span className={`font-semibold ${themeClasses.text}`}>{traffic.totalRequests}</span> requests
+          </span>
+          <span>
+            <span className={`font-semibold ${themeClasses.text}`}>{formatBytes(traffic.bytes)}</span> servidos
+          </span>
+          {(Object.keys(STATUS_LABELS) as StatusClass[]).map(statusClass => (
+            <span key={statusClass}>
+              {STATUS_LABELS[statusClass]}:{' '}
+              <span className={`font-semibold ${statusColor(statusClass)}`}>{traffic.statusClasses[statusClass]}</span>
+            </span>
+          ))}
+          {traffic.latency ? (
+            <span>
+              Latencia p50 {formatMs(traffic.latency.p50)} · p90 {formatMs(traffic.latency.p90)} · p99 {formatMs(traffic.latency.p99)}
+            </span>
+          ) : (
+            <span>Latencia no disponible ($request_time no registrado)</span>
+          )}
+          {traffic.truncated && <span>Resultado parcial: el log es demasiado grande para la ventana.</span>}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <ResourceChart
+          title="Requests por minuto"
+          data={chartData}
+          color="#8b5cf6"
+          unit=" req/min"
+          valueLabel="Requests"
+          scale="auto"
+          theme={theme}
+        />
+        {renderTopTable('Rutas más pedidas', traffic?.topPaths ?? [])}
+        {renderTopTable('IPs más activas', traffic?.topIps ?? [])}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+// Detectar automáticamente la ruta base de la aplicación
+// - En desarrollo: podría ser http://localhost:3001 (si se accede directo al backend)
+// - En producción con Docker: usar ruta relativa para que el navegador la resuelva correctamente
+const getApiBaseUrl = (): string => {
+  // Si hay una variable de entorno configurada, usarla
+  if (import.meta.env.VITE_API_URL) {
+    return import.meta.env.VITE_API_URL
+  }
+
+  if (typeof window !== 'undefined') {
+    const path = window.location.pathname
+    if (path.startsWith('/monitor')) {
+      return '/monitor'
+    }
+  }
+
+  // Usar ruta relativa (./) para que el navegador la resuelva relativa a la ubicación actual
+  // Si estamos en /monitor/, ./api/metrics se resolverá como /monitor/api/metrics
+  return '.'
+}
+
+export const API_URL: string = getApiBaseUrl()
+
+/**
+ * Headers comunes para la API. En desarrollo agrega el token de
+ * VITE_MONITOR_API_TOKEN; en producción la identidad la agrega el proxy de
+ * autenticación (X-Auth-User), que el servidor solo acepta con TRUSTED_PROXIES
+ * o AUTH_PROXY_SECRET configurados; sin eso la API responde 401.
+ */
+export const getApiHeaders = (accept = 'application/json'): Record<string, string> => {
+  const headers: Record<string, string> = {
+    Accept: accept
+  }
+  const devToken = import.meta.env.DEV ? import.meta.env.VITE_MONITOR_API_TOKEN : ''
+  if (devToken) {
+    headers['X-Api-Token'] = devToken
+    headers['Authorization'] = `Bearer ${devToken}`
+  }
+  return headers
+}
+
+// Hasta cuándo no pedir a cada ruta (pathname) por el límite de pedidos
+const rateLimitedUntil = new Map<string, number>()
+
+const rateLimitKey = (url: string) => new URL(url, window.location.href).pathname
+
+const parseSeconds = (value: string | null) => {
+  const seconds = Number.parseInt(value ?? '', 10)
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : null
+}
+
+/**
+ * Espera que sugiere la respuesta antes del próximo pedido a la misma ruta.
+ * Con 429 es Retry-After; si quedan 0 pedidos, lo que tarda en recargarse uno
+ * (RateLimit-Reset / RateLimit-Limit). Devuelve null si no hace falta esperar.
+ */
+export const getRateLimitDelayMs = (response: Response): number | null => {
+  if (response.status === 429) {
+    const retryAfter = parseSeconds(response.headers.get('Retry-After')) ??
+      parseSeconds(response.headers.get('RateLimit-Reset'))
+    return (retryAfter ?? 1) * 1000
+  }
+  if (parseSeconds(response.headers.get('RateLimit-Remaining')) === 0) {
+    const reset = parseSeconds(response.headers.get('RateLimit-Reset')) ?? 0
+    const limit = parseSeconds(response.headers.get('RateLimit-Limit')) || 1
+    return Math.ceil(reset / limit) * 1000
+  }
+  return null
+}
+
+export class RateLimitError extends Error {
+  constructor(retryMs: number) {
+    super(`Demasiados pedidos, reintento en ${Math.max(1, Math.ceil(retryMs / 1000))} s`)
+    this.name = 'RateLimitError'
+  }
+}
+
+/**
+ * fetch que respeta los límites del servidor: mientras una ruta está en
+ * espera (429 o sin pedidos restantes) falla con RateLimitError sin ir a la
+ * red, así el polling se frena solo hasta que el bucket se recarga.
+ */
+export async function apiFetch(url: string, init?: RequestInit): Promise<Response> {
+  const key = rateLimitKey(url)
+  const waitMs = (rateLimitedUntil.get(key) ?? 0) - Date.now()
+  if (waitMs > 0) {
+    throw new RateLimitError(waitMs)
+  }
+
+  const response = await fetch(url, init)
+  const delayMs = getRateLimitDelayMs(response)
+  if (delayMs) {
+    rateLimitedUntil.set(key, Date.now() + delayMs)
+  } else {
+    rateLimitedUntil.delete(key)
+  }
+  if (response.status === 429) {
+    throw new RateLimitError(delayMs ?? 0)
+  }
+  return response
+}
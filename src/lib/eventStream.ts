@@ -0,0 +1,137 @@
+import { getApiHeaders, getRateLimitDelayMs, RateLimitError } from "@/lib/api"
+
+const DEFAULT_RETRY_MS = 5000
+
+export interface EventStreamMessage {
+  event: string
+  data: string
+  id: string | null
+}
+
+interface EventStreamOptions {
+  onMessage: (message: EventStreamMessage) => void
+  onOpen?: () => void
+  onError?: (error: Error) => void
+}
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+  const timeoutId = setTimeout(resolve, ms)
+  signal.addEventListener('abort', () => {
+    clearTimeout(timeoutId)
+    resolve()
+  }, { once: true })
+})
+
+/**
+ * Suscripción a un endpoint Server-Sent Events.
+ *
+ * Se usa fetch en lugar de EventSource para poder enviar los headers de
+ * autenticación. Al reconectar envía Last-Event-ID con el último id recibido
+ * para que el servidor reenvíe los eventos perdidos.
+ *
+ * Devuelve una función para cerrar la suscripción.
+ */
+export function subscribeEventStream(url: string, options: EventStreamOptions): () => void {
+  const controller = new AbortController()
+  let lastEventId: string | null = null
+  let retryMs = DEFAULT_RETRY_MS
+
+  const dispatch = (block: string) => {
+    let event = 'message'
+    let id: string | null = null
+    const data: string[] = []
+
+    for (const line of block.split(/\r?\n/)) {
+      if (!line || line.startsWith(':')) {
+        continue
+      }
+
+      const separator = line.indexOf(':')
+      const field = separator === -1 ? line : line.slice(0, separator)
+      const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '')
+
+      if (field === 'event') {
+        event = value
+      } else if (field === 'data') {
+        data.push(value)
+      } else if (field === 'id') {
+        id = value
+      } else if (field === 'retry') {
+        const parsed = Number.parseInt(value, 10)
+        if (Number.isFinite(parsed) && parsed > 0) {
+          retryMs = parsed
+        }
+      }
+    }
+
+    if (id !== null) {
+      lastEventId = id
+    }
+
+    if (data.length > 0) {
+      options.onMessage({ event, data: data.join('\n'), id })
+    }
+  }
+
+  const readStream = async (body: ReadableStream<Uint8Array>) => {
+    const reader = body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) {
+        return
+      }
+
+      buffer += decoder.decode(value, { stream: true })
+      const blocks = buffer.split(/\r?\n\r?\n/)
+      buffer = blocks.pop() ?? ''
+      for (const block of blocks) {
+        dispatch(block)
+      }
+    }
+  }
+
+  const connect = async () => {
+    while (!controller.signal.aborted) {
+      // Con 429 se espera lo que indica el servidor en lugar de retryMs
+      let rateLimitDelayMs: number | null = null
+      try {
+        const headers = getApiHeaders('text/event-stream')
+        if (lastEventId) {
+          headers['Last-Event-ID'] = lastEventId
+        }
+
+        const response = await fetch(url, {
+          headers,
+          signal: controller.signal,
+          cache: 'no-store'
+        })
+
+        if (response.status === 429) {
+          rateLimitDelayMs = getRateLimitDelayMs(response)
+          throw new RateLimitError(rateLimitDelayMs ?? retryMs)
+        }
+        if (!response.ok || !response.body) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+        }
+
+        options.onOpen?.()
+        await readStream(response.body)
+        throw new Error('Conexión cerrada por el servidor')
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return
+        }
+        options.onError?.(error instanceof Error ? error : new Error('Error desconocido'))
+      }
+
+      await wait(Math.max(retryMs, rateLimitDelayMs ?? 0), controller.signal)
+    }
+  }
+
+  connect()
+
+  return () => controller.abort()
+}
@@ -0,0 +1,50 @@
+import { apiFetch, getApiHeaders } from "@/lib/api"
+
+export type HistoryExportFormat = 'csv' | 'ndjson'
+
+export const HISTORY_EXPORT_FORMATS: HistoryExportFormat[] = ['csv', 'ndjson']
+
+interface HistoryExportRequest {
+  // Base de las métricas del host (…/api/metrics o …/api/hosts/:id/metrics)
+  metricsUrl: string
+  from: number
+  to: number
+  fields: string[]
+  format: HistoryExportFormat
+  // Nombre del archivo sin extensión
+  name: string
+}
+
+// "2024-05-01T10:30:00.000Z" -> "20240501-1030"
+const formatFileTime = (t: number) => new Date(t).toISOString().slice(0, 16).replace(/[-:]/g, '').replace('T', '-')
+
+/**
+ * Descarga el historial de [from, to] para los campos pedidos. Se usa fetch
+ * (y no un link directo) para mandar los headers de la API.
+ */
+export async function downloadHistoryExport({ metricsUrl, from, to, fields, format, name }: HistoryExportRequest) {
+  const params = new URLSearchParams({
+    from: String(from),
+    to: String(to),
+    fields: fields.join(','),
+    format
+  })
+  const response = await apiFetch(`${metricsUrl}/export?${params}`, {
+    headers: getApiHeaders('*/*'),
+    cache: 'no-store'
+  })
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.message ?? `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const url = URL.createObjectURL(await response.blob())
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${name}-${formatFileTime(from)}.${format}`
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,106 @@
+// Igualdad sobre un campo interpretado (p.ej. status = 404)
+export interface LogFieldFilter {
+  name: string
+  value: string
+}
+
+/**
+ * Criterios de búsqueda sobre un log. `from`/`to` se guardan con el formato
+ * de <input type="datetime-local"> (hora local) y se envían como ISO.
+ */
+export interface LogSearch {
+  query: string
+  regex: boolean
+  caseSensitive: boolean
+  invert: boolean
+  from: string
+  to: string
+  fields: LogFieldFilter[]
+}
+
+export const EMPTY_LOG_SEARCH: LogSearch = {
+  query: '',
+  regex: false,
+  caseSensitive: false,
+  invert: false,
+  from: '',
+  to: '',
+  fields: []
+}
+
+export const isSearchActive = (search: LogSearch): boolean => (
+  Boolean(search.query || search.from || search.to || search.fields.length > 0)
+)
+
+const toIsoString = (value: string): string | null => {
+  const timestamp = new Date(value).getTime()
+  return Number.isFinite(timestamp) ? new Date(timestamp).toISOString() : null
+}
+
+// Parámetros de /api/logs/:source para la búsqueda. El stream en vivo no
+// admite rango de tiempo (`withTimeRange` en false).
+export const appendSearchParams = (params: URLSearchParams, search: LogSearch, withTimeRange = true) => {
+  if (search.query) {
+    params.set('q', search.query)
+    if (search.regex) params.set('regex', '1')
+    if (search.caseSensitive) params.set('case', '1')
+    if (search.invert) params.set('invert', '1')
+  }
+
+  for (const field of search.fields) {
+    params.append('field', `${field.name}:${field.value}`)
+  }
+
+  if (!withTimeRange) {
+    return
+  }
+
+  const from = search.from ? toIsoString(search.from) : null
+  const to = search.to ? toIsoString(search.to) : null
+  if (from) params.set('from', from)
+  if (to) params.set('to', to)
+}
+
+// ISO -> valor de <input type="datetime-local"> en hora local
+const toLocalInput = (value: string): string => {
+  const date = new Date(value)
+  if (!Number.isFinite(date.getTime())) {
+    return ''
+  }
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 19)
+}
+
+// Inverso de appendSearchParams: búsqueda guardada en la URL de la vista
+export const parseLogSearch = (params: URLSearchParams): LogSearch => {
+  const query = params.get('q') ?? ''
+  const fields = params.getAll('field').flatMap(field => {
+    const separator = field.indexOf(':')
+    return separator > 0 ? [{ name: field.slice(0, separator), value: field.slice(separator + 1) }] : []
+  })
+
+  return {
+    query,
+    regex: Boolean(query) && params.get('regex') === '1',
+    caseSensitive: Boolean(query) && params.get('case') === '1',
+    invert: Boolean(query) && params.get('invert') === '1',
+    from: toLocalInput(params.get('from') ?? ''),
+    to: toLocalInput(params.get('to') ?? ''),
+    fields
+  }
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Expresión para resaltar coincidencias (no aplica a búsquedas invertidas)
+export const buildHighlighter = (search: LogSearch): RegExp | null => {
+  if (!search.query || search.invert) {
+    return null
+  }
+
+  try {
+    const source = search.regex ? search.query : escapeRegExp(search.query)
+    return new RegExp(source, search.caseSensitive ? 'g' : 'gi')
+  } catch {
+    return null
+  }
+}
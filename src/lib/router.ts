@@ -0,0 +1,124 @@
+import { useMemo, useSyncExternalStore } from 'react'
+
+// Ruta base de la aplicación: /monitor detrás de nginx, vacía en acceso directo
+// (misma detección que API_URL)
+const getBasePath = (): string => {
+  if (typeof window !== 'undefined' && window.location.pathname.startsWith('/monitor')) {
+    return '/monitor'
+  }
+  return ''
+}
+
+export const BASE_PATH: string = getBasePath()
+
+// Evento propio: pushState/replaceState no disparan popstate
+const LOCATION_CHANGE_EVENT = 'monitor:locationchange'
+
+/**
+ * Páginas de la aplicación. Para agregar una, sumar la variante acá y su
+ * patrón en `matchRoute`.
+ */
+export type Route =
+  | { page: 'dashboard' }
+  | { page: 'logs'; source: string | null }
+  | { page: 'audit' }
+
+export interface AppLocation {
+  // Ruta sin la base (siempre empieza con /)
+  path: string
+  // Query string sin el "?"
+  search: string
+  params: URLSearchParams
+}
+
+const readLocation = (href: string): AppLocation => {
+  const url = new URL(href, window.location.origin)
+  const path = url.pathname.startsWith(BASE_PATH) ? url.pathname.slice(BASE_PATH.length) : url.pathname
+  const search = url.search.replace(/^\?/, '')
+  return { path: path || '/', search, params: new URLSearchParams(search) }
+}
+
+const decodeSegment = (segment: string): string | null => {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return null
+  }
+}
+
+// Ruta -> página. `?source=` es el formato anterior de los enlaces a logs
+export const matchRoute = ({ path, params }: AppLocation): Route => {
+  const segments = path.split('/').filter(Boolean)
+  if (segments[0] === 'logs' && segments.length <= 2) {
+    const source = segments[1] ? decodeSegment(segments[1]) : params.get('source')
+    return { page: 'logs', source: source || null }
+  }
+  if (segments[0] === 'audit' && segments.length === 1) {
+    return { page: 'audit' }
+  }
+  return { page: 'dashboard' }
+}
+
+// Ruta de la aplicación con su query string (sin parámetros vacíos)
+export const buildPath = (path: string, params?: URLSearchParams): string => {
+  const query = params?.toString()
+  return query ? `${path}?${query}` : path
+}
+
+export const logsPath = (source: string, params?: URLSearchParams): string => (
+  buildPath(`/logs/${encodeURIComponent(source)}`, params)
+)
+
+// href real (con la base) para enlaces <a>
+export const routeHref = (path: string): string => `${BASE_PATH}${path}`
+
+/**
+ * Navega dentro de la aplicación sin recargar. Con `replace` no agrega una
+ * entrada al historial (ajustes menores de la vista, como el ancla).
+ */
+export const navigate = (path: string, { replace = false }: { replace?: boolean } = {}) => {
+  const href = routeHref(path)
+  if (href === `${window.location.pathname}${window.location.search}`) {
+    return
+  }
+  if (replace) {
+    window.history.replaceState(null, '', href)
+  } else {
+    window.history.pushState(null, '', href)
+    window.scrollTo(0, 0)
+  }
+  window.dispatchEvent(new Event(LOCATION_CHANGE_EVENT))
+}
+
+/**
+ * Cambia parámetros de la query string de la página actual; null o '' los
+ * quita. Por defecto agrega una entrada al historial.
+ */
+export const updateQuery = (changes: Record<string, string | null>, options?: { replace?: boolean }) => {
+  const { path, params } = readLocation(window.location.href)
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === null || value === '') {
+      params.delete(key)
+    } else {
+      params.set(key, value)
+    }
+  }
+  navigate(buildPath(path, params), options)
+}
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('popstate', onChange)
+  window.addEventListener(LOCATION_CHANGE_EVENT, onChange)
+  return () => {
+    window.removeEventListener('popstate', onChange)
+    window.removeEventListener(LOCATION_CHANGE_EVENT, onChange)
+  }
+}
+
+const getSnapshot = () => `${window.location.pathname}${window.location.search}`
+
+// Ubicación actual; se actualiza con navigate/updateQuery y con atrás/adelante
+export function useLocation(): AppLocation {
+  const href = useSyncExternalStore(subscribe, getSnapshot)
+  return useMemo(() => readLocation(href), [href])
+}
@@ -0,0 +1,21 @@
+// Colores según el porcentaje de uso (verde < 60 <= amarillo < 80 <= rojo)
+export const getUsageColorClass = (percentage: number, isDark: boolean) => {
+  if (percentage >= 80) return {
+    text: isDark ? 'text-red-400' : 'text-red-600',
+    bg: isDark ? 'bg-red-500/20' : 'bg-red-100',
+    bgBar: 'bg-gradient-to-r from-red-500 to-red-400',
+    indicator: '⚠️'
+  }
+  if (percentage >= 60) return {
+    text: isDark ? 'text-yellow-400' : 'text-yellow-600',
+    bg: isDark ? 'bg-yellow-500/20' : 'bg-yellow-100',
+    bgBar: 'bg-gradient-to-r from-yellow-500 to-yellow-400',
+    indicator: '⚡'
+  }
+  return {
+    text: isDark ? 'text-green-400' : 'text-green-600',
+    bg: isDark ? 'bg-green-500/20' : 'bg-green-100',
+    bgBar: 'bg-gradient-to-r from-green-500 to-green-400',
+    indicator: '✓'
+  }
+}
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from 'react'
+import { API_URL, apiFetch, getApiHeaders } from '@/lib/api'
+
+export type AccessSection = 'metrics' | 'export' | 'processes' | 'containers' | 'probes' | 'alerts' | 'analytics' | 'audit'
+
+export interface AccessInfo {
+  // null con token de API o acceso local en desarrollo
+  user: string | null
+  groups: string[]
+  // Nombre del token con scopes, si se usó uno
+  token: string | null
+  sections: AccessSection[]
+  logs: string[]
+}
+
+/**
+ * Usuario actual y secciones que puede ver (GET /api/access). Mientras carga
+ * `canAccess` responde false para no pedir datos que el servidor rechazaría;
+ * si la consulta falla responde true y cada sección muestra su propio error.
+ */
+export const useAccess = () => {
+  const [access, setAccess] = useState<AccessInfo | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const abortController = new AbortController()
+
+    const loadAccess = async () => {
+      try {
+        const response = await apiFetch(`${API_URL}/api/access`, {
+          signal: abortController.signal,
+          headers: getApiHeaders(),
+          cache: 'no-store'
+        })
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+        }
+
+        setAccess(await response.json())
+        setError(null)
+      } catch (err) {
+        if (err instanceof Error && err.name === 'AbortError') {
+          return
+        }
+        setError(err instanceof Error ? err.message : 'Error desconocido')
+      }
+    }
+
+    loadAccess()
+
+    return () => {
+      abortController.abort()
+    }
+  }, [])
+
+  const canAccess = useCallback((section: AccessSection) => (
+    access ? access.sections.includes(section) : error !== null
+  ), [access, error])
+
+  return { access, error, canAccess }
+}
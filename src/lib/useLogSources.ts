@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react'
+import { API_URL, apiFetch, getApiHeaders } from '@/lib/api'
+import type { LogFormat } from '@/components/LogTable'
+
+export interface LogSourceInfo {
+  id: string
+  label: string
+  format: LogFormat
+  group: string | null
+}
+
+export interface LogSourceGroup {
+  group: string | null
+  sources: LogSourceInfo[]
+}
+
+/**
+ * Agrupa las fuentes por `group` respetando el orden de la configuración
+ * (las fuentes sin grupo quedan en un grupo `null`).
+ */
+export const groupLogSources = (sources: LogSourceInfo[]): LogSourceGroup[] => {
+  const groups = new Map<string | null, LogSourceInfo[]>()
+  for (const source of sources) {
+    const key = source.group ?? null
+    groups.set(key, [...(groups.get(key) ?? []), source])
+  }
+  return [...groups.entries()].map(([group, items]) => ({ group, sources: items }))
+}
+
+/**
+ * Lista de fuentes de log configuradas en el servidor (GET /api/logs)
+ */
+export const useLogSources = () => {
+  const [sources, setSources] = useState<LogSourceInfo[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const abortController = new AbortController()
+
+    const loadSources = async () => {
+      try {
+        const response = await apiFetch(`${API_URL}/api/logs`, {
+          signal: abortController.signal,
+          headers: getApiHeaders(),
+          cache: 'no-store'
+        })
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+        }
+
+        const payload: { sources: LogSourceInfo[] } = await response.json()
+        setSources(payload.sources || [])
+        setError(null)
+      } catch (err) {
+        if (err instanceof Error && err.name === 'AbortError') {
+          return
+        }
+        setError(err instanceof Error ? err.message : 'Error desconocido')
+      } finally {
+        if (!abortController.signal.aborted) {
+          setLoading(false)
+        }
+      }
+    }
+
+    loadSources()
+
+    return () => {
+      abortController.abort()
+    }
+  }, [])
+
+  return { sources, loading, error }
+}